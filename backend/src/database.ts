@@ -32,6 +32,7 @@ export class AppDatabase {
         highlevelAgentId TEXT NOT NULL,
         currentPrompt TEXT NOT NULL,
         originalPrompt TEXT NOT NULL,
+        budget TEXT,
         createdAt TEXT NOT NULL DEFAULT (datetime('now')),
         updatedAt TEXT NOT NULL DEFAULT (datetime('now'))
       );
@@ -62,7 +63,10 @@ export class AppDatabase {
         testSuiteId TEXT NOT NULL,
         scenarioDescription TEXT NOT NULL,
         scenarioType TEXT NOT NULL CHECK (scenarioType IN ('happy-path', 'adversarial')),
+        kind TEXT NOT NULL DEFAULT 'scripted' CHECK (kind IN ('scripted', 'persona')),
+        persona TEXT,
         userInputSequence TEXT NOT NULL,
+        split TEXT NOT NULL DEFAULT 'train' CHECK (split IN ('train', 'holdout')),
         createdAt TEXT NOT NULL DEFAULT (datetime('now')),
         FOREIGN KEY (testSuiteId) REFERENCES TestSuite(id)
       );
@@ -73,6 +77,11 @@ export class AppDatabase {
         description TEXT NOT NULL,
         category TEXT NOT NULL CHECK (category IN ('behavioral', 'functional', 'compliance')),
         evaluationPrompt TEXT NOT NULL,
+        assertion TEXT,
+        turnSelector TEXT,
+        rubric TEXT,
+        severity TEXT NOT NULL DEFAULT 'major' CHECK (severity IN ('critical', 'major', 'minor')),
+        weight REAL,
         createdAt TEXT NOT NULL DEFAULT (datetime('now')),
         FOREIGN KEY (testCaseId) REFERENCES TestCase(id)
       );
@@ -82,7 +91,15 @@ export class AppDatabase {
         testSuiteId TEXT NOT NULL,
         agentId TEXT NOT NULL,
         promptSnapshot TEXT NOT NULL,
+        evaluationConfig TEXT,
         overallPassRate REAL,
+        overallScore REAL,
+        criticalFailures INTEGER NOT NULL DEFAULT 0,
+        trials INTEGER NOT NULL DEFAULT 1,
+        passRateLower REAL,
+        passRateUpper REAL,
+        flakyCriteria INTEGER NOT NULL DEFAULT 0,
+        split TEXT,
         status TEXT NOT NULL CHECK (status IN ('running', 'completed', 'error')),
         startedAt TEXT NOT NULL DEFAULT (datetime('now')),
         completedAt TEXT,
@@ -94,9 +111,11 @@ export class AppDatabase {
         id TEXT PRIMARY KEY,
         testRunId TEXT NOT NULL,
         testCaseId TEXT NOT NULL,
+        trial INTEGER NOT NULL DEFAULT 1,
         agentResponses TEXT NOT NULL,
         status TEXT NOT NULL CHECK (status IN ('completed', 'error')),
         errorMessage TEXT,
+        callerOutcome TEXT,
         executedAt TEXT NOT NULL DEFAULT (datetime('now')),
         FOREIGN KEY (testRunId) REFERENCES TestRun(id),
         FOREIGN KEY (testCaseId) REFERENCES TestCase(id)
@@ -108,6 +127,16 @@ export class AppDatabase {
         criterionId TEXT NOT NULL,
         passed INTEGER NOT NULL CHECK (passed IN (0, 1)),
         explanation TEXT NOT NULL,
+        turn INTEGER,
+        score REAL,
+        maxScore REAL,
+        severity TEXT,
+        weight REAL,
+        judgeVotes TEXT,
+        agreement REAL,
+        humanLabel INTEGER CHECK (humanLabel IN (0, 1)),
+        humanLabelNote TEXT,
+        labelledAt TEXT,
         FOREIGN KEY (testCaseResultId) REFERENCES TestCaseResult(id),
         FOREIGN KEY (criterionId) REFERENCES SuccessCriterion(id)
       );
@@ -120,11 +149,41 @@ export class AppDatabase {
         revisedPrompt TEXT NOT NULL,
         changes TEXT NOT NULL,
         status TEXT NOT NULL CHECK (status IN ('generated', 'accepted', 'rejected')),
+        tournamentId TEXT,
+        candidateConfig TEXT,
+        score REAL,
+        evaluationRunId TEXT,
         createdAt TEXT NOT NULL DEFAULT (datetime('now')),
         FOREIGN KEY (testRunId) REFERENCES TestRun(id),
         FOREIGN KEY (agentId) REFERENCES Agent(id)
       );
 
+      CREATE TABLE IF NOT EXISTS CalibrationRun (
+        id TEXT PRIMARY KEY,
+        agentId TEXT,
+        evaluationConfig TEXT NOT NULL,
+        sampleSize INTEGER NOT NULL,
+        metrics TEXT NOT NULL,
+        verdicts TEXT NOT NULL,
+        createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+        FOREIGN KEY (agentId) REFERENCES Agent(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS Job (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL CHECK (type IN ('analysis', 'test-suite', 'test-run', 'cycle')),
+        status TEXT NOT NULL CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+        payload TEXT NOT NULL,
+        resourceId TEXT,
+        progress TEXT NOT NULL DEFAULT '{"completed":0,"total":0}',
+        result TEXT,
+        error TEXT,
+        errorCode TEXT,
+        createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+        startedAt TEXT,
+        completedAt TEXT
+      );
+
       CREATE TABLE IF NOT EXISTS CycleRecord (
         id TEXT PRIMARY KEY,
         agentId TEXT NOT NULL,
@@ -136,11 +195,131 @@ export class AppDatabase {
         status TEXT NOT NULL CHECK (status IN ('running', 'paused', 'completed', 'cancelled')),
         testRunIds TEXT NOT NULL DEFAULT '[]',
         optimizationIds TEXT NOT NULL DEFAULT '[]',
+        holdoutRunIds TEXT NOT NULL DEFAULT '[]',
+        passRateCurve TEXT NOT NULL DEFAULT '[]',
+        rollbacks TEXT NOT NULL DEFAULT '[]',
+        bestTestRunId TEXT,
+        outcome TEXT,
+        stopReason TEXT,
+        config TEXT,
+        checkpoint TEXT,
         startedAt TEXT NOT NULL DEFAULT (datetime('now')),
         completedAt TEXT,
         FOREIGN KEY (agentId) REFERENCES Agent(id)
       );
+
+      CREATE TABLE IF NOT EXISTS TestRunEvent (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        testRunId TEXT NOT NULL,
+        data TEXT NOT NULL,
+        createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+        FOREIGN KEY (testRunId) REFERENCES TestRun(id)
+      );
+
+      -- A run stores an event per turn and verdict, and streams replay them by run
+      CREATE INDEX IF NOT EXISTS idx_TestRunEvent_testRunId ON TestRunEvent (testRunId);
+
+      -- Calls are recorded before the analysis or optimization they belong to is stored, so no foreign keys
+      CREATE TABLE IF NOT EXISTS LLMCall (
+        id TEXT PRIMARY KEY,
+        operation TEXT NOT NULL CHECK (operation IN ('analysis', 'generation', 'judging', 'optimization', 'simulation')),
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        promptTokens INTEGER NOT NULL DEFAULT 0,
+        completionTokens INTEGER NOT NULL DEFAULT 0,
+        latencyMs INTEGER NOT NULL,
+        cost REAL,
+        error TEXT,
+        -- 'cache' or 'cassette' when served without calling the provider; NULL for provider calls
+        source TEXT,
+        agentId TEXT,
+        analysisId TEXT,
+        testRunId TEXT,
+        optimizationId TEXT,
+        cycleId TEXT,
+        createdAt TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE IF NOT EXISTS CycleEvent (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        cycleId TEXT NOT NULL,
+        data TEXT NOT NULL,
+        createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+        FOREIGN KEY (cycleId) REFERENCES CycleRecord(id)
+      );
+
+      -- Keyed by a SHA-256 of the rendered request; misses counts the provider calls that filled the entry
+      CREATE TABLE IF NOT EXISTS LLMCacheEntry (
+        key TEXT PRIMARY KEY,
+        operation TEXT NOT NULL,
+        model TEXT NOT NULL,
+        response TEXT NOT NULL,
+        hits INTEGER NOT NULL DEFAULT 0,
+        misses INTEGER NOT NULL DEFAULT 0,
+        createdAt TEXT NOT NULL DEFAULT (datetime('now')),
+        expiresAt TEXT NOT NULL,
+        lastHitAt TEXT
+      );
     `);
+
+    // Columns added after the initial schema; CREATE TABLE IF NOT EXISTS skips existing tables
+    this.addColumnIfMissing('TestCase', 'kind', "TEXT NOT NULL DEFAULT 'scripted' CHECK (kind IN ('scripted', 'persona'))");
+    this.addColumnIfMissing('TestCase', 'persona', 'TEXT');
+    this.addColumnIfMissing('TestCaseResult', 'callerOutcome', 'TEXT');
+    this.addColumnIfMissing('SuccessCriterion', 'assertion', 'TEXT');
+    this.addColumnIfMissing('SuccessCriterion', 'turnSelector', 'TEXT');
+    this.addColumnIfMissing('CriterionResult', 'turn', 'INTEGER');
+    this.addColumnIfMissing('SuccessCriterion', 'rubric', 'TEXT');
+    this.addColumnIfMissing('CriterionResult', 'score', 'REAL');
+    this.addColumnIfMissing('CriterionResult', 'maxScore', 'REAL');
+    this.addColumnIfMissing('TestRun', 'overallScore', 'REAL');
+    this.addColumnIfMissing('SuccessCriterion', 'severity', "TEXT NOT NULL DEFAULT 'major' CHECK (severity IN ('critical', 'major', 'minor'))");
+    this.addColumnIfMissing('SuccessCriterion', 'weight', 'REAL');
+    this.addColumnIfMissing('CriterionResult', 'severity', 'TEXT');
+    this.addColumnIfMissing('CriterionResult', 'weight', 'REAL');
+    this.addColumnIfMissing('TestRun', 'criticalFailures', 'INTEGER NOT NULL DEFAULT 0');
+    this.addColumnIfMissing('TestRun', 'evaluationConfig', 'TEXT');
+    this.addColumnIfMissing('CriterionResult', 'judgeVotes', 'TEXT');
+    this.addColumnIfMissing('CriterionResult', 'agreement', 'REAL');
+    this.addColumnIfMissing('CriterionResult', 'humanLabel', 'INTEGER CHECK (humanLabel IN (0, 1))');
+    this.addColumnIfMissing('CriterionResult', 'humanLabelNote', 'TEXT');
+    this.addColumnIfMissing('CriterionResult', 'labelledAt', 'TEXT');
+    this.addColumnIfMissing('TestRun', 'trials', 'INTEGER NOT NULL DEFAULT 1');
+    this.addColumnIfMissing('TestRun', 'passRateLower', 'REAL');
+    this.addColumnIfMissing('TestRun', 'passRateUpper', 'REAL');
+    this.addColumnIfMissing('TestRun', 'flakyCriteria', 'INTEGER NOT NULL DEFAULT 0');
+    this.addColumnIfMissing('TestCaseResult', 'trial', 'INTEGER NOT NULL DEFAULT 1');
+    this.addColumnIfMissing('TestCase', 'split', "TEXT NOT NULL DEFAULT 'train' CHECK (split IN ('train', 'holdout'))");
+    this.addColumnIfMissing('TestRun', 'split', 'TEXT');
+    this.addColumnIfMissing('CycleRecord', 'holdoutRunIds', "TEXT NOT NULL DEFAULT '[]'");
+    this.addColumnIfMissing('CycleRecord', 'passRateCurve', "TEXT NOT NULL DEFAULT '[]'");
+    this.addColumnIfMissing('CycleRecord', 'rollbacks', "TEXT NOT NULL DEFAULT '[]'");
+    this.addColumnIfMissing('CycleRecord', 'bestTestRunId', 'TEXT');
+    this.addColumnIfMissing('CycleRecord', 'outcome', 'TEXT');
+    this.addColumnIfMissing('CycleRecord', 'stopReason', 'TEXT');
+    this.addColumnIfMissing('CycleRecord', 'config', 'TEXT');
+    this.addColumnIfMissing('CycleRecord', 'checkpoint', 'TEXT');
+    this.addColumnIfMissing('OptimizationRecord', 'tournamentId', 'TEXT');
+    this.addColumnIfMissing('OptimizationRecord', 'candidateConfig', 'TEXT');
+    this.addColumnIfMissing('OptimizationRecord', 'score', 'REAL');
+    this.addColumnIfMissing('OptimizationRecord', 'evaluationRunId', 'TEXT');
+    this.addColumnIfMissing('LLMCall', 'agentId', 'TEXT');
+    this.addColumnIfMissing('Agent', 'budget', 'TEXT');
+    this.addColumnIfMissing('Job', 'errorCode', 'TEXT');
+    this.addColumnIfMissing('LLMCall', 'source', 'TEXT');
+
+    // Spend caps total an agent's or cycle's calls before every provider call
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_LLMCall_agentId ON LLMCall (agentId);
+      CREATE INDEX IF NOT EXISTS idx_LLMCall_cycleId ON LLMCall (cycleId);
+    `);
+  }
+
+  private addColumnIfMissing(tableName: string, columnName: string, definition: string): void {
+    const exists = this.getTableInfo(tableName).some(col => col.name === columnName);
+    if (!exists) {
+      this.db.exec(`ALTER TABLE ${tableName} ADD COLUMN ${columnName} ${definition}`);
+    }
   }
 
   getTableNames(): string[] {
@@ -0,0 +1,138 @@
+import express, { Request, Response } from 'express';
+import { createServer, Server } from 'http';
+import { v4 as uuidv4 } from 'uuid';
+import { WebSocketServer } from 'ws';
+import { LLMService } from './services/llm-service';
+import { MockLLMService } from './services/llm-service-factory';
+import { ConversationMessage } from './types';
+
+/**
+ * Local stand-in for the HighLevel Voice AI API, implementing the session
+ * contract used by HighLevelTransport over REST and WebSocket. Agent replies
+ * come from the LLM simulator so the adapter can be exercised with no network.
+ */
+
+const PORT = process.env.FAKE_HIGHLEVEL_PORT || 4010;
+
+const DEFAULT_AGENT_PROMPT = 'You are a helpful Voice AI agent for a small business.';
+
+interface FakeSession {
+  agentId: string;
+  prompt: string;
+  conversation: ConversationMessage[];
+}
+
+export function createFakeHighLevelServer(llmService: LLMService = new MockLLMService()): Server {
+  const app = express();
+  const sessions = new Map<string, FakeSession>();
+
+  app.use(express.json());
+
+  function errorResponse(code: string, message: string) {
+    return { error: { code, message } };
+  }
+
+  async function reply(session: FakeSession, text: string, context: unknown): Promise<string> {
+    session.conversation.push({ role: 'user', content: text, context: context as ConversationMessage['context'] });
+    const utterance = await llmService.simulateAgentResponse(session.prompt, session.conversation);
+    session.conversation.push({ role: 'agent', content: utterance });
+    return utterance;
+  }
+
+  app.use((req: Request, res: Response, next) => {
+    if (!req.headers.authorization?.startsWith('Bearer ')) {
+      res.status(401).json(errorResponse('UNAUTHORIZED', 'Missing bearer token'));
+      return;
+    }
+    next();
+  });
+
+  // POST /voice-ai/agents/:agentId/sessions - Open a conversation session
+  app.post('/voice-ai/agents/:agentId/sessions', (req: Request, res: Response) => {
+    const sessionId = uuidv4();
+    const { promptOverride } = req.body ?? {};
+
+    sessions.set(sessionId, {
+      agentId: req.params.agentId as string,
+      prompt: typeof promptOverride === 'string' && promptOverride.trim() ? promptOverride : DEFAULT_AGENT_PROMPT,
+      conversation: [],
+    });
+
+    res.status(201).json({ sessionId });
+  });
+
+  // POST /voice-ai/sessions/:id/messages - Send a caller turn, receive the agent reply
+  app.post('/voice-ai/sessions/:id/messages', async (req: Request, res: Response) => {
+    const sessionId = req.params.id as string;
+    const session = sessions.get(sessionId);
+    if (!session) {
+      res.status(404).json(errorResponse('SESSION_NOT_FOUND', `Session '${sessionId}' not found`));
+      return;
+    }
+
+    const { text, context } = req.body ?? {};
+    if (typeof text !== 'string') {
+      res.status(400).json(errorResponse('INVALID_MESSAGE', 'Request body must include a "text" string'));
+      return;
+    }
+
+    try {
+      res.json({ reply: await reply(session, text, context) });
+    } catch (err: any) {
+      res.status(500).json(errorResponse('AGENT_REPLY_FAILED', err.message));
+    }
+  });
+
+  // DELETE /voice-ai/sessions/:id - End a session
+  app.delete('/voice-ai/sessions/:id', (req: Request, res: Response) => {
+    sessions.delete(req.params.id as string);
+    res.status(204).end();
+  });
+
+  const server = createServer(app);
+  const sockets = new WebSocketServer({ noServer: true });
+
+  // GET /voice-ai/sessions/:id/stream - Upgrade to a socket carrying one reply per caller turn
+  server.on('upgrade', (req, socket, head) => {
+    const match = /^\/voice-ai\/sessions\/([^/]+)\/stream$/.exec(new URL(req.url ?? '/', 'http://localhost').pathname);
+    const session = match ? sessions.get(decodeURIComponent(match[1])) : undefined;
+    if (!req.headers.authorization?.startsWith('Bearer ')) {
+      socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      return;
+    }
+    if (!session) {
+      socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+      return;
+    }
+
+    sockets.handleUpgrade(req, socket, head, ws => {
+      ws.on('message', async data => {
+        let message: { text?: unknown; context?: unknown };
+        try {
+          message = JSON.parse(data.toString());
+        } catch {
+          ws.send(JSON.stringify(errorResponse('INVALID_MESSAGE', 'Messages must be JSON')));
+          return;
+        }
+        if (typeof message.text !== 'string') {
+          ws.send(JSON.stringify(errorResponse('INVALID_MESSAGE', 'Message must include a "text" string')));
+          return;
+        }
+
+        try {
+          ws.send(JSON.stringify({ reply: await reply(session, message.text, message.context) }));
+        } catch (err: any) {
+          ws.send(JSON.stringify(errorResponse('AGENT_REPLY_FAILED', err.message)));
+        }
+      });
+    });
+  });
+
+  return server;
+}
+
+if (require.main === module) {
+  createFakeHighLevelServer().listen(PORT, () => {
+    console.log(`Fake HighLevel API running on port ${PORT}`);
+  });
+}
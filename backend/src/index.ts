@@ -7,7 +7,17 @@ import { createTestSuitesRouter } from './routes/test-suites';
 import { createTestRunsRouter } from './routes/test-runs';
 import { createOptimizeRouter } from './routes/optimize';
 import { createCyclesRouter } from './routes/cycles';
-import { getLLMService } from './services/llm-service-factory';
+import { createCalibrationRouter } from './routes/calibration';
+import { createJobsRouter } from './routes/jobs';
+import { createLLMCacheRouter } from './routes/llm-cache';
+import { getLLMService, loadPriceTable } from './services/llm-service-factory';
+import { LLMUsageService } from './services/llm-usage';
+import { LLMBudgetService } from './services/llm-budget';
+import { LLMCacheService } from './services/llm-cache';
+import { getAgentTransport } from './services/agent-transport-factory';
+import { JobQueueService, DEFAULT_JOB_CONCURRENCY } from './services/job-queue';
+import { llmBudgetFromEnv } from './utils/llm-budget';
+import { llmCacheConfigFromEnv } from './utils/llm-cache';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -21,13 +31,27 @@ app.get('/api/health', (_req, res) => {
 
 // Mount routes
 const database = getDatabase();
-const llmService = getLLMService();
+const llmCache = new LLMCacheService(database, llmCacheConfigFromEnv(process.env));
+const prices = loadPriceTable();
+const llmService = getLLMService({
+  recorder: new LLMUsageService(database, prices),
+  guard: new LLMBudgetService(database, llmBudgetFromEnv(process.env), prices),
+  cache: llmCache,
+});
+const agentTransport = getAgentTransport(llmService);
+const jobQueue = new JobQueueService(database, Number(process.env.JOB_CONCURRENCY) || DEFAULT_JOB_CONCURRENCY);
 app.use('/api/agents', createAgentsRouter(database));
-app.use('/api/analysis', createAnalysisRouter(database, llmService));
-app.use('/api/test-suites', createTestSuitesRouter(database, llmService));
-app.use('/api/test-runs', createTestRunsRouter(database, llmService));
-app.use('/api/optimize', createOptimizeRouter(database, llmService));
-app.use('/api/cycles', createCyclesRouter(database, llmService));
+app.use('/api/analysis', createAnalysisRouter(database, llmService, jobQueue));
+app.use('/api/test-suites', createTestSuitesRouter(database, llmService, jobQueue));
+app.use('/api/test-runs', createTestRunsRouter(database, llmService, agentTransport, jobQueue));
+app.use('/api/optimize', createOptimizeRouter(database, llmService, agentTransport));
+app.use('/api/cycles', createCyclesRouter(database, llmService, agentTransport, jobQueue));
+app.use('/api/calibration', createCalibrationRouter(database, llmService));
+app.use('/api/jobs', createJobsRouter(jobQueue));
+app.use('/api/llm-cache', createLLMCacheRouter(llmCache));
+
+// Every job handler is registered by the routers above
+jobQueue.start();
 
 export { app };
 
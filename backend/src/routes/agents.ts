@@ -3,11 +3,14 @@ import { v4 as uuidv4 } from 'uuid';
 import { AppDatabase } from '../database';
 import { ComparisonBuilderService } from '../services/comparison-builder';
 import { DashboardBuilderService } from '../services/dashboard-builder';
+import { LLMBudgetService } from '../services/llm-budget';
+import { validateLLMBudget } from '../utils/llm-budget';
 
 export function createAgentsRouter(database: AppDatabase): Router {
   const router = Router();
   const comparisonBuilder = new ComparisonBuilderService(database);
   const dashboardBuilder = new DashboardBuilderService(database);
+  const budgets = new LLMBudgetService(database);
 
   function errorResponse(code: string, message: string, retryable: boolean) {
     return { error: { code, message, retryable } };
@@ -142,6 +145,59 @@ export function createAgentsRouter(database: AppDatabase): Router {
     }
   });
 
+  // GET /api/agents/:id/budget - The agent's LLM spend cap and what it has spent
+  router.get('/:id/budget', (req: Request, res: Response) => {
+    try {
+      const id = req.params.id as string;
+
+      const agent = database.db.prepare('SELECT id FROM Agent WHERE id = ?').get(id) as any;
+      if (!agent) {
+        res.status(404).json(
+          errorResponse('AGENT_NOT_FOUND', `Agent with id '${id}' not found`, false)
+        );
+        return;
+      }
+
+      res.json({ agentId: id, budget: budgets.getAgentBudget(id), spent: budgets.getSpend({ agentId: id }) });
+    } catch (err: any) {
+      res.status(500).json(
+        errorResponse('BUDGET_FETCH_FAILED', `Failed to retrieve agent budget: ${err.message}`, true)
+      );
+    }
+  });
+
+  // PUT /api/agents/:id/budget - Set the agent's LLM spend cap; a null budget removes it
+  router.put('/:id/budget', (req: Request, res: Response) => {
+    try {
+      const id = req.params.id as string;
+      const { budget } = req.body;
+
+      if (budget !== null) {
+        try {
+          validateLLMBudget(budget);
+        } catch (err: any) {
+          res.status(400).json(errorResponse('INVALID_BUDGET', err.message, false));
+          return;
+        }
+      }
+
+      const agent = database.db.prepare('SELECT id FROM Agent WHERE id = ?').get(id) as any;
+      if (!agent) {
+        res.status(404).json(
+          errorResponse('AGENT_NOT_FOUND', `Agent with id '${id}' not found`, false)
+        );
+        return;
+      }
+
+      budgets.setAgentBudget(id, budget === null ? null : { maxCost: budget.maxCost, maxTokens: budget.maxTokens });
+      res.json({ agentId: id, budget: budgets.getAgentBudget(id), spent: budgets.getSpend({ agentId: id }) });
+    } catch (err: any) {
+      res.status(500).json(
+        errorResponse('BUDGET_UPDATE_FAILED', `Failed to update agent budget: ${err.message}`, true)
+      );
+    }
+  });
+
   // GET /api/agents/:id/comparison - Return before/after comparison data
   router.get('/:id/comparison', (req: Request, res: Response) => {
     try {
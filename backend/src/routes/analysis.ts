@@ -2,17 +2,26 @@ import { Router, Request, Response } from 'express';
 import { AppDatabase } from '../database';
 import { PromptAnalyzerService } from '../services/prompt-analyzer';
 import { LLMService } from '../services/llm-service';
+import { JobQueueService } from '../services/job-queue';
 
-export function createAnalysisRouter(database: AppDatabase, llmService: LLMService): Router {
+export function createAnalysisRouter(database: AppDatabase, llmService: LLMService, jobQueue: JobQueueService): Router {
   const router = Router();
   const analyzerService = new PromptAnalyzerService(llmService, database);
 
+  jobQueue.register('analysis', {
+    run: async (job, context) => {
+      const analysis = await analyzerService.analyzePrompt(job.payload.agentId, job.payload.prompt);
+      context.setResourceId(analysis.id);
+      return analysis;
+    },
+  });
+
   function errorResponse(code: string, message: string, retryable: boolean) {
     return { error: { code, message, retryable } };
   }
 
-  // POST /api/analysis - Trigger prompt analysis for an agent
-  router.post('/', async (req: Request, res: Response) => {
+  // POST /api/analysis - Queue prompt analysis of an agent's current prompt
+  router.post('/', (req: Request, res: Response) => {
     try {
       const { agentId } = req.body;
 
@@ -34,9 +43,8 @@ export function createAnalysisRouter(database: AppDatabase, llmService: LLMServi
         return;
       }
 
-      const analysis = await analyzerService.analyzePrompt(agent.id, agent.currentPrompt);
-
-      res.status(201).json(analysis);
+      const job = jobQueue.enqueue('analysis', { agentId: agent.id, prompt: agent.currentPrompt });
+      res.status(202).json(job);
     } catch (err: any) {
       res.status(500).json(
         errorResponse('ANALYSIS_FAILED', `Prompt analysis failed: ${err.message}`, true)
@@ -0,0 +1,121 @@
+import { Router, Request, Response } from 'express';
+import { AppDatabase } from '../database';
+import { LLMService, BudgetExceededError } from '../services/llm-service';
+import { JudgeCalibrationService } from '../services/judge-calibration';
+import { DEFAULT_EVALUATION_CONFIG, validateEvaluationConfig } from '../utils/consensus';
+
+export function createCalibrationRouter(database: AppDatabase, llmService: LLMService): Router {
+  const router = Router();
+  const calibration = new JudgeCalibrationService(database, llmService);
+
+  function errorResponse(code: string, message: string, retryable: boolean) {
+    return { error: { code, message, retryable } };
+  }
+
+  // PUT /api/calibration/labels/:criterionResultId - Label a stored criterion result
+  router.put('/labels/:criterionResultId', (req: Request, res: Response) => {
+    try {
+      const criterionResultId = req.params.criterionResultId as string;
+      const { passed, note } = req.body;
+
+      if (typeof passed !== 'boolean') {
+        res.status(400).json(errorResponse('INVALID_INPUT', 'passed must be a boolean', false));
+        return;
+      }
+      if (note !== undefined && typeof note !== 'string') {
+        res.status(400).json(errorResponse('INVALID_INPUT', 'note must be a string', false));
+        return;
+      }
+
+      if (!calibration.setLabel(criterionResultId, passed, note)) {
+        res.status(404).json(errorResponse('CRITERION_RESULT_NOT_FOUND', `Criterion result '${criterionResultId}' not found`, false));
+        return;
+      }
+
+      res.json({ criterionResultId, humanLabel: passed, humanLabelNote: note ?? null });
+    } catch (err: any) {
+      res.status(500).json(errorResponse('LABEL_UPDATE_FAILED', `Failed to label criterion result: ${err.message}`, true));
+    }
+  });
+
+  // DELETE /api/calibration/labels/:criterionResultId - Remove a label
+  router.delete('/labels/:criterionResultId', (req: Request, res: Response) => {
+    try {
+      const criterionResultId = req.params.criterionResultId as string;
+      if (!calibration.setLabel(criterionResultId, null)) {
+        res.status(404).json(errorResponse('CRITERION_RESULT_NOT_FOUND', `Criterion result '${criterionResultId}' not found`, false));
+        return;
+      }
+      res.json({ criterionResultId, humanLabel: null, humanLabelNote: null });
+    } catch (err: any) {
+      res.status(500).json(errorResponse('LABEL_UPDATE_FAILED', `Failed to clear label: ${err.message}`, true));
+    }
+  });
+
+  // GET /api/calibration/labels?agentId= - The calibration set
+  router.get('/labels', (req: Request, res: Response) => {
+    try {
+      const agentId = req.query.agentId as string | undefined;
+      res.json(calibration.getCalibrationSet(agentId));
+    } catch (err: any) {
+      res.status(500).json(errorResponse('CALIBRATION_SET_FETCH_FAILED', `Failed to load calibration set: ${err.message}`, true));
+    }
+  });
+
+  // POST /api/calibration/runs - Re-judge the calibration set and report agreement
+  router.post('/runs', async (req: Request, res: Response) => {
+    try {
+      const { agentId, evaluation } = req.body;
+
+      if (evaluation !== undefined) {
+        try {
+          validateEvaluationConfig(evaluation);
+        } catch (err: any) {
+          res.status(400).json(errorResponse('INVALID_EVALUATION_CONFIG', err.message, false));
+          return;
+        }
+      }
+
+      const samples = calibration.getCalibrationSet(agentId);
+      if (samples.length === 0) {
+        res.status(400).json(errorResponse('EMPTY_CALIBRATION_SET', 'No human-labelled LLM-judged results to calibrate against', false));
+        return;
+      }
+
+      const run = await calibration.runCalibration(samples, evaluation ?? DEFAULT_EVALUATION_CONFIG, agentId);
+      res.status(201).json(run);
+    } catch (err: any) {
+      if (err instanceof BudgetExceededError) {
+        res.status(402).json(errorResponse(err.code, err.message, false));
+        return;
+      }
+      res.status(500).json(errorResponse('CALIBRATION_RUN_FAILED', `Calibration run failed: ${err.message}`, true));
+    }
+  });
+
+  // GET /api/calibration/runs?agentId= - List calibration runs, newest first
+  router.get('/runs', (req: Request, res: Response) => {
+    try {
+      const agentId = req.query.agentId as string | undefined;
+      res.json(calibration.listCalibrationRuns(agentId));
+    } catch (err: any) {
+      res.status(500).json(errorResponse('CALIBRATION_RUN_FETCH_FAILED', `Failed to list calibration runs: ${err.message}`, true));
+    }
+  });
+
+  // GET /api/calibration/runs/:id - Retrieve a calibration run
+  router.get('/runs/:id', (req: Request, res: Response) => {
+    try {
+      const run = calibration.getCalibrationRun(req.params.id as string);
+      if (!run) {
+        res.status(404).json(errorResponse('CALIBRATION_RUN_NOT_FOUND', `Calibration run '${req.params.id}' not found`, false));
+        return;
+      }
+      res.json(run);
+    } catch (err: any) {
+      res.status(500).json(errorResponse('CALIBRATION_RUN_FETCH_FAILED', `Failed to retrieve calibration run: ${err.message}`, true));
+    }
+  });
+
+  return router;
+}
@@ -1,26 +1,94 @@
 import { Router, Request, Response } from 'express';
 import { AppDatabase } from '../database';
 import { LLMService } from '../services/llm-service';
-import { CycleOrchestratorService } from '../services/cycle-orchestrator';
+import { AgentTransport } from '../services/agent-transport';
+import { CycleOrchestratorService, StoredCycleEvent } from '../services/cycle-orchestrator';
+import { JobQueueService } from '../services/job-queue';
+import { LLMUsageService } from '../services/llm-usage';
+import { TestGeneratorService } from '../services/test-generator';
+import { validateEvaluationConfig } from '../utils/consensus';
+import { validateTrials } from '../utils/trials';
+import { validateOptimizationStrategy } from '../utils/tournament';
+import { validateStopPolicy } from '../utils/stop-policy';
+import { validateLLMBudget } from '../utils/llm-budget';
+import { transitionCycleStatus, CycleStatus } from '../utils/state-machine';
+import { SSE_HEARTBEAT_MS, parseLastEventId } from '../utils/sse';
 
-export function createCyclesRouter(database: AppDatabase, llmService: LLMService): Router {
+export function createCyclesRouter(
+  database: AppDatabase,
+  llmService: LLMService,
+  agentTransport: AgentTransport,
+  jobQueue: JobQueueService
+): Router {
   const router = Router();
-  const orchestrator = new CycleOrchestratorService(database, llmService);
+  const orchestrator = new CycleOrchestratorService(database, llmService, agentTransport, jobQueue);
+  const testCaseStore = new TestGeneratorService(llmService, database);
+  const llmUsage = new LLMUsageService(database);
+
+  // The router is created once at boot, before the queue starts, so pick up cycles the previous process left running
+  orchestrator.recoverCycles();
 
   function errorResponse(code: string, message: string, retryable: boolean) {
     return { error: { code, message, retryable } };
   }
 
   // POST /api/cycles - Start auto-cycle
-  router.post('/', async (req: Request, res: Response) => {
+  router.post('/', (req: Request, res: Response) => {
     try {
-      const { agentId, testSuiteId, targetThreshold, maxCycles } = req.body;
+      const {
+        agentId, testSuiteId, targetThreshold, maxCycles, evaluation, trials, optimization, stopPolicy, budget,
+      } = req.body;
 
       if (!agentId || !testSuiteId) {
         res.status(400).json(errorResponse('INVALID_INPUT', 'agentId and testSuiteId are required', false));
         return;
       }
 
+      if (evaluation !== undefined) {
+        try {
+          validateEvaluationConfig(evaluation);
+        } catch (err: any) {
+          res.status(400).json(errorResponse('INVALID_EVALUATION_CONFIG', err.message, false));
+          return;
+        }
+      }
+
+      if (trials !== undefined) {
+        try {
+          validateTrials(trials);
+        } catch (err: any) {
+          res.status(400).json(errorResponse('INVALID_TRIALS', err.message, false));
+          return;
+        }
+      }
+
+      if (optimization !== undefined) {
+        try {
+          validateOptimizationStrategy(optimization);
+        } catch (err: any) {
+          res.status(400).json(errorResponse('INVALID_OPTIMIZATION_STRATEGY', err.message, false));
+          return;
+        }
+      }
+
+      if (stopPolicy !== undefined) {
+        try {
+          validateStopPolicy(stopPolicy);
+        } catch (err: any) {
+          res.status(400).json(errorResponse('INVALID_STOP_POLICY', err.message, false));
+          return;
+        }
+      }
+
+      if (budget !== undefined) {
+        try {
+          validateLLMBudget(budget);
+        } catch (err: any) {
+          res.status(400).json(errorResponse('INVALID_BUDGET', err.message, false));
+          return;
+        }
+      }
+
       const agent = database.db.prepare('SELECT id FROM Agent WHERE id = ?').get(agentId) as any;
       if (!agent) {
         res.status(404).json(errorResponse('AGENT_NOT_FOUND', `Agent '${agentId}' not found`, false));
@@ -33,14 +101,27 @@ export function createCyclesRouter(database: AppDatabase, llmService: LLMService
         return;
       }
 
-      const cycleId = await orchestrator.startCycle({
+      const splitCounts = testCaseStore.countSplits(testSuiteId);
+      if (splitCounts.holdout > 0 && splitCounts.train === 0) {
+        res.status(400).json(
+          errorResponse('EMPTY_TRAINING_SPLIT', 'Every test case is held out; the optimizer needs training cases', false)
+        );
+        return;
+      }
+
+      const { cycleId, jobId } = orchestrator.startCycle({
         agentId,
         testSuiteId,
         targetThreshold: targetThreshold ?? 0.9,
         maxCycles: maxCycles ?? 5,
+        evaluation,
+        trials,
+        optimization,
+        stopPolicy,
+        budget,
       });
 
-      res.status(201).json({ id: cycleId, status: 'running' });
+      res.status(202).json({ id: cycleId, status: 'running', jobId });
     } catch (err: any) {
       res.status(500).json(errorResponse('CYCLE_START_FAILED', `Failed to start cycle: ${err.message}`, true));
     }
@@ -55,7 +136,7 @@ export function createCyclesRouter(database: AppDatabase, llmService: LLMService
         res.status(404).json(errorResponse('CYCLE_NOT_FOUND', `Cycle '${id}' not found`, false));
         return;
       }
-      res.json(record);
+      res.json({ ...record, usage: llmUsage.getTotals({ cycleId: id }) });
     } catch (err: any) {
       res.status(500).json(errorResponse('CYCLE_FETCH_FAILED', `Failed to get cycle: ${err.message}`, true));
     }
@@ -71,6 +152,13 @@ export function createCyclesRouter(database: AppDatabase, llmService: LLMService
         return;
       }
 
+      try {
+        transitionCycleStatus(record.status as CycleStatus, 'cancelled');
+      } catch (err: any) {
+        res.status(400).json(errorResponse('INVALID_TRANSITION', err.message, false));
+        return;
+      }
+
       orchestrator.cancelCycle(id);
       res.json({ id, status: 'cancelled' });
     } catch (err: any) {
@@ -78,7 +166,62 @@ export function createCyclesRouter(database: AppDatabase, llmService: LLMService
     }
   });
 
-  // GET /api/cycles/:id/events - SSE endpoint for real-time progress
+  // POST /api/cycles/:id/pause - Pause a running cycle after its current step
+  router.post('/:id/pause', (req: Request, res: Response) => {
+    try {
+      const id = req.params.id as string;
+      const record = orchestrator.getCycleRecord(id);
+      if (!record) {
+        res.status(404).json(errorResponse('CYCLE_NOT_FOUND', `Cycle '${id}' not found`, false));
+        return;
+      }
+
+      try {
+        transitionCycleStatus(record.status as CycleStatus, 'paused');
+      } catch (err: any) {
+        res.status(400).json(errorResponse('INVALID_TRANSITION', err.message, false));
+        return;
+      }
+
+      orchestrator.pauseCycle(id);
+      res.json({ id, status: 'paused' });
+    } catch (err: any) {
+      res.status(500).json(errorResponse('CYCLE_PAUSE_FAILED', `Failed to pause cycle: ${err.message}`, true));
+    }
+  });
+
+  // POST /api/cycles/:id/resume - Resume a paused or interrupted cycle from its last checkpoint
+  router.post('/:id/resume', (req: Request, res: Response) => {
+    try {
+      const id = req.params.id as string;
+      const record = orchestrator.getCycleRecord(id);
+      if (!record) {
+        res.status(404).json(errorResponse('CYCLE_NOT_FOUND', `Cycle '${id}' not found`, false));
+        return;
+      }
+
+      try {
+        transitionCycleStatus(record.status as CycleStatus, 'running');
+      } catch (err: any) {
+        res.status(400).json(errorResponse('INVALID_TRANSITION', err.message, false));
+        return;
+      }
+
+      if (!record.config) {
+        res.status(400).json(
+          errorResponse('CYCLE_NOT_RESUMABLE', `Cycle '${id}' was started before cycles could be resumed`, false)
+        );
+        return;
+      }
+
+      const jobId = orchestrator.resumeCycle(id);
+      res.status(202).json({ id, status: 'running', jobId });
+    } catch (err: any) {
+      res.status(500).json(errorResponse('CYCLE_RESUME_FAILED', `Failed to resume cycle: ${err.message}`, true));
+    }
+  });
+
+  // GET /api/cycles/:id/events - SSE endpoint for real-time progress, replaying events after Last-Event-ID
   router.get('/:id/events', (req: Request, res: Response) => {
     const cycleId = req.params.id as string;
 
@@ -88,24 +231,47 @@ export function createCyclesRouter(database: AppDatabase, llmService: LLMService
       return;
     }
 
+    // EventSource sends the header on reconnect; the query parameter lets a fresh connection resume too
+    const lastEventId = parseLastEventId(req.get('Last-Event-ID') ?? req.query.lastEventId);
+    const missed = orchestrator.getCycleEvents(cycleId, lastEventId);
+
+    // 204 tells EventSource to stop reconnecting once a finished cycle has nothing left to send
+    if (missed.length === 0 && record.status !== 'running') {
+      res.status(204).end();
+      return;
+    }
+
     res.writeHead(200, {
       'Content-Type': 'text/event-stream',
       'Cache-Control': 'no-cache',
       Connection: 'keep-alive',
     });
 
-    const listener = (event: any) => {
-      res.write(`data: ${JSON.stringify(event)}\n\n`);
-      if (event.type === 'finished' || event.type === 'error') {
+    const send = (event: StoredCycleEvent) => res.write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+    missed.forEach(send);
+    if (record.status !== 'running') {
+      res.end();
+      return;
+    }
+
+    // Comment lines keep proxies from closing an idle stream between cycle steps
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_MS);
+    const listener = (event: StoredCycleEvent) => {
+      send(event);
+      // An 'error' is always followed by the 'finished' that parks the cycle
+      if (event.type === 'finished') {
+        close();
         res.end();
       }
     };
+    const close = () => {
+      clearInterval(heartbeat);
+      orchestrator.removeEventListener(cycleId, listener);
+    };
 
     orchestrator.addEventListener(cycleId, listener);
 
-    req.on('close', () => {
-      orchestrator.removeEventListener(cycleId, listener);
-    });
+    req.on('close', close);
   });
 
   return router;
@@ -0,0 +1,72 @@
+import { Router, Request, Response } from 'express';
+import { JobQueueService, JobType, JOB_TYPES } from '../services/job-queue';
+import { JobStatus } from '../utils/state-machine';
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+export function createJobsRouter(jobQueue: JobQueueService): Router {
+  const router = Router();
+
+  function errorResponse(code: string, message: string, retryable: boolean) {
+    return { error: { code, message, retryable } };
+  }
+
+  // GET /api/jobs - List recent jobs, optionally by type, status or resource
+  router.get('/', (req: Request, res: Response) => {
+    try {
+      const type = req.query.type as string | undefined;
+      const status = req.query.status as string | undefined;
+      const resourceId = req.query.resourceId as string | undefined;
+
+      if (type !== undefined && !JOB_TYPES.includes(type as JobType)) {
+        res.status(400).json(errorResponse('INVALID_JOB_TYPE', `type must be one of: ${JOB_TYPES.join(', ')}`, false));
+        return;
+      }
+      if (status !== undefined && !JOB_STATUSES.includes(status as JobStatus)) {
+        res.status(400).json(errorResponse('INVALID_JOB_STATUS', `status must be one of: ${JOB_STATUSES.join(', ')}`, false));
+        return;
+      }
+
+      res.json(jobQueue.listJobs({ type: type as JobType | undefined, status: status as JobStatus | undefined, resourceId }));
+    } catch (err: any) {
+      res.status(500).json(errorResponse('JOB_LIST_FAILED', `Failed to list jobs: ${err.message}`, true));
+    }
+  });
+
+  // GET /api/jobs/:id - Job status, progress and result
+  router.get('/:id', (req: Request, res: Response) => {
+    try {
+      const id = req.params.id as string;
+      const job = jobQueue.getJob(id);
+      if (!job) {
+        res.status(404).json(errorResponse('JOB_NOT_FOUND', `Job '${id}' not found`, false));
+        return;
+      }
+      res.json(job);
+    } catch (err: any) {
+      res.status(500).json(errorResponse('JOB_FETCH_FAILED', `Failed to get job: ${err.message}`, true));
+    }
+  });
+
+  // POST /api/jobs/:id/cancel - Cancel a queued job, or ask a running one to stop
+  router.post('/:id/cancel', (req: Request, res: Response) => {
+    try {
+      const id = req.params.id as string;
+      const job = jobQueue.getJob(id);
+      if (!job) {
+        res.status(404).json(errorResponse('JOB_NOT_FOUND', `Job '${id}' not found`, false));
+        return;
+      }
+
+      try {
+        res.json(jobQueue.cancel(id));
+      } catch (err: any) {
+        res.status(400).json(errorResponse('INVALID_TRANSITION', err.message, false));
+      }
+    } catch (err: any) {
+      res.status(500).json(errorResponse('JOB_CANCEL_FAILED', `Failed to cancel job: ${err.message}`, true));
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,40 @@
+import { Router, Request, Response } from 'express';
+import { LLMCacheService } from '../services/llm-cache';
+import { LLMOperation } from '../types';
+import { LLM_OPERATIONS } from '../utils/llm-config';
+
+export function createLLMCacheRouter(cache: LLMCacheService): Router {
+  const router = Router();
+
+  function errorResponse(code: string, message: string, retryable: boolean) {
+    return { error: { code, message, retryable } };
+  }
+
+  // GET /api/llm-cache - Cache config, entries and hit rate per operation
+  router.get('/', (_req: Request, res: Response) => {
+    try {
+      res.json(cache.getStats());
+    } catch (err: any) {
+      res.status(500).json(errorResponse('CACHE_STATS_FAILED', `Failed to read LLM cache stats: ${err.message}`, true));
+    }
+  });
+
+  // DELETE /api/llm-cache - Drop cached responses, optionally only one operation's
+  router.delete('/', (req: Request, res: Response) => {
+    try {
+      const operation = req.query.operation as string | undefined;
+      if (operation !== undefined && !LLM_OPERATIONS.includes(operation as LLMOperation)) {
+        res.status(400).json(
+          errorResponse('INVALID_OPERATION', `operation must be one of: ${LLM_OPERATIONS.join(', ')}`, false)
+        );
+        return;
+      }
+
+      res.json({ removed: cache.clear(operation as LLMOperation | undefined) });
+    } catch (err: any) {
+      res.status(500).json(errorResponse('CACHE_CLEAR_FAILED', `Failed to clear LLM cache: ${err.message}`, true));
+    }
+  });
+
+  return router;
+}
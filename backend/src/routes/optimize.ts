@@ -1,29 +1,47 @@
 import { Router, Request, Response } from 'express';
 import { AppDatabase } from '../database';
-import { LLMService } from '../services/llm-service';
+import { LLMService, BudgetExceededError } from '../services/llm-service';
+import { AgentTransport } from '../services/agent-transport';
 import { PromptOptimizerService } from '../services/prompt-optimizer';
+import { PromptTournamentService } from '../services/prompt-tournament';
+import { mapCriterionResultRow } from '../services/test-runner';
 import { transitionOptimizationStatus, OptimizationStatus } from '../utils/state-machine';
 import { computeDiff } from '../utils/diff';
+import { validateOptimizationStrategy } from '../utils/tournament';
 import { CriterionResult } from '../types';
 
-export function createOptimizeRouter(database: AppDatabase, llmService: LLMService): Router {
+export function createOptimizeRouter(
+  database: AppDatabase,
+  llmService: LLMService,
+  agentTransport: AgentTransport
+): Router {
   const router = Router();
   const optimizer = new PromptOptimizerService(llmService, database);
+  const tournament = new PromptTournamentService(database, llmService, agentTransport);
 
   function errorResponse(code: string, message: string, retryable: boolean) {
     return { error: { code, message, retryable } };
   }
 
-  // POST /api/optimize - Generate optimized prompt
+  // POST /api/optimize - Generate optimized prompt (or run a candidate tournament when `strategy` is set)
   router.post('/', async (req: Request, res: Response) => {
     try {
-      const { testRunId, agentId } = req.body;
+      const { testRunId, agentId, strategy } = req.body;
 
       if (!testRunId || !agentId) {
         res.status(400).json(errorResponse('INVALID_INPUT', 'testRunId and agentId are required', false));
         return;
       }
 
+      if (strategy !== undefined) {
+        try {
+          validateOptimizationStrategy(strategy);
+        } catch (err: any) {
+          res.status(400).json(errorResponse('INVALID_OPTIMIZATION_STRATEGY', err.message, false));
+          return;
+        }
+      }
+
       const run = database.db.prepare('SELECT * FROM TestRun WHERE id = ?').get(testRunId) as any;
       if (!run) {
         res.status(404).json(errorResponse('TEST_RUN_NOT_FOUND', `Test run '${testRunId}' not found`, false));
@@ -38,7 +56,7 @@ export function createOptimizeRouter(database: AppDatabase, llmService: LLMServi
 
       // Gather criterion results from the test run
       const rows = database.db.prepare(`
-        SELECT cr.criterionId, cr.passed, cr.explanation
+        SELECT cr.*
         FROM CriterionResult cr
         JOIN TestCaseResult tcr ON cr.testCaseResultId = tcr.id
         WHERE tcr.testRunId = ? AND tcr.status = 'completed'
@@ -48,7 +66,7 @@ export function createOptimizeRouter(database: AppDatabase, llmService: LLMServi
       const passes: CriterionResult[] = [];
 
       for (const r of rows) {
-        const result: CriterionResult = { criterionId: r.criterionId, passed: r.passed === 1, explanation: r.explanation };
+        const result = mapCriterionResultRow(r);
         if (result.passed) passes.push(result);
         else failures.push(result);
       }
@@ -58,15 +76,43 @@ export function createOptimizeRouter(database: AppDatabase, llmService: LLMServi
         return;
       }
 
+      if (strategy !== undefined) {
+        const { winner, candidates, sampledTestCaseIds } = await tournament.runTournament(
+          testRunId, agentId, agent.currentPrompt, failures, passes, strategy
+        );
+        const diff = computeDiff(winner.originalPrompt, winner.revisedPrompt);
+        res.status(201).json({ ...winner, diff, candidates, sampledTestCaseIds });
+        return;
+      }
+
       const record = await optimizer.optimizePrompt(testRunId, agentId, agent.currentPrompt, failures, passes);
       const diff = computeDiff(record.originalPrompt, record.revisedPrompt);
 
       res.status(201).json({ ...record, diff });
     } catch (err: any) {
+      if (err instanceof BudgetExceededError) {
+        res.status(402).json(errorResponse(err.code, err.message, false));
+        return;
+      }
       res.status(500).json(errorResponse('OPTIMIZATION_FAILED', `Optimization failed: ${err.message}`, true));
     }
   });
 
+  // GET /api/optimize/tournaments/:tournamentId - All candidates of a tournament with their scores
+  router.get('/tournaments/:tournamentId', (req: Request, res: Response) => {
+    try {
+      const tournamentId = req.params.tournamentId as string;
+      const candidates = optimizer.getTournamentCandidates(tournamentId);
+      if (candidates.length === 0) {
+        res.status(404).json(errorResponse('TOURNAMENT_NOT_FOUND', `Tournament '${tournamentId}' not found`, false));
+        return;
+      }
+      res.json({ tournamentId, candidates });
+    } catch (err: any) {
+      res.status(500).json(errorResponse('TOURNAMENT_FETCH_FAILED', `Failed to retrieve tournament: ${err.message}`, true));
+    }
+  });
+
   // POST /api/optimize/:id/apply - Apply (accept) optimized prompt to agent
   router.post('/:id/apply', (req: Request, res: Response) => {
     try {
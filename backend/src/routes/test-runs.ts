@@ -1,48 +1,99 @@
 import { Router, Request, Response } from 'express';
-import { v4 as uuidv4 } from 'uuid';
 import { AppDatabase } from '../database';
-import { LLMService } from '../services/llm-service';
-import { TestExecutorService } from '../services/test-executor';
-import { ResultEvaluatorService } from '../services/result-evaluator';
-import { calculatePassRate } from '../utils/pass-rate';
-import { TestCase, TestCaseResult } from '../types';
-
-export function createTestRunsRouter(database: AppDatabase, llmService: LLMService): Router {
+import { LLMService, BudgetExceededError } from '../services/llm-service';
+import { AgentTransport } from '../services/agent-transport';
+import { JobQueueService } from '../services/job-queue';
+import { LLMUsageService } from '../services/llm-usage';
+import { withLLMCacheBypass } from '../services/llm-cache';
+import { TestGeneratorService } from '../services/test-generator';
+import { TestRunnerService, TestRunEvent, StoredTestRunEvent } from '../services/test-runner';
+import { ComparisonBuilderService } from '../services/comparison-builder';
+import { validateEvaluationConfig } from '../utils/consensus';
+import { validateTrials, summarizeTrials } from '../utils/trials';
+import { validateSplit } from '../utils/splits';
+import { SSE_HEARTBEAT_MS, parseLastEventId } from '../utils/sse';
+
+export function createTestRunsRouter(
+  database: AppDatabase,
+  llmService: LLMService,
+  agentTransport: AgentTransport,
+  jobQueue: JobQueueService
+): Router {
   const router = Router();
-  const executor = new TestExecutorService(database);
-  const evaluator = new ResultEvaluatorService(llmService);
+  const runner = new TestRunnerService(database, llmService, agentTransport);
+  const testCaseStore = new TestGeneratorService(llmService, database);
+  const comparisonBuilder = new ComparisonBuilderService(database);
+  const llmUsage = new LLMUsageService(database);
+
+  jobQueue.register('test-run', {
+    run: (job, context) => {
+      const { agentId, testSuiteId, evaluation, trials, split, bypassCache } = job.payload;
+      const run = () => runner.runSuite(agentId, testSuiteId, evaluation, trials, split, {
+        onRunStarted: (testRunId, totalCases) => {
+          context.setResourceId(testRunId);
+          context.reportProgress({ completed: 0, total: totalCases });
+        },
+        onCaseCompleted: (completed, total) => context.reportProgress({ completed, total }),
+        signal: context.signal,
+      });
+      return bypassCache ? withLLMCacheBypass(run) : run();
+    },
+    // A run cut off by a restart never completes
+    abandon: (job) => {
+      if (job.resourceId) {
+        database.db.prepare(`UPDATE TestRun SET status = 'error', completedAt = datetime('now') WHERE id = ? AND status = 'running'`)
+          .run(job.resourceId);
+      }
+    },
+  });
 
   function errorResponse(code: string, message: string, retryable: boolean) {
     return { error: { code, message, retryable } };
   }
 
-  function getTestCases(testSuiteId: string): TestCase[] {
-    const rows = database.db.prepare('SELECT * FROM TestCase WHERE testSuiteId = ?').all(testSuiteId) as any[];
-    return rows.map((r: any) => {
-      const criteria = database.db.prepare('SELECT * FROM SuccessCriterion WHERE testCaseId = ?').all(r.id) as any[];
-      return {
-        id: r.id,
-        scenarioDescription: r.scenarioDescription,
-        scenarioType: r.scenarioType,
-        userInputSequence: JSON.parse(r.userInputSequence),
-        successCriteria: criteria.map((c: any) => ({
-          id: c.id, description: c.description, category: c.category, evaluationPrompt: c.evaluationPrompt,
-        })),
-      };
-    });
-  }
-
-  // POST /api/test-runs - Execute a test run
-  router.post('/', async (req: Request, res: Response) => {
+  // POST /api/test-runs - Queue a test run
+  router.post('/', (req: Request, res: Response) => {
     try {
-      const { testSuiteId, agentId } = req.body;
+      const { testSuiteId, agentId, evaluation, trials, split, bypassCache } = req.body;
 
       if (!testSuiteId || !agentId) {
         res.status(400).json(errorResponse('INVALID_INPUT', 'testSuiteId and agentId are required', false));
         return;
       }
 
-      const agent = database.db.prepare('SELECT id, currentPrompt FROM Agent WHERE id = ?').get(agentId) as any;
+      if (evaluation !== undefined) {
+        try {
+          validateEvaluationConfig(evaluation);
+        } catch (err: any) {
+          res.status(400).json(errorResponse('INVALID_EVALUATION_CONFIG', err.message, false));
+          return;
+        }
+      }
+
+      if (trials !== undefined) {
+        try {
+          validateTrials(trials);
+        } catch (err: any) {
+          res.status(400).json(errorResponse('INVALID_TRIALS', err.message, false));
+          return;
+        }
+      }
+
+      if (split !== undefined) {
+        try {
+          validateSplit(split);
+        } catch (err: any) {
+          res.status(400).json(errorResponse('INVALID_SPLIT', err.message, false));
+          return;
+        }
+      }
+
+      if (bypassCache !== undefined && typeof bypassCache !== 'boolean') {
+        res.status(400).json(errorResponse('INVALID_BYPASS_CACHE', 'bypassCache must be a boolean', false));
+        return;
+      }
+
+      const agent = database.db.prepare('SELECT id FROM Agent WHERE id = ?').get(agentId) as any;
       if (!agent) {
         res.status(404).json(errorResponse('AGENT_NOT_FOUND', `Agent '${agentId}' not found`, false));
         return;
@@ -54,46 +105,8 @@ export function createTestRunsRouter(database: AppDatabase, llmService: LLMServi
         return;
       }
 
-      const testRunId = uuidv4();
-      const now = new Date().toISOString();
-
-      database.db.prepare(`
-        INSERT INTO TestRun (id, testSuiteId, agentId, promptSnapshot, status, startedAt)
-        VALUES (?, ?, ?, ?, 'running', ?)
-      `).run(testRunId, testSuiteId, agentId, agent.currentPrompt, now);
-
-      const testCases = getTestCases(testSuiteId);
-      const allResults: TestCaseResult[] = [];
-
-      for (const tc of testCases) {
-        const result = await executor.executeTestCase(tc, agent.currentPrompt);
-
-        if (result.status === 'completed') {
-          result.criterionResults = await evaluator.evaluateAllCriteria(result.agentResponses, tc.successCriteria);
-        }
-
-        const resultId = uuidv4();
-        database.db.prepare(`
-          INSERT INTO TestCaseResult (id, testRunId, testCaseId, agentResponses, status, errorMessage, executedAt)
-          VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
-        `).run(resultId, testRunId, tc.id, JSON.stringify(result.agentResponses), result.status, result.errorMessage || null);
-
-        for (const cr of result.criterionResults) {
-          database.db.prepare(`
-            INSERT INTO CriterionResult (id, testCaseResultId, criterionId, passed, explanation)
-            VALUES (?, ?, ?, ?, ?)
-          `).run(uuidv4(), resultId, cr.criterionId, cr.passed ? 1 : 0, cr.explanation);
-        }
-
-        allResults.push(result);
-      }
-
-      const passRate = calculatePassRate(allResults);
-      database.db.prepare(`
-        UPDATE TestRun SET overallPassRate = ?, status = 'completed', completedAt = datetime('now') WHERE id = ?
-      `).run(passRate, testRunId);
-
-      res.status(201).json({ id: testRunId, overallPassRate: passRate, status: 'completed' });
+      const job = jobQueue.enqueue('test-run', { agentId, testSuiteId, evaluation, trials, split, bypassCache });
+      res.status(202).json(job);
     } catch (err: any) {
       res.status(500).json(errorResponse('TEST_RUN_FAILED', `Test run failed: ${err.message}`, true));
     }
@@ -108,27 +121,111 @@ export function createTestRunsRouter(database: AppDatabase, llmService: LLMServi
         return;
       }
 
-      const caseResults = database.db.prepare('SELECT * FROM TestCaseResult WHERE testRunId = ?').all(run.id) as any[];
-      const results = caseResults.map((tcr: any) => {
-        const criteria = database.db.prepare('SELECT * FROM CriterionResult WHERE testCaseResultId = ?').all(tcr.id) as any[];
-        return {
-          id: tcr.id,
-          testCaseId: tcr.testCaseId,
-          agentResponses: JSON.parse(tcr.agentResponses),
-          status: tcr.status,
-          errorMessage: tcr.errorMessage || undefined,
-          criterionResults: criteria.map((cr: any) => ({
-            criterionId: cr.criterionId, passed: cr.passed === 1, explanation: cr.explanation,
-          })),
-        };
+      const testCaseResults = runner.getCaseResults(run.id);
+      res.json({
+        ...run,
+        evaluationConfig: run.evaluationConfig ? JSON.parse(run.evaluationConfig) : null,
+        testCaseResults,
+        criterionStats: summarizeTrials(testCaseResults),
+        usage: llmUsage.getTotals({ testRunId: run.id }),
       });
-
-      res.json({ ...run, testCaseResults: results });
     } catch (err: any) {
       res.status(500).json(errorResponse('TEST_RUN_FETCH_FAILED', `Failed to retrieve test run: ${err.message}`, true));
     }
   });
 
+  // GET /api/test-runs/:id/events - SSE stream of a run's cases as they execute, replaying events after Last-Event-ID
+  router.get('/:id/events', (req: Request, res: Response) => {
+    const testRunId = req.params.id as string;
+
+    const run = database.db.prepare('SELECT status, overallPassRate FROM TestRun WHERE id = ?').get(testRunId) as any;
+    if (!run) {
+      res.status(404).json(errorResponse('TEST_RUN_NOT_FOUND', `Test run '${testRunId}' not found`, false));
+      return;
+    }
+
+    // EventSource sends the header on reconnect; the query parameter lets a fresh connection resume too
+    const lastEventId = parseLastEventId(req.get('Last-Event-ID') ?? req.query.lastEventId);
+    const missed = runner.getRunEvents(testRunId, lastEventId);
+    const totals = runner.getLiveTotals(testRunId);
+
+    // 204 tells EventSource to stop reconnecting once a finished run has nothing left to send
+    if (!totals && missed.length === 0 && lastEventId > 0) {
+      res.status(204).end();
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    const send = (event: TestRunEvent | StoredTestRunEvent) =>
+      res.write(`${'id' in event ? `id: ${event.id}\n` : ''}data: ${JSON.stringify(event)}\n\n`);
+    missed.forEach(send);
+
+    // Not executing here: the run already finished, or was cut off by a restart
+    if (!totals) {
+      const last = missed[missed.length - 1];
+      // Summarize runs whose stored events stop short of the end, such as those cut off by a restart
+      if (!last || (last.type !== 'finished' && last.type !== 'error')) {
+        const storedResults = runner.getCaseResults(testRunId);
+        const criteria = storedResults.flatMap(r => r.criterionResults);
+        send({
+          type: run.status === 'completed' ? 'finished' : 'error',
+          status: run.status === 'completed' ? 'completed' : 'error',
+          message: run.status === 'completed' ? undefined : 'Test run is not running',
+          completedCases: storedResults.length,
+          totalCases: storedResults.length,
+          passedCriteria: criteria.filter(c => c.passed).length,
+          evaluatedCriteria: criteria.length,
+          passRate: run.overallPassRate ?? 0,
+        });
+      }
+      res.end();
+      return;
+    }
+
+    // Comment lines keep proxies from closing an idle stream during long judge calls
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_MS);
+    const listener = (event: StoredTestRunEvent) => {
+      send(event);
+      if (event.type === 'finished' || event.type === 'error') {
+        close();
+        res.end();
+      }
+    };
+    const close = () => {
+      clearInterval(heartbeat);
+      runner.removeEventListener(testRunId, listener);
+    };
+
+    runner.addEventListener(testRunId, listener);
+
+    req.on('close', close);
+  });
+
+  // GET /api/test-runs/:id/compare/:otherId - Compare a run (base) against another (target)
+  router.get('/:id/compare/:otherId', (req: Request, res: Response) => {
+    try {
+      const baseRunId = req.params.id as string;
+      const targetRunId = req.params.otherId as string;
+
+      for (const runId of [baseRunId, targetRunId]) {
+        const run = database.db.prepare('SELECT id FROM TestRun WHERE id = ?').get(runId) as any;
+        if (!run) {
+          res.status(404).json(errorResponse('TEST_RUN_NOT_FOUND', `Test run '${runId}' not found`, false));
+          return;
+        }
+      }
+
+      res.json(comparisonBuilder.compareRuns(baseRunId, targetRunId));
+    } catch (err: any) {
+      res.status(500).json(errorResponse('COMPARISON_FAILED', `Failed to compare test runs: ${err.message}`, true));
+    }
+  });
+
   // POST /api/test-runs/:id/retry/:caseId - Retry individual test case
   router.post('/:id/retry/:caseId', async (req: Request, res: Response) => {
     try {
@@ -140,65 +237,19 @@ export function createTestRunsRouter(database: AppDatabase, llmService: LLMServi
         return;
       }
 
-      const testCaseRow = database.db.prepare('SELECT * FROM TestCase WHERE id = ?').get(caseId) as any;
-      if (!testCaseRow) {
+      const testCase = testCaseStore.getTestCase(caseId as string);
+      if (!testCase) {
         res.status(404).json(errorResponse('TEST_CASE_NOT_FOUND', `Test case '${caseId}' not found`, false));
         return;
       }
 
-      const criteria = database.db.prepare('SELECT * FROM SuccessCriterion WHERE testCaseId = ?').all(caseId) as any[];
-      const testCase: TestCase = {
-        id: testCaseRow.id,
-        scenarioDescription: testCaseRow.scenarioDescription,
-        scenarioType: testCaseRow.scenarioType,
-        userInputSequence: JSON.parse(testCaseRow.userInputSequence),
-        successCriteria: criteria.map((c: any) => ({
-          id: c.id, description: c.description, category: c.category, evaluationPrompt: c.evaluationPrompt,
-        })),
-      };
-
-      // Delete old result for this case in this run
-      const oldResult = database.db.prepare('SELECT id FROM TestCaseResult WHERE testRunId = ? AND testCaseId = ?').get(testRunId, caseId) as any;
-      if (oldResult) {
-        database.db.prepare('DELETE FROM CriterionResult WHERE testCaseResultId = ?').run(oldResult.id);
-        database.db.prepare('DELETE FROM TestCaseResult WHERE id = ?').run(oldResult.id);
-      }
-
-      const result = await executor.executeTestCase(testCase, run.promptSnapshot);
-      if (result.status === 'completed') {
-        result.criterionResults = await evaluator.evaluateAllCriteria(result.agentResponses, testCase.successCriteria);
-      }
-
-      const resultId = uuidv4();
-      database.db.prepare(`
-        INSERT INTO TestCaseResult (id, testRunId, testCaseId, agentResponses, status, errorMessage, executedAt)
-        VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
-      `).run(resultId, testRunId, caseId, JSON.stringify(result.agentResponses), result.status, result.errorMessage || null);
-
-      for (const cr of result.criterionResults) {
-        database.db.prepare(`
-          INSERT INTO CriterionResult (id, testCaseResultId, criterionId, passed, explanation)
-          VALUES (?, ?, ?, ?, ?)
-        `).run(uuidv4(), resultId, cr.criterionId, cr.passed ? 1 : 0, cr.explanation);
-      }
-
-      // Recalculate pass rate
-      const allCaseResults = database.db.prepare('SELECT * FROM TestCaseResult WHERE testRunId = ?').all(testRunId) as any[];
-      const mapped: TestCaseResult[] = allCaseResults.map((tcr: any) => {
-        const crs = database.db.prepare('SELECT * FROM CriterionResult WHERE testCaseResultId = ?').all(tcr.id) as any[];
-        return {
-          testCaseId: tcr.testCaseId,
-          agentResponses: JSON.parse(tcr.agentResponses),
-          status: tcr.status as 'completed' | 'error',
-          criterionResults: crs.map((c: any) => ({ criterionId: c.criterionId, passed: c.passed === 1, explanation: c.explanation })),
-        };
-      });
-
-      const newPassRate = calculatePassRate(mapped);
-      database.db.prepare('UPDATE TestRun SET overallPassRate = ? WHERE id = ?').run(newPassRate, testRunId);
-
-      res.json({ testCaseId: caseId, status: result.status, overallPassRate: newPassRate });
+      const { result, ...summary } = await runner.retryTestCase(testRunId as string, testCase);
+      res.json({ testCaseId: caseId, status: result.status, ...summary });
     } catch (err: any) {
+      if (err instanceof BudgetExceededError) {
+        res.status(402).json(errorResponse(err.code, err.message, false));
+        return;
+      }
       res.status(500).json(errorResponse('RETRY_FAILED', `Retry failed: ${err.message}`, true));
     }
   });
@@ -1,20 +1,71 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { AppDatabase } from '../database';
-import { TestGeneratorService } from '../services/test-generator';
+import {
+  TestGeneratorService,
+  validatePersona,
+  validateCriterionCheck,
+} from '../services/test-generator';
 import { LLMService } from '../services/llm-service';
-import { PromptAnalysis } from '../types';
+import { JobQueueService } from '../services/job-queue';
+import { PromptAnalysis, TestCase } from '../types';
+import { DEFAULT_SEVERITY } from '../utils/pass-rate';
+import { validateSplit, validateHoldoutFraction, DEFAULT_SPLIT } from '../utils/splits';
+
+const TEST_CASE_KINDS: NonNullable<TestCase['kind']>[] = ['scripted', 'persona'];
+
+// An edit operation with invalid data; the whole update is rejected with a 400
+class InvalidEditError extends Error {}
+
+/**
+ * Run `check`, reporting what it throws as an invalid edit.
+ */
+function validateEdit(check: () => void): void {
+  try {
+    check();
+  } catch (err: any) {
+    throw new InvalidEditError(err.message);
+  }
+}
+
+function validateKind(kind: unknown): void {
+  if (!TEST_CASE_KINDS.includes(kind as NonNullable<TestCase['kind']>)) {
+    throw new Error(`Invalid kind "${kind}". Must be one of: ${TEST_CASE_KINDS.join(', ')}`);
+  }
+}
 
-export function createTestSuitesRouter(database: AppDatabase, llmService: LLMService): Router {
+export function createTestSuitesRouter(database: AppDatabase, llmService: LLMService, jobQueue: JobQueueService): Router {
   const router = Router();
   const testGeneratorService = new TestGeneratorService(llmService, database);
 
+  jobQueue.register('test-suite', {
+    run: async (job, context) => {
+      const { agentId, analysisId } = job.payload;
+      const analysisRow = database.db.prepare('SELECT * FROM PromptAnalysis WHERE id = ?').get(analysisId) as any;
+      if (!analysisRow) {
+        throw new Error(`Analysis with id '${analysisId}' not found`);
+      }
+
+      const analysis: PromptAnalysis = {
+        agentId: analysisRow.agentId,
+        goals: JSON.parse(analysisRow.goals),
+        conversationFlows: JSON.parse(analysisRow.conversationFlows),
+        expectedBehaviors: JSON.parse(analysisRow.expectedBehaviors),
+        rawPrompt: analysisRow.rawPrompt,
+      };
+
+      const testSuite = await testGeneratorService.generateTestSuite(agentId, analysisId, analysis);
+      context.setResourceId(testSuite.id);
+      return testSuite;
+    },
+  });
+
   function errorResponse(code: string, message: string, retryable: boolean) {
     return { error: { code, message, retryable } };
   }
 
-  // POST /api/test-suites - Create a new test suite (triggers generation)
-  router.post('/', async (req: Request, res: Response) => {
+  // POST /api/test-suites - Queue generation of a new test suite
+  router.post('/', (req: Request, res: Response) => {
     try {
       const { agentId, analysisId } = req.body;
 
@@ -40,7 +91,7 @@ export function createTestSuitesRouter(database: AppDatabase, llmService: LLMSer
         return;
       }
 
-      const analysisRow = database.db.prepare('SELECT * FROM PromptAnalysis WHERE id = ?').get(analysisId.trim()) as any;
+      const analysisRow = database.db.prepare('SELECT id FROM PromptAnalysis WHERE id = ?').get(analysisId.trim()) as any;
       if (!analysisRow) {
         res.status(404).json(
           errorResponse('ANALYSIS_NOT_FOUND', `Analysis with id '${analysisId.trim()}' not found`, false)
@@ -48,17 +99,8 @@ export function createTestSuitesRouter(database: AppDatabase, llmService: LLMSer
         return;
       }
 
-      const analysis: PromptAnalysis = {
-        agentId: analysisRow.agentId,
-        goals: JSON.parse(analysisRow.goals),
-        conversationFlows: JSON.parse(analysisRow.conversationFlows),
-        expectedBehaviors: JSON.parse(analysisRow.expectedBehaviors),
-        rawPrompt: analysisRow.rawPrompt,
-      };
-
-      const testSuite = await testGeneratorService.generateTestSuite(agentId.trim(), analysisId.trim(), analysis);
-
-      res.status(201).json(testSuite);
+      const job = jobQueue.enqueue('test-suite', { agentId: agent.id, analysisId: analysisRow.id });
+      res.status(202).json(job);
     } catch (err: any) {
       res.status(500).json(
         errorResponse('TEST_SUITE_GENERATION_FAILED', `Test suite generation failed: ${err.message}`, true)
@@ -144,25 +186,70 @@ export function createTestSuitesRouter(database: AppDatabase, llmService: LLMSer
       const updatedSuite = testGeneratorService.getTestSuite(id);
       res.json(updatedSuite);
     } catch (err: any) {
+      if (err instanceof InvalidEditError) {
+        res.status(400).json(errorResponse('INVALID_TEST_SUITE_EDIT', err.message, false));
+        return;
+      }
       res.status(500).json(
         errorResponse('TEST_SUITE_UPDATE_FAILED', `Failed to update test suite: ${err.message}`, true)
       );
     }
   });
 
+  // POST /api/test-suites/:id/split - Partition the suite's cases into train and holdout splits
+  router.post('/:id/split', (req: Request, res: Response) => {
+    try {
+      const id = req.params.id as string;
+      const { holdoutFraction } = req.body;
+
+      try {
+        validateHoldoutFraction(holdoutFraction);
+      } catch (err: any) {
+        res.status(400).json(errorResponse('INVALID_HOLDOUT_FRACTION', err.message, false));
+        return;
+      }
+
+      const testSuite = testGeneratorService.partitionTestSuite(id, holdoutFraction);
+      if (!testSuite) {
+        res.status(404).json(
+          errorResponse('TEST_SUITE_NOT_FOUND', `Test suite with id '${id}' not found`, false)
+        );
+        return;
+      }
+
+      res.json(testSuite);
+    } catch (err: any) {
+      res.status(500).json(
+        errorResponse('TEST_SUITE_SPLIT_FAILED', `Failed to split test suite: ${err.message}`, true)
+      );
+    }
+  });
+
   function addTestCase(testSuiteId: string, data: any): void {
     const testCaseId = uuidv4();
     const now = new Date().toISOString();
+    const kind = data.kind ?? 'scripted';
+
+    validateEdit(() => validateKind(kind));
+    if (kind === 'persona') {
+      validateEdit(() => validatePersona(data.persona));
+    }
+    if (data.split !== undefined) {
+      validateEdit(() => validateSplit(data.split));
+    }
 
     database.db.prepare(`
-      INSERT INTO TestCase (id, testSuiteId, scenarioDescription, scenarioType, userInputSequence, createdAt)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO TestCase (id, testSuiteId, scenarioDescription, scenarioType, kind, persona, userInputSequence, split, createdAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).run(
       testCaseId,
       testSuiteId,
       data.scenarioDescription,
       data.scenarioType,
+      kind,
+      kind === 'persona' ? JSON.stringify(data.persona) : null,
       JSON.stringify(data.userInputSequence || []),
+      data.split ?? DEFAULT_SPLIT,
       now
     );
 
@@ -189,6 +276,31 @@ export function createTestSuitesRouter(database: AppDatabase, llmService: LLMSer
       updates.push('userInputSequence = ?');
       values.push(JSON.stringify(data.userInputSequence));
     }
+    if (data.kind !== undefined) {
+      validateEdit(() => validateKind(data.kind));
+      updates.push('kind = ?');
+      values.push(data.kind);
+    }
+    if (data.kind !== undefined || data.persona !== undefined) {
+      // A persona case needs a valid persona, whether sent now or already stored
+      const row = database.db.prepare('SELECT kind, persona FROM TestCase WHERE id = ?').get(testCaseId) as any;
+      const kind = data.kind ?? row?.kind;
+      const persona = data.persona !== undefined ? data.persona : row?.persona ? JSON.parse(row.persona) : null;
+      if (kind === 'persona') {
+        validateEdit(() => validatePersona(persona ?? undefined));
+      } else if (data.persona) {
+        validateEdit(() => validatePersona(data.persona));
+      }
+    }
+    if (data.persona !== undefined) {
+      updates.push('persona = ?');
+      values.push(data.persona === null ? null : JSON.stringify(data.persona));
+    }
+    if (data.split !== undefined) {
+      validateEdit(() => validateSplit(data.split));
+      updates.push('split = ?');
+      values.push(data.split);
+    }
 
     if (updates.length > 0) {
       values.push(testCaseId);
@@ -207,16 +319,47 @@ export function createTestSuitesRouter(database: AppDatabase, llmService: LLMSer
     const criterionId = uuidv4();
     const now = new Date().toISOString();
 
+    validateEdit(() => validateCriterionCheck(data));
+
     database.db.prepare(`
-      INSERT INTO SuccessCriterion (id, testCaseId, description, category, evaluationPrompt, createdAt)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `).run(criterionId, testCaseId, data.description, data.category, data.evaluationPrompt, now);
+      INSERT INTO SuccessCriterion (
+        id, testCaseId, description, category, evaluationPrompt, assertion, turnSelector, rubric, severity, weight, createdAt
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      criterionId,
+      testCaseId,
+      data.description,
+      data.category,
+      data.evaluationPrompt ?? '',
+      data.assertion ? JSON.stringify(data.assertion) : null,
+      data.turnSelector ? JSON.stringify(data.turnSelector) : null,
+      data.rubric ? JSON.stringify(data.rubric) : null,
+      data.severity ?? DEFAULT_SEVERITY,
+      data.weight ?? null,
+      now
+    );
   }
 
   function editCriterion(criterionId: string, data: any): void {
     const updates: string[] = [];
     const values: any[] = [];
 
+    // Check the criterion as it will be, so an edit cannot pair a rubric with an assertion
+    const row = database.db.prepare('SELECT * FROM SuccessCriterion WHERE id = ?').get(criterionId) as any;
+    if (row) {
+      const stored = (column: string) => (row[column] ? JSON.parse(row[column]) : undefined);
+      const merged = (field: string, current: any) => (data[field] !== undefined ? data[field] ?? undefined : current);
+      validateEdit(() => validateCriterionCheck({
+        evaluationPrompt: merged('evaluationPrompt', row.evaluationPrompt),
+        assertion: merged('assertion', stored('assertion')),
+        turnSelector: merged('turnSelector', stored('turnSelector')),
+        rubric: merged('rubric', stored('rubric')),
+        severity: data.severity !== undefined ? data.severity : row.severity,
+        weight: merged('weight', row.weight ?? undefined),
+      }));
+    }
+
     if (data.description !== undefined) {
       updates.push('description = ?');
       values.push(data.description);
@@ -229,6 +372,26 @@ export function createTestSuitesRouter(database: AppDatabase, llmService: LLMSer
       updates.push('evaluationPrompt = ?');
       values.push(data.evaluationPrompt);
     }
+    if (data.assertion !== undefined) {
+      updates.push('assertion = ?');
+      values.push(data.assertion === null ? null : JSON.stringify(data.assertion));
+    }
+    if (data.turnSelector !== undefined) {
+      updates.push('turnSelector = ?');
+      values.push(data.turnSelector === null ? null : JSON.stringify(data.turnSelector));
+    }
+    if (data.rubric !== undefined) {
+      updates.push('rubric = ?');
+      values.push(data.rubric === null ? null : JSON.stringify(data.rubric));
+    }
+    if (data.severity !== undefined) {
+      updates.push('severity = ?');
+      values.push(data.severity);
+    }
+    if (data.weight !== undefined) {
+      updates.push('weight = ?');
+      values.push(data.weight);
+    }
 
     if (updates.length > 0) {
       values.push(criterionId);
@@ -0,0 +1,64 @@
+import { LLMService } from './llm-service';
+import {
+  AgentTransport,
+  LLMSimulatorTransport,
+  WebhookTransport,
+  HighLevelTransport,
+  HighLevelProtocol,
+  HIGHLEVEL_PROTOCOLS,
+} from './agent-transport';
+
+const DEFAULT_HIGHLEVEL_API_URL = 'https://services.leadconnectorhq.com';
+
+let overriddenAgentTransport: AgentTransport | null = null;
+
+/**
+ * Override the agent transport instance (useful for testing).
+ */
+export function setAgentTransport(transport: AgentTransport | null): void {
+  overriddenAgentTransport = transport;
+}
+
+/**
+ * Create or return the agent transport selected by AGENT_TRANSPORT:
+ * `simulator` (default), `webhook` or `highlevel`.
+ */
+export function getAgentTransport(llmService: LLMService): AgentTransport {
+  if (overriddenAgentTransport) {
+    return overriddenAgentTransport;
+  }
+
+  const kind = process.env.AGENT_TRANSPORT || 'simulator';
+
+  switch (kind) {
+    case 'simulator':
+      return new LLMSimulatorTransport(llmService);
+
+    case 'webhook': {
+      const url = process.env.AGENT_WEBHOOK_URL;
+      if (!url) {
+        throw new Error('AGENT_WEBHOOK_URL must be set when AGENT_TRANSPORT=webhook');
+      }
+      return new WebhookTransport({ url });
+    }
+
+    case 'highlevel': {
+      const apiKey = process.env.HIGHLEVEL_API_KEY;
+      if (!apiKey) {
+        throw new Error('HIGHLEVEL_API_KEY must be set when AGENT_TRANSPORT=highlevel');
+      }
+      const protocol = (process.env.HIGHLEVEL_PROTOCOL || 'rest') as HighLevelProtocol;
+      if (!HIGHLEVEL_PROTOCOLS.includes(protocol)) {
+        throw new Error(`Unknown HIGHLEVEL_PROTOCOL "${protocol}". Must be one of: ${HIGHLEVEL_PROTOCOLS.join(', ')}`);
+      }
+      return new HighLevelTransport({
+        baseUrl: process.env.HIGHLEVEL_API_URL || DEFAULT_HIGHLEVEL_API_URL,
+        apiKey,
+        protocol,
+      });
+    }
+
+    default:
+      throw new Error(`Unknown AGENT_TRANSPORT "${kind}". Must be one of: simulator, webhook, highlevel`);
+  }
+}
@@ -0,0 +1,330 @@
+import { v4 as uuidv4 } from 'uuid';
+import WebSocket from 'ws';
+import { LLMService } from './llm-service';
+import { ConversationMessage, ToolCall } from '../types';
+
+// --- Agent Transport Interface ---
+
+/**
+ * The agent under test: the prompt being evaluated and, when the agent lives
+ * on HighLevel, the remote agent it maps to.
+ */
+export interface AgentTarget {
+  agentPrompt: string;
+  highlevelAgentId?: string;
+}
+
+export interface AgentReply {
+  utterance: string;
+  toolCalls?: ToolCall[];
+}
+
+/**
+ * A single conversation with an agent. Sessions keep their own history,
+ * so callers only send the caller's latest turn.
+ */
+export interface AgentSession {
+  sendTurn(message: ConversationMessage): Promise<AgentReply>;
+  close(): Promise<void>;
+}
+
+export interface AgentTransport {
+  readonly name: string;
+  openSession(target: AgentTarget): Promise<AgentSession>;
+}
+
+// --- HTTP Utilities (exported for testing) ---
+
+export const DEFAULT_TRANSPORT_TIMEOUT_MS = 30000;
+
+export async function requestJson<T>(
+  url: string,
+  init: { method: string; headers?: Record<string, string>; body?: unknown },
+  timeoutMs: number
+): Promise<T> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const res = await fetch(url, {
+      method: init.method,
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+      signal: controller.signal,
+    });
+
+    const text = await res.text();
+    if (!res.ok) {
+      throw new Error(`Agent request ${init.method} ${url} failed (${res.status}): ${text.slice(0, 200)}`);
+    }
+    return (text ? JSON.parse(text) : {}) as T;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// --- WebSocket Utilities (exported for testing) ---
+
+/**
+ * A WebSocket exchanging one JSON message for one JSON reply at a time.
+ */
+export interface JsonSocket {
+  request<T>(body: unknown): Promise<T>;
+  close(): Promise<void>;
+}
+
+export function openJsonSocket(url: string, headers: Record<string, string>, timeoutMs: number): Promise<JsonSocket> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(url, { headers, handshakeTimeout: timeoutMs });
+    let pending: { resolve(body: unknown): void; reject(err: Error): void } | null = null;
+    let closedError: Error | null = null;
+
+    const fail = (err: Error) => {
+      closedError = closedError ?? err;
+      pending?.reject(err);
+      pending = null;
+    };
+
+    socket.on('message', data => {
+      const current = pending;
+      pending = null;
+      try {
+        current?.resolve(JSON.parse(data.toString()));
+      } catch {
+        current?.reject(new Error(`Agent socket ${url} sent a message that is not JSON`));
+      }
+    });
+    socket.on('error', err => {
+      reject(new Error(`Agent socket ${url} failed: ${err.message}`));
+      fail(new Error(`Agent socket ${url} failed: ${err.message}`));
+    });
+    socket.on('close', code => fail(new Error(`Agent socket ${url} closed (${code})`)));
+
+    socket.once('open', () => resolve({
+      request<T>(body: unknown): Promise<T> {
+        if (closedError) return Promise.reject(closedError);
+        return new Promise<T>((resolveReply, rejectReply) => {
+          const timeoutId = setTimeout(() => {
+            pending = null;
+            // A late reply would be taken for the next turn's
+            socket.terminate();
+            rejectReply(new Error(`Agent socket ${url} sent no reply within ${timeoutMs}ms`));
+          }, timeoutMs);
+          pending = {
+            resolve: reply => { clearTimeout(timeoutId); resolveReply(reply as T); },
+            reject: err => { clearTimeout(timeoutId); rejectReply(err); },
+          };
+          socket.send(JSON.stringify(body));
+        });
+      },
+      close(): Promise<void> {
+        if (socket.readyState === WebSocket.CLOSED) return Promise.resolve();
+        return new Promise(done => {
+          socket.once('close', () => done());
+          socket.close();
+        });
+      },
+    }));
+  });
+}
+
+interface ReplyBody {
+  reply?: unknown;
+  toolCalls?: unknown;
+  // Sent in place of a reply by socket endpoints
+  error?: { message?: unknown };
+}
+
+function extractReply(body: ReplyBody, source: string): AgentReply {
+  if (typeof body.reply !== 'string') {
+    throw new Error(`${source} response did not include a "reply" string`);
+  }
+  if (body.toolCalls !== undefined && !Array.isArray(body.toolCalls)) {
+    throw new Error(`${source} response "toolCalls" must be an array`);
+  }
+  const toolCalls = (body.toolCalls as any[] | undefined)?.map((call): ToolCall => ({
+    name: String(call?.name ?? ''),
+    arguments: call?.arguments && typeof call.arguments === 'object' ? call.arguments : {},
+  }));
+  return { utterance: body.reply, toolCalls: toolCalls?.length ? toolCalls : undefined };
+}
+
+// --- In-process LLM Simulator ---
+
+/**
+ * Role-plays the agent in-process with the LLM, using the agent prompt as
+ * the system prompt. Works offline with MockLLMService.
+ */
+export class LLMSimulatorTransport implements AgentTransport {
+  readonly name = 'simulator';
+
+  constructor(private llmService: LLMService) {}
+
+  async openSession(target: AgentTarget): Promise<AgentSession> {
+    const conversation: ConversationMessage[] = [];
+    const llmService = this.llmService;
+
+    return {
+      async sendTurn(message: ConversationMessage): Promise<AgentReply> {
+        conversation.push(message);
+        const utterance = await llmService.simulateAgentResponse(target.agentPrompt, conversation);
+        conversation.push({ role: 'agent', content: utterance });
+        return { utterance };
+      },
+      async close(): Promise<void> {},
+    };
+  }
+}
+
+// --- HTTP Webhook ---
+
+export interface WebhookTransportConfig {
+  url: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+}
+
+/**
+ * POSTs each caller turn to a webhook and expects `{ "reply": string, "toolCalls"?: [...] }` back.
+ * Every request carries the session id and full history so stateless
+ * endpoints can reconstruct the conversation.
+ */
+export class WebhookTransport implements AgentTransport {
+  readonly name = 'webhook';
+  private timeoutMs: number;
+
+  constructor(private config: WebhookTransportConfig) {
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TRANSPORT_TIMEOUT_MS;
+  }
+
+  async openSession(target: AgentTarget): Promise<AgentSession> {
+    const sessionId = uuidv4();
+    const conversation: ConversationMessage[] = [];
+    const { url, headers } = this.config;
+    const timeoutMs = this.timeoutMs;
+
+    return {
+      async sendTurn(message: ConversationMessage): Promise<AgentReply> {
+        conversation.push(message);
+        const body = await requestJson<ReplyBody>(
+          url,
+          {
+            method: 'POST',
+            headers,
+            body: {
+              sessionId,
+              agentPrompt: target.agentPrompt,
+              highlevelAgentId: target.highlevelAgentId,
+              message,
+              history: conversation,
+            },
+          },
+          timeoutMs
+        );
+        const reply = extractReply(body, 'Webhook');
+        conversation.push({ role: 'agent', content: reply.utterance });
+        return reply;
+      },
+      async close(): Promise<void> {},
+    };
+  }
+}
+
+// --- HighLevel Voice AI ---
+
+export type HighLevelProtocol = 'rest' | 'websocket';
+
+export const HIGHLEVEL_PROTOCOLS: HighLevelProtocol[] = ['rest', 'websocket'];
+
+export interface HighLevelTransportConfig {
+  baseUrl: string;
+  apiKey: string;
+  apiVersion?: string;
+  // How caller turns are exchanged once the session is open; defaults to 'rest'
+  protocol?: HighLevelProtocol;
+  timeoutMs?: number;
+}
+
+export const DEFAULT_HIGHLEVEL_API_VERSION = '2021-07-28';
+
+/**
+ * Talks to a HighLevel Voice AI agent, keyed by `Agent.highlevelAgentId`.
+ * A session is opened over REST with the prompt under test as an override,
+ * each caller turn is posted as a message (or sent on the session's stream
+ * socket with the `websocket` protocol), and the session is deleted when the
+ * case ends.
+ */
+export class HighLevelTransport implements AgentTransport {
+  readonly name = 'highlevel';
+  private baseUrl: string;
+  private headers: Record<string, string>;
+  private protocol: HighLevelProtocol;
+  private timeoutMs: number;
+
+  constructor(config: HighLevelTransportConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.headers = {
+      Authorization: `Bearer ${config.apiKey}`,
+      Version: config.apiVersion ?? DEFAULT_HIGHLEVEL_API_VERSION,
+    };
+    this.protocol = config.protocol ?? 'rest';
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TRANSPORT_TIMEOUT_MS;
+  }
+
+  async openSession(target: AgentTarget): Promise<AgentSession> {
+    if (!target.highlevelAgentId) {
+      throw new Error('HighLevel transport requires the agent to have a highlevelAgentId');
+    }
+
+    const created = await requestJson<{ sessionId?: unknown }>(
+      `${this.baseUrl}/voice-ai/agents/${encodeURIComponent(target.highlevelAgentId)}/sessions`,
+      { method: 'POST', headers: this.headers, body: { promptOverride: target.agentPrompt } },
+      this.timeoutMs
+    );
+    if (typeof created.sessionId !== 'string') {
+      throw new Error('HighLevel session response did not include a "sessionId" string');
+    }
+
+    const sessionUrl = `${this.baseUrl}/voice-ai/sessions/${encodeURIComponent(created.sessionId)}`;
+    const headers = this.headers;
+    const timeoutMs = this.timeoutMs;
+    const deleteSession = () => requestJson(sessionUrl, { method: 'DELETE', headers }, timeoutMs);
+
+    if (this.protocol === 'websocket') {
+      let socket: JsonSocket;
+      try {
+        socket = await openJsonSocket(`${sessionUrl.replace(/^http/, 'ws')}/stream`, headers, timeoutMs);
+      } catch (err) {
+        await deleteSession().catch(() => {});
+        throw err;
+      }
+      return {
+        async sendTurn(message: ConversationMessage): Promise<AgentReply> {
+          const body = await socket.request<ReplyBody>({ text: message.content, context: message.context });
+          if (body.error) {
+            throw new Error(`HighLevel agent reply failed: ${String(body.error.message)}`);
+          }
+          return extractReply(body, 'HighLevel');
+        },
+        async close(): Promise<void> {
+          await socket.close();
+          await deleteSession();
+        },
+      };
+    }
+
+    return {
+      async sendTurn(message: ConversationMessage): Promise<AgentReply> {
+        const body = await requestJson<ReplyBody>(
+          `${sessionUrl}/messages`,
+          { method: 'POST', headers, body: { text: message.content, context: message.context } },
+          timeoutMs
+        );
+        return extractReply(body, 'HighLevel');
+      },
+      async close(): Promise<void> {
+        await deleteSession();
+      },
+    };
+  }
+}
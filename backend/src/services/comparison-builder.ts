@@ -1,33 +1,106 @@
 import { AppDatabase } from '../database';
+import { AgentResponse } from '../types';
+import { testPairedOutcomes, PairedSignificance } from '../utils/significance';
+import { computeDiff, DiffChange } from '../utils/diff';
 
 export interface CriterionChange {
   criterionId: string;
   description: string;
   previousPassed: boolean;
   currentPassed: boolean;
+  // Rubric scores, when the criterion is graded
+  previousScore?: number;
+  currentScore?: number;
+  maxScore?: number;
 }
 
 export interface TestRunMetric {
   testRunId: string;
   passRate: number;
+  score: number | null;
+  criticalFailures: number;
   completedAt: string;
 }
 
+export interface CriterionChanges {
+  // Changes backed by a significant run-level difference in the same direction
+  improvements: CriterionChange[];
+  regressions: CriterionChange[];
+  // Changes the evidence does not support either way
+  inconclusive: CriterionChange[];
+  significance: PairedSignificance;
+}
+
+export type CriterionTransition = 'fixed' | 'broke' | 'still-passing' | 'still-failing' | 'added' | 'removed';
+
+export interface CriterionAlignment {
+  criterionId: string;
+  description: string;
+  // null when the criterion has no completed result in that run
+  before: boolean | null;
+  after: boolean | null;
+  transition: CriterionTransition;
+}
+
+export interface TurnComparison {
+  turn: number;
+  base?: AgentResponse;
+  target?: AgentResponse;
+  changed: boolean;
+  // Line diff of the agent's utterance, base → target
+  diff: DiffChange[];
+}
+
+/**
+ * One test case aligned across both runs. Transcripts come from each run's
+ * first trial of the case.
+ */
+export interface CaseComparison {
+  testCaseId: string;
+  scenarioDescription: string;
+  criteria: CriterionAlignment[];
+  turns: TurnComparison[];
+}
+
+export interface RunComparison extends CriterionChanges {
+  baseRunId: string;
+  targetRunId: string;
+  basePassRate: number;
+  targetPassRate: number;
+  passRateDelta: number;
+  promptDiff: DiffChange[];
+  cases: CaseComparison[];
+}
+
 export interface ComparisonData {
   agentId: string;
   originalPrompt: string;
   currentPrompt: string;
   improvements: CriterionChange[];
   regressions: CriterionChange[];
+  inconclusive: CriterionChange[];
+  // First vs. latest run; null until there are two completed runs
+  significance: PairedSignificance | null;
   testRunMetrics: TestRunMetric[];
 }
 
+// One criterion's outcome in a run, collapsed across repeated trials
+interface CriterionSnapshot {
+  testCaseId: string;
+  criterionId: string;
+  passed: boolean;
+  description: string;
+  score?: number;
+  maxScore?: number;
+}
+
 export class ComparisonBuilderService {
   constructor(private database: AppDatabase) {}
 
   /**
    * Build before/after comparison from agent's original prompt,
-   * current prompt, and test run history.
+   * current prompt, and test run history. Runs that only scored
+   * tournament candidates are left out of the history.
    */
   buildComparison(agentId: string): ComparisonData | null {
     const agent = this.database.db.prepare(
@@ -37,87 +110,236 @@ export class ComparisonBuilderService {
     if (!agent) return null;
 
     const testRuns = this.database.db.prepare(
-      `SELECT id, overallPassRate, completedAt FROM TestRun
+      `SELECT id, overallPassRate, overallScore, criticalFailures, completedAt FROM TestRun
        WHERE agentId = ? AND status = 'completed'
+         AND id NOT IN (SELECT evaluationRunId FROM OptimizationRecord WHERE evaluationRunId IS NOT NULL)
        ORDER BY startedAt ASC`
     ).all(agentId) as any[];
 
     const testRunMetrics: TestRunMetric[] = testRuns.map((r: any) => ({
       testRunId: r.id,
       passRate: r.overallPassRate ?? 0,
+      score: r.overallScore ?? null,
+      criticalFailures: r.criticalFailures ?? 0,
       completedAt: r.completedAt,
     }));
 
-    const { improvements, regressions } = this.computeChanges(testRuns);
+    const changes: CriterionChanges | null = testRuns.length < 2
+      ? null
+      : this.computeChanges(testRuns[0].id, testRuns[testRuns.length - 1].id);
 
     return {
       agentId,
       originalPrompt: agent.originalPrompt,
       currentPrompt: agent.currentPrompt,
-      improvements,
-      regressions,
+      improvements: changes?.improvements ?? [],
+      regressions: changes?.regressions ?? [],
+      inconclusive: changes?.inconclusive ?? [],
+      significance: changes?.significance ?? null,
       testRunMetrics,
     };
   }
 
   /**
-   * Compare the first and last test runs to find improvements and regressions.
+   * Compare any two runs: significance over shared criteria, per-case
+   * criterion transitions and transcript diffs, and the prompt diff.
    */
-  private computeChanges(testRuns: any[]): { improvements: CriterionChange[]; regressions: CriterionChange[] } {
-    if (testRuns.length < 2) return { improvements: [], regressions: [] };
+  compareRuns(baseRunId: string, targetRunId: string): RunComparison | null {
+    const runs = [baseRunId, targetRunId].map(id =>
+      this.database.db.prepare('SELECT id, overallPassRate, promptSnapshot FROM TestRun WHERE id = ?').get(id) as any
+    );
+    if (!runs[0] || !runs[1]) return null;
 
-    const firstRun = testRuns[0];
-    const lastRun = testRuns[testRuns.length - 1];
+    const basePassRate = runs[0].overallPassRate ?? 0;
+    const targetPassRate = runs[1].overallPassRate ?? 0;
+    return {
+      baseRunId,
+      targetRunId,
+      basePassRate,
+      targetPassRate,
+      passRateDelta: targetPassRate - basePassRate,
+      ...this.computeChanges(baseRunId, targetRunId),
+      promptDiff: computeDiff(runs[0].promptSnapshot, runs[1].promptSnapshot),
+      cases: this.alignCases(baseRunId, targetRunId),
+    };
+  }
 
-    const firstResults = this.getCriterionResultsForRun(firstRun.id);
-    const lastResults = this.getCriterionResultsForRun(lastRun.id);
+  /**
+   * Align both runs by test case, then by criterion and turn number.
+   */
+  private alignCases(baseRunId: string, targetRunId: string): CaseComparison[] {
+    const baseCriteria = this.getCriterionResultsForRun(baseRunId);
+    const targetCriteria = this.getCriterionResultsForRun(targetRunId);
+    const baseTranscripts = this.getTranscriptsForRun(baseRunId);
+    const targetTranscripts = this.getTranscriptsForRun(targetRunId);
 
-    const improvements: CriterionChange[] = [];
-    const regressions: CriterionChange[] = [];
+    const caseIds = new Set<string>([
+      ...baseTranscripts.keys(),
+      ...targetTranscripts.keys(),
+      ...baseCriteria.map(c => c.testCaseId),
+      ...targetCriteria.map(c => c.testCaseId),
+    ]);
+
+    const descriptions = new Map<string, string>();
+    for (const id of caseIds) {
+      const row = this.database.db.prepare(
+        'SELECT scenarioDescription FROM TestCase WHERE id = ?'
+      ).get(id) as any;
+      descriptions.set(id, row?.scenarioDescription ?? '');
+    }
+
+    return [...caseIds].map(testCaseId => ({
+      testCaseId,
+      scenarioDescription: descriptions.get(testCaseId) ?? '',
+      criteria: alignCriteria(
+        baseCriteria.filter(c => c.testCaseId === testCaseId),
+        targetCriteria.filter(c => c.testCaseId === testCaseId)
+      ),
+      turns: alignTurns(baseTranscripts.get(testCaseId) ?? [], targetTranscripts.get(testCaseId) ?? []),
+    }));
+  }
 
-    // Build map of criterionId → passed for the first run
-    const firstMap = new Map<string, boolean>();
-    for (const r of firstResults) {
-      firstMap.set(r.criterionId, r.passed);
+  /**
+   * Agent responses of each case's first trial, keyed by test case.
+   */
+  private getTranscriptsForRun(testRunId: string): Map<string, AgentResponse[]> {
+    const rows = this.database.db.prepare(`
+      SELECT testCaseId, agentResponses FROM TestCaseResult
+      WHERE testRunId = ?
+      ORDER BY trial, executedAt, rowid
+    `).all(testRunId) as any[];
+
+    const transcripts = new Map<string, AgentResponse[]>();
+    for (const row of rows) {
+      if (!transcripts.has(row.testCaseId)) {
+        transcripts.set(row.testCaseId, JSON.parse(row.agentResponses));
+      }
+    }
+    return transcripts;
+  }
+
+  /**
+   * Pair criteria shared by two runs and test whether the flips are significant.
+   * A flip or rubric score change is only reported as an improvement or
+   * regression when the run-level McNemar verdict points the same way;
+   * otherwise it is inconclusive.
+   */
+  private computeChanges(baseRunId: string, targetRunId: string): CriterionChanges {
+    const baseMap = new Map<string, CriterionSnapshot>();
+    for (const r of this.getCriterionResultsForRun(baseRunId)) {
+      baseMap.set(r.criterionId, r);
     }
 
-    for (const r of lastResults) {
-      const prev = firstMap.get(r.criterionId);
+    const improvements: CriterionChange[] = [];
+    const regressions: CriterionChange[] = [];
+    const inconclusive: CriterionChange[] = [];
+    const pairs: { before: boolean; after: boolean }[] = [];
+    const moves: { change: CriterionChange; direction: 'up' | 'down' }[] = [];
+
+    for (const r of this.getCriterionResultsForRun(targetRunId)) {
+      const prev = baseMap.get(r.criterionId);
       if (prev === undefined) continue;
+      pairs.push({ before: prev.passed, after: r.passed });
 
-      if (!prev && r.passed) {
-        improvements.push({
-          criterionId: r.criterionId,
-          description: r.description,
-          previousPassed: false,
-          currentPassed: true,
-        });
-      } else if (prev && !r.passed) {
-        regressions.push({
-          criterionId: r.criterionId,
-          description: r.description,
-          previousPassed: true,
-          currentPassed: false,
-        });
+      const change: CriterionChange = {
+        criterionId: r.criterionId,
+        description: r.description,
+        previousPassed: prev.passed,
+        currentPassed: r.passed,
+        previousScore: prev.score,
+        currentScore: r.score,
+        maxScore: r.maxScore ?? prev.maxScore,
+      };
+      const scoreDelta = prev.score !== undefined && r.score !== undefined ? r.score - prev.score : 0;
+
+      if ((!prev.passed && r.passed) || (prev.passed === r.passed && scoreDelta > 0)) {
+        moves.push({ change, direction: 'up' });
+      } else if ((prev.passed && !r.passed) || (prev.passed === r.passed && scoreDelta < 0)) {
+        moves.push({ change, direction: 'down' });
       }
     }
 
-    return { improvements, regressions };
+    const significance = testPairedOutcomes(pairs);
+    for (const { change, direction } of moves) {
+      if (direction === 'up' && significance.verdict === 'improved') improvements.push(change);
+      else if (direction === 'down' && significance.verdict === 'regressed') regressions.push(change);
+      else inconclusive.push(change);
+    }
+
+    return { improvements, regressions, inconclusive, significance };
   }
 
-  private getCriterionResultsForRun(testRunId: string): Array<{ criterionId: string; passed: boolean; description: string }> {
+  /**
+   * A criterion passes when it passed in most of its trials; graded criteria take the mean score.
+   */
+  private getCriterionResultsForRun(testRunId: string): CriterionSnapshot[] {
     const rows = this.database.db.prepare(`
-      SELECT cr.criterionId, cr.passed, sc.description
+      SELECT sc.testCaseId, cr.criterionId, AVG(cr.passed) AS passProbability, AVG(cr.score) AS score, MAX(cr.maxScore) AS maxScore,
+        sc.description
       FROM CriterionResult cr
       JOIN TestCaseResult tcr ON cr.testCaseResultId = tcr.id
       JOIN SuccessCriterion sc ON cr.criterionId = sc.id
       WHERE tcr.testRunId = ? AND tcr.status = 'completed'
+      GROUP BY cr.criterionId
     `).all(testRunId) as any[];
 
     return rows.map((r: any) => ({
+      testCaseId: r.testCaseId,
       criterionId: r.criterionId,
-      passed: r.passed === 1,
+      passed: r.passProbability > 0.5,
       description: r.description,
+      score: r.score ?? undefined,
+      maxScore: r.maxScore ?? undefined,
     }));
   }
 }
+
+function classifyTransition(before: boolean | null, after: boolean | null): CriterionTransition {
+  if (before === null) return 'added';
+  if (after === null) return 'removed';
+  if (before === after) return after ? 'still-passing' : 'still-failing';
+  return after ? 'fixed' : 'broke';
+}
+
+function alignCriteria(base: CriterionSnapshot[], target: CriterionSnapshot[]): CriterionAlignment[] {
+  const targetMap = new Map(target.map(c => [c.criterionId, c]));
+  const aligned: CriterionAlignment[] = base.map(b => {
+    const after = targetMap.get(b.criterionId)?.passed ?? null;
+    return {
+      criterionId: b.criterionId,
+      description: b.description,
+      before: b.passed,
+      after,
+      transition: classifyTransition(b.passed, after),
+    };
+  });
+
+  const baseIds = new Set(base.map(c => c.criterionId));
+  for (const t of target) {
+    if (baseIds.has(t.criterionId)) continue;
+    aligned.push({
+      criterionId: t.criterionId,
+      description: t.description,
+      before: null,
+      after: t.passed,
+      transition: classifyTransition(null, t.passed),
+    });
+  }
+  return aligned;
+}
+
+function alignTurns(base: AgentResponse[], target: AgentResponse[]): TurnComparison[] {
+  const turnNumbers = [...new Set([...base.map(r => r.turn), ...target.map(r => r.turn)])].sort((a, b) => a - b);
+  return turnNumbers.map(turn => {
+    const b = base.find(r => r.turn === turn);
+    const t = target.find(r => r.turn === turn);
+    const diff = computeDiff(b?.utterance ?? '', t?.utterance ?? '');
+    return {
+      turn,
+      base: b,
+      target: t,
+      changed: diff.length > 0 || b?.userUtterance !== t?.userUtterance,
+      diff,
+    };
+  });
+}
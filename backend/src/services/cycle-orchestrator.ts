@@ -1,204 +1,483 @@
 import { v4 as uuidv4 } from 'uuid';
 import { AppDatabase } from '../database';
-import { LLMService } from './llm-service';
-import { TestExecutorService } from './test-executor';
-import { ResultEvaluatorService } from './result-evaluator';
+import { LLMService, BudgetExceededError } from './llm-service';
+import { AgentTransport } from './agent-transport';
 import { PromptOptimizerService } from './prompt-optimizer';
-import { calculatePassRate } from '../utils/pass-rate';
+import { PromptTournamentService } from './prompt-tournament';
+import { LLMUsageService, withLLMAttribution } from './llm-usage';
+import { JobQueueService } from './job-queue';
+import { TestRunnerService, TestRunSummary, mapCriterionResultRow } from './test-runner';
+import { TestGeneratorService } from './test-generator';
 import { transitionCycleStatus, CycleStatus } from '../utils/state-machine';
-import { TestCase, TestCaseResult, CriterionResult } from '../types';
+import { detectRegression, PromptScore } from '../utils/regression-guard';
+import { checkStopPolicy, describeStopReason } from '../utils/stop-policy';
+import {
+  CriterionResult,
+  CycleStopPolicy,
+  CycleStopReason,
+  EvaluationConfig,
+  LLMBudget,
+  OptimizationStrategy,
+  PassRateInterval,
+} from '../types';
 
 export interface CycleConfig {
   agentId: string;
   testSuiteId: string;
   targetThreshold: number;
   maxCycles: number;
+  // Judge panel for every test run in the cycle; a single default judge when omitted
+  evaluation?: EvaluationConfig;
+  // Repetitions of each test case per run; 1 when omitted
+  trials?: number;
+  // Pick each revision by tournament; a single revision is accepted as-is when omitted
+  optimization?: OptimizationStrategy;
+  // Conditions that end the cycle early; only the threshold and maxCycles apply when omitted
+  stopPolicy?: CycleStopPolicy;
+  // Hard cap on the cycle's LLM spend; a refused call completes the cycle with a 'spend-cap' stop
+  budget?: LLMBudget;
+}
+
+/**
+ * Pass rates after one cycle's test runs. A training pass rate that keeps
+ * climbing while the holdout rate stalls or drops means the prompt is overfitting.
+ */
+export interface CyclePassRatePoint {
+  cycleNumber: number;
+  trainPassRate: number;
+  // null when the suite has no holdout split
+  holdoutPassRate: number | null;
 }
 
 export interface CycleEvent {
-  type: 'cycle_start' | 'cycle_complete' | 'test_run_complete' | 'optimization_complete' | 'finished' | 'error';
+  type: 'cycle_start' | 'cycle_complete' | 'test_run_complete' | 'optimization_complete' | 'rollback' | 'finished' | 'error';
   cycleNumber?: number;
+  // The pass rate checked against the threshold: holdout when the suite has one
   passRate?: number;
+  trainPassRate?: number;
+  holdoutPassRate?: number | null;
+  passRateInterval?: PassRateInterval;
+  criticalFailures?: number;
+  flakyCriteria?: number;
   status?: string;
+  stopReason?: CycleStopReason;
   message?: string;
 }
 
-export type CycleEventListener = (event: CycleEvent) => void;
+/**
+ * A revision the cycle reverted because it scored worse than the best prompt so far.
+ */
+export interface CycleRollback {
+  cycleNumber: number;
+  optimizationId: string;
+  reason: string;
+}
+
+// State of a running cycle, persisted to its CycleRecord
+interface CycleProgress {
+  cycleCount: number;
+  startingPassRate: number;
+  endingPassRate: number;
+  testRunIds: string[];
+  optimizationIds: string[];
+  holdoutRunIds: string[];
+  passRateCurve: CyclePassRatePoint[];
+  rollbacks: CycleRollback[];
+  // Measured run of the best prompt
+  bestTestRunId: string | null;
+  // Which prompt the agent was left on, and why
+  outcome: string | null;
+  stopReason: CycleStopReason | null;
+}
+
+// Best-scoring prompt of a cycle so far; revisions are generated from its training run
+interface BestPrompt extends PromptScore {
+  prompt: string;
+  cycleNumber: number;
+  trainRunId: string;
+  criticalFailures: number;
+}
+
+// Everything needed to resume a cycle, saved to its CycleRecord after each test run and optimization
+interface CycleCheckpoint {
+  progress: CycleProgress;
+  best: BestPrompt | null;
+  // Revision applied to the agent but not yet measured
+  pendingOptimizationId: string | null;
+  // Best pass rate after each cycle, for plateau detection
+  bestPassRates: number[];
+  // Next step of the current cycle
+  step: 'test' | 'optimize';
+  // Training run of the current cycle while its holdout run is still to come
+  trainRun: TestRunSummary | null;
+  // Running time so far, excluding time spent paused
+  elapsedMs: number;
+}
+
+/**
+ * A cycle event as persisted. Ids increase monotonically, so a client that
+ * reconnects can resume after the last event it saw.
+ */
+export interface StoredCycleEvent extends CycleEvent {
+  id: number;
+}
+
+export type CycleEventListener = (event: StoredCycleEvent) => void;
 
 export class CycleOrchestratorService {
   private listeners = new Map<string, CycleEventListener[]>();
   private stateFlags = new Map<string, CycleStatus>();
+  private llmUsage: LLMUsageService;
 
   constructor(
     private database: AppDatabase,
-    private llmService: LLMService
-  ) {}
+    private llmService: LLMService,
+    private agentTransport: AgentTransport,
+    private jobQueue: JobQueueService
+  ) {
+    this.llmUsage = new LLMUsageService(database);
+    jobQueue.register('cycle', {
+      run: async (job, context) => {
+        const { cycleId } = job.payload;
+        context.signal.addEventListener('abort', () => this.stopCycle(cycleId));
+        await this.runCycle(cycleId);
+        const record = this.getCycleRecord(cycleId);
+        if (context.signal.aborted && record.status === 'cancelled') {
+          throw new Error('Cycle cancelled');
+        }
+        return { status: record.status, stopReason: record.stopReason, outcome: record.outcome };
+      },
+      // A cycle whose job was cancelled before starting is cancelled too; interrupted ones are left to recoverCycles
+      abandon: (job, reason) => {
+        if (reason === 'cancelled') this.stopCycle(job.payload.cycleId);
+      },
+    });
+  }
 
   /**
    * Start an auto-optimization cycle: test → evaluate → optimize → repeat.
+   * The loop runs as a 'cycle' job once the queue has a free worker.
    */
-  async startCycle(config: CycleConfig): Promise<string> {
+  startCycle(config: CycleConfig): { cycleId: string; jobId: string } {
     const cycleId = uuidv4();
     const now = new Date().toISOString();
 
     this.database.db.prepare(`
-      INSERT INTO CycleRecord (id, agentId, cycleCount, startingPassRate, endingPassRate, targetThreshold, maxCycles, status, testRunIds, optimizationIds, startedAt)
-      VALUES (?, ?, 0, 0, 0, ?, ?, 'running', '[]', '[]', ?)
-    `).run(cycleId, config.agentId, config.targetThreshold, config.maxCycles, now);
+      INSERT INTO CycleRecord (id, agentId, cycleCount, startingPassRate, endingPassRate, targetThreshold, maxCycles, status, testRunIds, optimizationIds, config, startedAt)
+      VALUES (?, ?, 0, 0, 0, ?, ?, 'running', '[]', '[]', ?, ?)
+    `).run(cycleId, config.agentId, config.targetThreshold, config.maxCycles, JSON.stringify(config), now);
 
-    this.stateFlags.set(cycleId, 'running');
+    const job = this.jobQueue.enqueue('cycle', { cycleId }, cycleId);
+    return { cycleId, jobId: job.id };
+  }
 
-    // Run the cycle loop asynchronously
-    this.runCycleLoop(cycleId, config).catch(err => {
-      this.emit(cycleId, { type: 'error', message: err.message });
-    });
+  /**
+   * Deal with cycles left 'running' by a previous server process, other than
+   * those still waiting in the job queue. With CYCLE_RECOVERY=resume they are
+   * queued to continue from their last checkpoint; otherwise they are paused
+   * as interrupted until resumed. Cycles started before configs were stored
+   * cannot be resumed and are cancelled.
+   */
+  recoverCycles(): void {
+    const rows = this.database.db.prepare(
+      `SELECT id, config FROM CycleRecord WHERE status = 'running'`
+    ).all() as any[];
 
-    return cycleId;
-  }
+    for (const row of rows) {
+      if (this.jobQueue.hasQueuedJob('cycle', row.id)) continue;
 
-  private async runCycleLoop(cycleId: string, config: CycleConfig): Promise<void> {
-    const executor = new TestExecutorService(this.database);
-    const evaluator = new ResultEvaluatorService(this.llmService);
-    const optimizer = new PromptOptimizerService(this.llmService, this.database);
+      if (!row.config) {
+        this.database.db.prepare(`
+          UPDATE CycleRecord SET status = 'cancelled', stopReason = 'interrupted',
+            outcome = 'Interrupted by a server restart and cannot be resumed', completedAt = datetime('now')
+          WHERE id = ?
+        `).run(row.id);
+      } else if (process.env.CYCLE_RECOVERY === 'resume') {
+        this.jobQueue.enqueue('cycle', { cycleId: row.id }, row.id);
+      } else {
+        this.markInterrupted(row.id, 'Interrupted by a server restart; resume to continue from the last checkpoint');
+      }
+    }
+  }
 
-    const testRunIds: string[] = [];
-    const optimizationIds: string[] = [];
-    let cycleCount = 0;
-    let currentPassRate = 0;
+  /**
+   * Run a cycle's loop from its last checkpoint until it finishes or pauses.
+   * Does nothing when the cycle was paused or cancelled while its job was
+   * queued; a failed step leaves it resumable from the last checkpoint. A
+   * call refused by a spend cap completes the cycle instead.
+   */
+  private async runCycle(cycleId: string): Promise<void> {
+    const record = this.database.db.prepare(
+      'SELECT agentId, status, config, checkpoint FROM CycleRecord WHERE id = ?'
+    ).get(cycleId) as any;
+    if (!record || record.status !== 'running') return;
+    // Another job is already running this cycle's loop
+    if (this.stateFlags.has(cycleId)) return;
+
+    const state: CycleCheckpoint = record.checkpoint ? JSON.parse(record.checkpoint) : createCheckpoint();
+    this.stateFlags.set(cycleId, 'running');
+    try {
+      await withLLMAttribution(
+        { agentId: record.agentId, cycleId },
+        () => this.runCycleLoop(cycleId, JSON.parse(record.config), state)
+      );
+    } catch (err: any) {
+      // A spend cap ends the cycle where it got to, keeping the best prompt measured so far
+      if (err instanceof BudgetExceededError) {
+        this.finishCycle(cycleId, record.agentId, 'completed', 'spend-cap', state, err.message);
+        return;
+      }
+      this.stateFlags.delete(cycleId);
+      // Before the 'finished' event, which closes live streams
+      this.emit(cycleId, { type: 'error', message: err.message });
+      this.markInterrupted(cycleId, `Interrupted by an error: ${err.message}`);
+      throw err;
+    }
+  }
 
-    // Capture starting pass rate
-    const startingPassRate = currentPassRate;
+  private async runCycleLoop(cycleId: string, config: CycleConfig, state: CycleCheckpoint): Promise<void> {
+    const runner = new TestRunnerService(this.database, this.llmService, this.agentTransport);
+    const optimizer = new PromptOptimizerService(this.llmService, this.database);
+    const tournament = new PromptTournamentService(this.database, this.llmService, this.agentTransport);
+    const testCaseStore = new TestGeneratorService(this.llmService, this.database);
+    const useHoldout = testCaseStore.countSplits(config.testSuiteId).holdout > 0;
+
+    const { progress } = state;
+    const segmentStartedAt = Date.now();
+    const priorElapsedMs = state.elapsedMs;
+    const checkpoint = () => {
+      state.elapsedMs = priorElapsedMs + Date.now() - segmentStartedAt;
+      this.saveCheckpoint(cycleId, state);
+    };
+    const checkPolicy = () => {
+      // Every recorded call charged to the cycle, the agent transport's simulations included; cache hits are free
+      const usage = this.llmUsage.getTotals({ cycleId });
+      return checkStopPolicy(config.stopPolicy ?? {}, {
+        bestPassRates: state.bestPassRates,
+        llmCalls: usage.calls - usage.cachedCalls,
+        cost: usage.cost,
+        elapsedMs: priorElapsedMs + Date.now() - segmentStartedAt,
+        criticalFailures: state.best ? state.best.criticalFailures : null,
+        criticalCriteria: state.best ? Object.keys(state.best.criticalOutcomes).length : 0,
+      });
+    };
 
-    while (cycleCount < config.maxCycles) {
-      // Check for pause/cancel
+    for (;;) {
+      // Pause and cancel take effect between steps
       const flag = this.stateFlags.get(cycleId);
       if (flag === 'cancelled') {
-        this.updateCycleRecord(cycleId, cycleCount, startingPassRate, currentPassRate, 'cancelled', testRunIds, optimizationIds);
-        this.emit(cycleId, { type: 'finished', status: 'cancelled' });
+        this.finishCycle(cycleId, config.agentId, 'cancelled', 'cancelled', state);
         return;
       }
       if (flag === 'paused') {
-        this.updateCycleRecord(cycleId, cycleCount, startingPassRate, currentPassRate, 'paused', testRunIds, optimizationIds);
-        this.emit(cycleId, { type: 'finished', status: 'paused' });
+        checkpoint();
+        this.pauseAtCheckpoint(cycleId, 'paused', `Paused after ${progress.cycleCount} cycle(s); resume to continue`);
         return;
       }
 
-      cycleCount++;
-      this.emit(cycleId, { type: 'cycle_start', cycleNumber: cycleCount });
-
-      // 1. Execute test run
-      const testRunId = await this.executeTestRun(config, executor, evaluator);
-      testRunIds.push(testRunId);
+      if (state.step === 'optimize') {
+        // 4. Revise the best prompt if not last cycle; the next run decides whether the revision stays
+        const cycleNumber = progress.cycleCount;
+        if (state.best && cycleNumber < config.maxCycles) {
+          const { failures, passes } = this.getResultsForRun(state.best.trainRunId);
+
+          if (failures.length > 0) {
+            const optRecord = config.optimization
+              ? (await tournament.runTournament(
+                state.best.trainRunId, config.agentId, state.best.prompt, failures, passes, config.optimization
+              )).winner
+              : await optimizer.optimizePrompt(state.best.trainRunId, config.agentId, state.best.prompt, failures, passes);
+            progress.optimizationIds.push(optRecord.id);
+
+            this.database.db.prepare(`UPDATE Agent SET currentPrompt = ?, updatedAt = datetime('now') WHERE id = ?`)
+              .run(optRecord.revisedPrompt, config.agentId);
+            state.pendingOptimizationId = optRecord.id;
+
+            this.emit(cycleId, { type: 'optimization_complete', cycleNumber });
+          }
+        }
+        state.step = 'test';
+        checkpoint();
+        continue;
+      }
 
-      // Get pass rate from the test run
-      const run = this.database.db.prepare('SELECT overallPassRate FROM TestRun WHERE id = ?').get(testRunId) as any;
-      currentPassRate = run?.overallPassRate ?? 0;
+      if (!state.trainRun) {
+        if (progress.cycleCount >= config.maxCycles) break;
 
-      this.emit(cycleId, { type: 'test_run_complete', cycleNumber: cycleCount, passRate: currentPassRate });
+        // Budget and time are spent by the optimization step too, so check again before the next run
+        const policyStop = checkPolicy();
+        if (policyStop) {
+          this.finishCycle(cycleId, config.agentId, 'completed', policyStop, state);
+          return;
+        }
 
-      // 2. Check if threshold met
-      if (currentPassRate >= config.targetThreshold) {
-        this.updateCycleRecord(cycleId, cycleCount, startingPassRate, currentPassRate, 'completed', testRunIds, optimizationIds);
-        this.emit(cycleId, { type: 'finished', status: 'completed', passRate: currentPassRate });
-        return;
+        progress.cycleCount++;
+        this.emit(cycleId, { type: 'cycle_start', cycleNumber: progress.cycleCount });
+
+        // 1. Execute test runs; with a holdout split the optimizer only sees the training run
+        state.trainRun = await runner.runSuite(
+          config.agentId, config.testSuiteId, config.evaluation, config.trials, useHoldout ? 'train' : undefined
+        );
+        progress.testRunIds.push(state.trainRun.id);
+        if (useHoldout) {
+          checkpoint();
+          continue;
+        }
       }
 
-      // 3. Optimize prompt if not last cycle
-      if (cycleCount < config.maxCycles) {
-        const agent = this.database.db.prepare('SELECT currentPrompt FROM Agent WHERE id = ?').get(config.agentId) as any;
-        const { failures, passes } = this.getResultsForRun(testRunId);
-
-        if (failures.length > 0) {
-          const optRecord = await optimizer.optimizePrompt(testRunId, config.agentId, agent.currentPrompt, failures, passes);
-          optimizationIds.push(optRecord.id);
+      const cycleNumber = progress.cycleCount;
+      const trainRun = state.trainRun;
+      // The prompt under test, read from the run in case the cycle resumed after the agent was edited
+      const trainSnapshot = this.database.db.prepare('SELECT promptSnapshot FROM TestRun WHERE id = ?').get(trainRun.id) as any;
+      const testedPrompt: string = trainSnapshot.promptSnapshot;
+
+      const measuredRun = useHoldout
+        ? await runner.runSuite(config.agentId, config.testSuiteId, config.evaluation, config.trials, 'holdout')
+        : trainRun;
+      if (useHoldout) progress.holdoutRunIds.push(measuredRun.id);
+
+      const { overallPassRate, passRateInterval, criticalFailures, flakyCriteria } = measuredRun;
+      if (cycleNumber === 1) progress.startingPassRate = overallPassRate;
+      const holdoutPassRate = useHoldout ? overallPassRate : null;
+      progress.passRateCurve.push({ cycleNumber, trainPassRate: trainRun.overallPassRate, holdoutPassRate });
+
+      this.emit(cycleId, {
+        type: 'test_run_complete',
+        cycleNumber,
+        passRate: overallPassRate,
+        trainPassRate: trainRun.overallPassRate,
+        holdoutPassRate,
+        passRateInterval,
+        criticalFailures,
+        flakyCriteria,
+      });
+
+      // 2. Keep the revision only if it does not regress against the best prompt so far
+      const score: PromptScore = { passRate: overallPassRate, criticalOutcomes: this.getCriticalOutcomes(measuredRun.id) };
+      const regression = state.best && state.pendingOptimizationId ? detectRegression(state.best, score) : null;
+      if (state.best && state.pendingOptimizationId && regression) {
+        this.database.db.prepare(`UPDATE Agent SET currentPrompt = ?, updatedAt = datetime('now') WHERE id = ?`)
+          .run(state.best.prompt, config.agentId);
+        this.setOptimizationStatus(state.pendingOptimizationId, 'rejected');
+        progress.rollbacks.push({ cycleNumber, optimizationId: state.pendingOptimizationId, reason: regression });
+        this.emit(cycleId, { type: 'rollback', cycleNumber, message: `Reverted revision: ${regression}` });
+      } else {
+        if (state.pendingOptimizationId) this.setOptimizationStatus(state.pendingOptimizationId, 'accepted');
+        state.best = { ...score, prompt: testedPrompt, cycleNumber, trainRunId: trainRun.id, criticalFailures };
+        progress.bestTestRunId = measuredRun.id;
+      }
+      state.pendingOptimizationId = null;
+      state.trainRun = null;
+      state.bestPassRates.push(state.best.passRate);
 
-          // Apply the optimized prompt
-          this.database.db.prepare(`UPDATE Agent SET currentPrompt = ?, updatedAt = datetime('now') WHERE id = ?`)
-            .run(optRecord.revisedPrompt, config.agentId);
-          this.database.db.prepare(`UPDATE OptimizationRecord SET status = 'accepted' WHERE id = ?`)
-            .run(optRecord.id);
+      // 3. Check if threshold met; a critical failure keeps the cycle going whatever the pass rate
+      if (state.best.passRate >= config.targetThreshold && state.best.criticalFailures === 0) {
+        this.finishCycle(cycleId, config.agentId, 'completed', 'threshold-met', state);
+        return;
+      }
 
-          this.emit(cycleId, { type: 'optimization_complete', cycleNumber: cycleCount });
-        }
+      const stopReason = checkPolicy();
+      if (stopReason) {
+        this.finishCycle(cycleId, config.agentId, 'completed', stopReason, state);
+        return;
       }
+
+      state.step = 'optimize';
+      checkpoint();
     }
 
     // Max cycles reached
-    this.updateCycleRecord(cycleId, cycleCount, startingPassRate, currentPassRate, 'completed', testRunIds, optimizationIds);
-    this.emit(cycleId, { type: 'finished', status: 'completed', passRate: currentPassRate });
+    this.finishCycle(cycleId, config.agentId, 'completed', 'max-cycles', state);
   }
 
-  private async executeTestRun(
-    config: CycleConfig,
-    executor: TestExecutorService,
-    evaluator: ResultEvaluatorService
-  ): Promise<string> {
-    const testRunId = uuidv4();
-    const now = new Date().toISOString();
-    const agent = this.database.db.prepare('SELECT currentPrompt FROM Agent WHERE id = ?').get(config.agentId) as any;
-
-    this.database.db.prepare(`
-      INSERT INTO TestRun (id, testSuiteId, agentId, promptSnapshot, status, startedAt)
-      VALUES (?, ?, ?, ?, 'running', ?)
-    `).run(testRunId, config.testSuiteId, config.agentId, agent.currentPrompt, now);
-
-    const testCases = this.getTestCases(config.testSuiteId);
-    const allResults: TestCaseResult[] = [];
+  /**
+   * Leave the agent on the best prompt seen, discarding a revision that was
+   * applied but never measured, then record why the cycle ended where it did.
+   */
+  private finishCycle(
+    cycleId: string,
+    agentId: string,
+    status: CycleStatus,
+    stopReason: CycleStopReason,
+    state: CycleCheckpoint,
+    // Specifics of the stop, such as which spend cap was reached
+    detail?: string
+  ): void {
+    const { progress, best, pendingOptimizationId } = state;
+    progress.stopReason = stopReason;
+    this.stateFlags.delete(cycleId);
+    const stopped = `Stopped: ${describeStopReason(stopReason)}${detail ? ` (${detail})` : ''}`;
 
-    for (const tc of testCases) {
-      const result = await executor.executeTestCase(tc, agent.currentPrompt);
+    if (pendingOptimizationId) {
+      this.setOptimizationStatus(pendingOptimizationId, 'rejected');
+    }
 
-      if (result.status === 'completed') {
-        result.criterionResults = await evaluator.evaluateAllCriteria(result.agentResponses, tc.successCriteria);
+    if (best) {
+      this.database.db.prepare(`UPDATE Agent SET currentPrompt = ?, updatedAt = datetime('now') WHERE id = ? AND currentPrompt != ?`)
+        .run(best.prompt, agentId, best.prompt);
+      progress.endingPassRate = best.passRate;
+
+      const reasons = [
+        stopped,
+        `kept the prompt tested in cycle ${best.cycleNumber}, the best scoring (${Math.round(best.passRate * 100)}% pass rate)`,
+      ];
+      if (progress.rollbacks.length > 0) {
+        reasons.push(`reverted ${progress.rollbacks.length} regressing revision(s)`);
       }
-
-      // Store result
-      const resultId = uuidv4();
-      this.database.db.prepare(`
-        INSERT INTO TestCaseResult (id, testRunId, testCaseId, agentResponses, status, errorMessage, executedAt)
-        VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
-      `).run(resultId, testRunId, tc.id, JSON.stringify(result.agentResponses), result.status, result.errorMessage || null);
-
-      for (const cr of result.criterionResults) {
-        this.database.db.prepare(`
-          INSERT INTO CriterionResult (id, testCaseResultId, criterionId, passed, explanation)
-          VALUES (?, ?, ?, ?, ?)
-        `).run(uuidv4(), resultId, cr.criterionId, cr.passed ? 1 : 0, cr.explanation);
+      if (pendingOptimizationId) {
+        reasons.push('discarded a revision that was never tested');
       }
-
-      allResults.push(result);
+      progress.outcome = reasons.join('; ');
+    } else {
+      // A spend cap can stop the cycle part-way through its first measurement
+      const when = progress.cycleCount > 0 ? 'during the baseline run' : 'before any test run';
+      progress.outcome = `${stopped} ${when}; prompt unchanged`;
     }
 
-    const passRate = calculatePassRate(allResults);
-    this.database.db.prepare(`
-      UPDATE TestRun SET overallPassRate = ?, status = 'completed', completedAt = datetime('now') WHERE id = ?
-    `).run(passRate, testRunId);
+    this.updateCycleRecord(cycleId, status, progress);
+    this.emit(cycleId, { type: 'finished', status, stopReason, passRate: best?.passRate, message: progress.outcome });
+  }
 
-    return testRunId;
+  /**
+   * Park a cycle at its last checkpoint; the agent keeps whatever prompt it was being tested with.
+   */
+  private pauseAtCheckpoint(cycleId: string, stopReason: 'paused' | 'interrupted', outcome: string): void {
+    this.stateFlags.delete(cycleId);
+    this.database.db.prepare(`UPDATE CycleRecord SET status = 'paused', stopReason = ?, outcome = ? WHERE id = ?`)
+      .run(stopReason, outcome, cycleId);
+    this.emit(cycleId, { type: 'finished', status: 'paused', stopReason, message: outcome });
   }
 
-  private getTestCases(testSuiteId: string): TestCase[] {
-    const rows = this.database.db.prepare('SELECT * FROM TestCase WHERE testSuiteId = ?').all(testSuiteId) as any[];
-    return rows.map((r: any) => {
-      const criteria = this.database.db.prepare('SELECT * FROM SuccessCriterion WHERE testCaseId = ?').all(r.id) as any[];
-      return {
-        id: r.id,
-        scenarioDescription: r.scenarioDescription,
-        scenarioType: r.scenarioType,
-        userInputSequence: JSON.parse(r.userInputSequence),
-        successCriteria: criteria.map((c: any) => ({
-          id: c.id,
-          description: c.description,
-          category: c.category,
-          evaluationPrompt: c.evaluationPrompt,
-        })),
-      };
-    });
+  private markInterrupted(cycleId: string, outcome: string): void {
+    this.pauseAtCheckpoint(cycleId, 'interrupted', outcome);
+  }
+
+  private setOptimizationStatus(optimizationId: string, status: 'accepted' | 'rejected'): void {
+    this.database.db.prepare('UPDATE OptimizationRecord SET status = ? WHERE id = ?').run(status, optimizationId);
+  }
+
+  /**
+   * Pass/fail of each critical criterion in a run; a criterion passes when it passed in most of its trials.
+   */
+  private getCriticalOutcomes(testRunId: string): Record<string, boolean> {
+    const rows = this.database.db.prepare(`
+      SELECT cr.criterionId, AVG(cr.passed) AS passProbability
+      FROM CriterionResult cr
+      JOIN TestCaseResult tcr ON cr.testCaseResultId = tcr.id
+      WHERE tcr.testRunId = ? AND tcr.status = 'completed' AND cr.severity = 'critical'
+      GROUP BY cr.criterionId
+    `).all(testRunId) as any[];
+
+    const outcomes: Record<string, boolean> = {};
+    for (const r of rows) {
+      outcomes[r.criterionId] = r.passProbability > 0.5;
+    }
+    return outcomes;
   }
 
   private getResultsForRun(testRunId: string): { failures: CriterionResult[]; passes: CriterionResult[] } {
     const rows = this.database.db.prepare(`
-      SELECT cr.criterionId, cr.passed, cr.explanation
+      SELECT cr.*
       FROM CriterionResult cr
       JOIN TestCaseResult tcr ON cr.testCaseResultId = tcr.id
       WHERE tcr.testRunId = ? AND tcr.status = 'completed'
@@ -208,7 +487,7 @@ export class CycleOrchestratorService {
     const passes: CriterionResult[] = [];
 
     for (const r of rows) {
-      const result: CriterionResult = { criterionId: r.criterionId, passed: r.passed === 1, explanation: r.explanation };
+      const result = mapCriterionResultRow(r);
       if (result.passed) passes.push(result);
       else failures.push(result);
     }
@@ -216,48 +495,119 @@ export class CycleOrchestratorService {
     return { failures, passes };
   }
 
-  private updateCycleRecord(
-    cycleId: string, cycleCount: number, startingPassRate: number, endingPassRate: number,
-    status: string, testRunIds: string[], optimizationIds: string[]
-  ): void {
+  /**
+   * Persist a running cycle's progress along with the state needed to resume it.
+   */
+  private saveCheckpoint(cycleId: string, state: CycleCheckpoint): void {
+    this.database.db.transaction(() => {
+      this.writeProgress(cycleId, state.progress);
+      this.database.db.prepare('UPDATE CycleRecord SET checkpoint = ? WHERE id = ?').run(JSON.stringify(state), cycleId);
+    })();
+  }
+
+  private updateCycleRecord(cycleId: string, status: CycleStatus, progress: CycleProgress): void {
+    this.database.db.transaction(() => {
+      this.writeProgress(cycleId, progress);
+      this.database.db.prepare(`
+        UPDATE CycleRecord SET status = ?, outcome = ?, stopReason = ?, checkpoint = NULL, completedAt = datetime('now')
+        WHERE id = ?
+      `).run(status, progress.outcome, progress.stopReason, cycleId);
+    })();
+  }
+
+  private writeProgress(cycleId: string, progress: CycleProgress): void {
     this.database.db.prepare(`
-      UPDATE CycleRecord SET cycleCount = ?, startingPassRate = ?, endingPassRate = ?, status = ?,
-        testRunIds = ?, optimizationIds = ?, completedAt = datetime('now')
+      UPDATE CycleRecord SET cycleCount = ?, startingPassRate = ?, endingPassRate = ?,
+        testRunIds = ?, optimizationIds = ?, holdoutRunIds = ?, passRateCurve = ?,
+        rollbacks = ?, bestTestRunId = ?
       WHERE id = ?
-    `).run(cycleCount, startingPassRate, endingPassRate, status, JSON.stringify(testRunIds), JSON.stringify(optimizationIds), cycleId);
+    `).run(
+      progress.cycleCount, progress.startingPassRate, progress.endingPassRate,
+      JSON.stringify(progress.testRunIds), JSON.stringify(progress.optimizationIds),
+      JSON.stringify(progress.holdoutRunIds), JSON.stringify(progress.passRateCurve),
+      JSON.stringify(progress.rollbacks), progress.bestTestRunId, cycleId
+    );
   }
 
+  /**
+   * A cycle whose loop is running stops at its next step; a paused or queued
+   * one is finished straight from its checkpoint.
+   */
   cancelCycle(cycleId: string): void {
-    const record = this.database.db.prepare('SELECT status FROM CycleRecord WHERE id = ?').get(cycleId) as any;
-    if (record) {
-      transitionCycleStatus(record.status as CycleStatus, 'cancelled');
+    const record = this.database.db.prepare(
+      'SELECT agentId, status, checkpoint FROM CycleRecord WHERE id = ?'
+    ).get(cycleId) as any;
+    if (!record) return;
+
+    transitionCycleStatus(record.status as CycleStatus, 'cancelled');
+    if (this.stateFlags.has(cycleId)) {
       this.stateFlags.set(cycleId, 'cancelled');
+    } else if (record.checkpoint) {
+      this.finishCycle(cycleId, record.agentId, 'cancelled', 'cancelled', JSON.parse(record.checkpoint));
+    } else {
+      this.database.db.prepare(`
+        UPDATE CycleRecord SET status = 'cancelled', stopReason = 'cancelled', completedAt = datetime('now') WHERE id = ?
+      `).run(cycleId);
     }
   }
 
+  /**
+   * The cycle pauses after its current step, keeping a checkpoint to resume
+   * from; a queued cycle pauses before it starts.
+   */
   pauseCycle(cycleId: string): void {
     const record = this.database.db.prepare('SELECT status FROM CycleRecord WHERE id = ?').get(cycleId) as any;
-    if (record) {
-      transitionCycleStatus(record.status as CycleStatus, 'paused');
+    if (!record) return;
+
+    transitionCycleStatus(record.status as CycleStatus, 'paused');
+    if (this.stateFlags.has(cycleId)) {
       this.stateFlags.set(cycleId, 'paused');
+    } else {
+      this.pauseAtCheckpoint(cycleId, 'paused', 'Paused while queued; resume to continue');
     }
   }
 
-  resumeCycle(cycleId: string): void {
+  /**
+   * Queue a paused or interrupted cycle to continue from its last checkpoint.
+   * Returns the id of the job that will run it: a cycle paused while queued
+   * keeps its original job.
+   */
+  resumeCycle(cycleId: string): string | null {
+    const record = this.database.db.prepare('SELECT status, config FROM CycleRecord WHERE id = ?').get(cycleId) as any;
+    if (!record) return null;
+
+    transitionCycleStatus(record.status as CycleStatus, 'running');
+    if (!record.config) {
+      throw new Error(`Cycle '${cycleId}' was started before cycles could be resumed`);
+    }
+
+    this.database.db.prepare(`UPDATE CycleRecord SET status = 'running', stopReason = NULL, outcome = NULL WHERE id = ?`)
+      .run(cycleId);
+    const [queued] = this.jobQueue.listJobs({ type: 'cycle', status: 'queued', resourceId: cycleId }, 1);
+    return queued ? queued.id : this.jobQueue.enqueue('cycle', { cycleId }, cycleId).id;
+  }
+
+  // Cancel a cycle on behalf of its job, unless it has already finished
+  private stopCycle(cycleId: string): void {
     const record = this.database.db.prepare('SELECT status FROM CycleRecord WHERE id = ?').get(cycleId) as any;
-    if (record) {
-      transitionCycleStatus(record.status as CycleStatus, 'running');
-      this.stateFlags.set(cycleId, 'running');
+    if (record && (record.status === 'running' || record.status === 'paused')) {
+      this.cancelCycle(cycleId);
     }
   }
 
   getCycleRecord(cycleId: string): any {
     const row = this.database.db.prepare('SELECT * FROM CycleRecord WHERE id = ?').get(cycleId) as any;
     if (!row) return null;
+    // The checkpoint is internal resume state
+    const { checkpoint: _checkpoint, ...record } = row;
     return {
-      ...row,
-      testRunIds: JSON.parse(row.testRunIds),
-      optimizationIds: JSON.parse(row.optimizationIds),
+      ...record,
+      config: record.config ? JSON.parse(record.config) : null,
+      testRunIds: JSON.parse(record.testRunIds),
+      optimizationIds: JSON.parse(record.optimizationIds),
+      holdoutRunIds: JSON.parse(record.holdoutRunIds),
+      passRateCurve: JSON.parse(record.passRateCurve),
+      rollbacks: JSON.parse(record.rollbacks),
     };
   }
 
@@ -272,10 +622,49 @@ export class CycleOrchestratorService {
     this.listeners.set(cycleId, existing.filter(l => l !== listener));
   }
 
+  /**
+   * Events of a cycle in the order they were emitted, optionally only those after `afterId`.
+   */
+  getCycleEvents(cycleId: string, afterId = 0): StoredCycleEvent[] {
+    const rows = this.database.db.prepare(
+      'SELECT id, data FROM CycleEvent WHERE cycleId = ? AND id > ? ORDER BY id'
+    ).all(cycleId, afterId) as any[];
+    return rows.map(row => ({ id: row.id, ...JSON.parse(row.data) }));
+  }
+
+  // Persist before notifying, so a listener that reconnects never misses an event
   private emit(cycleId: string, event: CycleEvent): void {
+    const { lastInsertRowid } = this.database.db.prepare('INSERT INTO CycleEvent (cycleId, data) VALUES (?, ?)')
+      .run(cycleId, JSON.stringify(event));
+    const stored: StoredCycleEvent = { id: Number(lastInsertRowid), ...event };
+
     const listeners = this.listeners.get(cycleId) || [];
     for (const listener of listeners) {
-      listener(event);
+      listener(stored);
     }
   }
 }
+
+function createCheckpoint(): CycleCheckpoint {
+  return {
+    progress: {
+      cycleCount: 0,
+      startingPassRate: 0,
+      endingPassRate: 0,
+      testRunIds: [],
+      optimizationIds: [],
+      holdoutRunIds: [],
+      passRateCurve: [],
+      rollbacks: [],
+      bestTestRunId: null,
+      outcome: null,
+      stopReason: null,
+    },
+    best: null,
+    pendingOptimizationId: null,
+    bestPassRates: [],
+    step: 'test',
+    trainRun: null,
+    elapsedMs: 0,
+  };
+}
@@ -1,4 +1,7 @@
 import { AppDatabase } from '../database';
+import { AgentResponse, CallerOutcome, CriterionSeverity, CriterionTrialStats, JudgeVote, PassRateInterval, TurnSelector } from '../types';
+import { isLowAgreement } from '../utils/consensus';
+import { summarizeTrials } from '../utils/trials';
 
 export interface DashboardCriterionResult {
   criterionId: string;
@@ -6,15 +9,29 @@ export interface DashboardCriterionResult {
   category: string;
   passed: boolean;
   explanation: string;
+  turn?: number;
+  turnSelector?: TurnSelector;
+  score?: number;
+  maxScore?: number;
+  severity?: CriterionSeverity;
+  weight?: number;
+  judgeVotes?: JudgeVote[];
+  agreement?: number;
+  // Judges split enough that the verdict should not be trusted
+  lowAgreement: boolean;
+  // Outcome flipped between trials of this case
+  flaky: boolean;
 }
 
 export interface DashboardTestCaseResult {
   testCaseId: string;
+  trial: number;
   scenarioDescription: string;
   scenarioType: string;
   status: 'completed' | 'error';
   errorMessage?: string;
-  agentResponses: Array<{ turn: number; utterance: string }>;
+  callerOutcome?: CallerOutcome;
+  agentResponses: AgentResponse[];
   criterionResults: DashboardCriterionResult[];
 }
 
@@ -22,6 +39,15 @@ export interface DashboardData {
   testRunId: string;
   agentId: string;
   overallPassRate: number;
+  // Null for runs recorded before intervals existed
+  passRateInterval: PassRateInterval | null;
+  // Mean normalized rubric score; null for runs recorded before scoring existed
+  overallScore: number | null;
+  criticalFailures: number;
+  lowAgreementCount: number;
+  trials: number;
+  flakyCount: number;
+  criterionStats: CriterionTrialStats[];
   status: string;
   startedAt: string;
   completedAt: string | null;
@@ -39,14 +65,15 @@ export class DashboardBuilderService {
     if (!run) return null;
 
     const caseResults = this.database.db.prepare(
-      'SELECT * FROM TestCaseResult WHERE testRunId = ? ORDER BY executedAt'
+      'SELECT * FROM TestCaseResult WHERE testRunId = ? ORDER BY executedAt, rowid'
     ).all(testRunId) as any[];
 
     const testCaseResults: DashboardTestCaseResult[] = caseResults.map((tcr: any) => {
       const testCase = this.database.db.prepare('SELECT * FROM TestCase WHERE id = ?').get(tcr.testCaseId) as any;
 
       const criterionRows = this.database.db.prepare(`
-        SELECT cr.criterionId, cr.passed, cr.explanation, sc.description, sc.category
+        SELECT cr.criterionId, cr.passed, cr.explanation, cr.turn, cr.score, cr.maxScore, cr.severity, cr.weight,
+          cr.judgeVotes, cr.agreement, sc.description, sc.category, sc.turnSelector
         FROM CriterionResult cr
         JOIN SuccessCriterion sc ON cr.criterionId = sc.id
         WHERE cr.testCaseResultId = ?
@@ -54,10 +81,12 @@ export class DashboardBuilderService {
 
       return {
         testCaseId: tcr.testCaseId,
+        trial: tcr.trial,
         scenarioDescription: testCase?.scenarioDescription ?? '',
         scenarioType: testCase?.scenarioType ?? '',
         status: tcr.status,
         errorMessage: tcr.errorMessage || undefined,
+        callerOutcome: tcr.callerOutcome || undefined,
         agentResponses: JSON.parse(tcr.agentResponses),
         criterionResults: criterionRows.map((cr: any) => ({
           criterionId: cr.criterionId,
@@ -65,14 +94,43 @@ export class DashboardBuilderService {
           category: cr.category,
           passed: cr.passed === 1,
           explanation: cr.explanation,
+          turn: cr.turn ?? undefined,
+          turnSelector: cr.turnSelector ? JSON.parse(cr.turnSelector) : undefined,
+          score: cr.score ?? undefined,
+          maxScore: cr.maxScore ?? undefined,
+          severity: cr.severity ?? undefined,
+          weight: cr.weight ?? undefined,
+          judgeVotes: cr.judgeVotes ? JSON.parse(cr.judgeVotes) : undefined,
+          agreement: cr.agreement ?? undefined,
+          lowAgreement: isLowAgreement(cr.agreement ?? undefined),
+          flaky: false,
         })),
       };
     });
 
+    const criterionStats = summarizeTrials(testCaseResults);
+    const flakyKeys = new Set(
+      criterionStats.filter(s => s.flaky).map(s => `${s.testCaseId}:${s.criterionId}`)
+    );
+    for (const result of testCaseResults) {
+      for (const cr of result.criterionResults) {
+        cr.flaky = flakyKeys.has(`${result.testCaseId}:${cr.criterionId}`);
+      }
+    }
+
     return {
       testRunId: run.id,
       agentId: run.agentId,
       overallPassRate: run.overallPassRate ?? 0,
+      passRateInterval: run.passRateLower !== null ? { lower: run.passRateLower, upper: run.passRateUpper } : null,
+      overallScore: run.overallScore ?? null,
+      criticalFailures: run.criticalFailures ?? 0,
+      lowAgreementCount: testCaseResults
+        .flatMap(r => r.criterionResults)
+        .filter(cr => cr.lowAgreement).length,
+      trials: run.trials,
+      flakyCount: flakyKeys.size,
+      criterionStats,
       status: run.status,
       startedAt: run.startedAt,
       completedAt: run.completedAt,
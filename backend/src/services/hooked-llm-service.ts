@@ -0,0 +1,113 @@
+import { LLMService, LLMServiceHooks } from './llm-service';
+import {
+  PromptAnalysis,
+  TestCase,
+  SuccessCriterion,
+  CriterionResult,
+  OptimizationResult,
+  ConversationMessage,
+  CallerPersona,
+  CallerTurn,
+  JudgeConfig,
+  OptimizationCandidateConfig,
+  LLMOperation,
+} from '../types';
+import { LLMCacheKeyParts } from '../utils/llm-cache';
+
+// Rough English average, enough for offline token counts to be in the right range
+const CHARS_PER_TOKEN = 4;
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Applies usage recording, spend caps and the response cache to an LLM
+ * service that makes no provider calls of its own, such as MockLLMService, so
+ * offline runs are accounted, capped and cached like real ones. Each method
+ * counts as one call to the `mock` model, with tokens estimated from the JSON
+ * of its arguments and result.
+ */
+export class HookedLLMService implements LLMService {
+  constructor(
+    private inner: LLMService,
+    private hooks: LLMServiceHooks,
+    private provider = 'mock',
+    private model = 'mock'
+  ) {}
+
+  private async call<T>(
+    operation: LLMOperation,
+    args: unknown[],
+    fn: () => Promise<T>,
+    judge: JudgeConfig = {}
+  ): Promise<T> {
+    const call = { operation, provider: this.provider, model: judge.model ?? this.model };
+    // The arguments stand in for the rendered prompt a provider would be sent
+    const prompt = JSON.stringify(args);
+    const cacheRequest: LLMCacheKeyParts = {
+      operation, model: call.model, temperature: judge.temperature ?? 0, jsonMode: true,
+      messages: [{ role: 'user', content: prompt }],
+    };
+    const cached = this.hooks.cache ? this.hooks.cache.lookup(cacheRequest) : null;
+    if (cached !== null) {
+      this.hooks.recorder?.recordCall({ ...call, promptTokens: 0, completionTokens: 0, latencyMs: 0, source: 'cache' });
+      return JSON.parse(cached) as T;
+    }
+
+    this.hooks.guard?.checkCall(operation, call.model);
+    const startedAt = Date.now();
+    const result = await fn();
+    const content = JSON.stringify(result);
+    this.hooks.recorder?.recordCall({
+      ...call,
+      promptTokens: estimateTokens(prompt),
+      completionTokens: estimateTokens(content),
+      latencyMs: Date.now() - startedAt,
+    });
+    this.hooks.cache?.store(cacheRequest, content);
+    return result;
+  }
+
+  analyzePrompt(prompt: string): Promise<PromptAnalysis> {
+    return this.call('analysis', [prompt], () => this.inner.analyzePrompt(prompt));
+  }
+
+  generateTestCases(analysis: PromptAnalysis): Promise<TestCase[]> {
+    return this.call('generation', [analysis], () => this.inner.generateTestCases(analysis));
+  }
+
+  evaluateCriterion(response: string, criterion: SuccessCriterion, judge?: JudgeConfig): Promise<CriterionResult> {
+    return this.call(
+      'judging',
+      [response, criterion, judge ?? {}],
+      () => this.inner.evaluateCriterion(response, criterion, judge),
+      judge
+    );
+  }
+
+  optimizePrompt(
+    original: string,
+    failures: CriterionResult[],
+    passes: CriterionResult[],
+    candidate?: OptimizationCandidateConfig
+  ): Promise<OptimizationResult> {
+    return this.call(
+      'optimization',
+      [original, failures, passes, candidate ?? {}],
+      () => this.inner.optimizePrompt(original, failures, passes, candidate)
+    );
+  }
+
+  simulateAgentResponse(agentPrompt: string, conversation: ConversationMessage[]): Promise<string> {
+    return this.call(
+      'simulation',
+      [agentPrompt, conversation],
+      () => this.inner.simulateAgentResponse(agentPrompt, conversation)
+    );
+  }
+
+  simulateCallerTurn(persona: CallerPersona, conversation: ConversationMessage[]): Promise<CallerTurn> {
+    return this.call('simulation', [persona, conversation], () => this.inner.simulateCallerTurn(persona, conversation));
+  }
+}
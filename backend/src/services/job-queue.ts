@@ -0,0 +1,216 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AppDatabase } from '../database';
+import { transitionJobStatus, JobStatus } from '../utils/state-machine';
+
+export type JobType = 'analysis' | 'test-suite' | 'test-run' | 'cycle';
+
+export const JOB_TYPES: JobType[] = ['analysis', 'test-suite', 'test-run', 'cycle'];
+
+export const DEFAULT_JOB_CONCURRENCY = 2;
+
+export interface JobProgress {
+  completed: number;
+  total: number;
+  message?: string;
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  payload: any;
+  // Analysis, test suite, test run or cycle the job produces or drives, once known
+  resourceId: string | null;
+  progress: JobProgress;
+  // Handler's return value, once finished
+  result: unknown;
+  error: string | null;
+  // Machine-readable code of the error, when it carried one (e.g. BUDGET_EXCEEDED)
+  errorCode: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+export interface JobContext {
+  // Aborted when the job is cancelled; handlers stop at their next step
+  signal: AbortSignal;
+  reportProgress(progress: JobProgress): void;
+  setResourceId(resourceId: string): void;
+}
+
+export interface JobHandler {
+  run(job: Job, context: JobContext): Promise<unknown>;
+  /**
+   * Clean up after a job that will never run to completion: cancelled before
+   * it started, or left running by a previous server process.
+   */
+  abandon?(job: Job, reason: 'cancelled' | 'interrupted'): void;
+}
+
+/**
+ * SQLite-backed queue for long-running work. Jobs survive restarts while
+ * queued and run in creation order, at most `concurrency` at a time. Routers
+ * register a handler per job type before `start()` begins processing.
+ */
+export class JobQueueService {
+  private handlers = new Map<JobType, JobHandler>();
+  // Abort controllers of the jobs this process is running
+  private running = new Map<string, AbortController>();
+  private started = false;
+
+  constructor(
+    private database: AppDatabase,
+    private concurrency = DEFAULT_JOB_CONCURRENCY
+  ) {}
+
+  register(type: JobType, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  enqueue(type: JobType, payload: unknown, resourceId?: string): Job {
+    const id = uuidv4();
+    this.database.db.prepare(`
+      INSERT INTO Job (id, type, status, payload, resourceId) VALUES (?, ?, 'queued', ?, ?)
+    `).run(id, type, JSON.stringify(payload), resourceId ?? null);
+
+    this.pump();
+    return this.getJob(id)!;
+  }
+
+  getJob(id: string): Job | null {
+    const row = this.database.db.prepare('SELECT * FROM Job WHERE id = ?').get(id) as any;
+    return row ? mapJobRow(row) : null;
+  }
+
+  /**
+   * Most recent jobs first, optionally narrowed by type, status and resource.
+   */
+  listJobs(filter: { type?: JobType; status?: JobStatus; resourceId?: string } = {}, limit = 100): Job[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    for (const [column, value] of Object.entries(filter)) {
+      if (value === undefined) continue;
+      conditions.push(`${column} = ?`);
+      params.push(value);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.database.db.prepare(
+      `SELECT * FROM Job ${where} ORDER BY createdAt DESC, rowid DESC LIMIT ?`
+    ).all(...params, limit) as any[];
+    return rows.map(mapJobRow);
+  }
+
+  hasQueuedJob(type: JobType, resourceId: string): boolean {
+    return !!this.database.db.prepare(
+      `SELECT 1 FROM Job WHERE type = ? AND resourceId = ? AND status = 'queued'`
+    ).get(type, resourceId);
+  }
+
+  /**
+   * Cancel a job: a queued job never starts, a running one is signalled and
+   * marked cancelled if its handler stops early. Throws on finished jobs.
+   */
+  cancel(id: string): Job | null {
+    const job = this.getJob(id);
+    if (!job) return null;
+
+    transitionJobStatus(job.status, 'cancelled');
+    if (job.status === 'queued') {
+      this.finish(job.id, 'cancelled', null, null);
+      this.handlers.get(job.type)?.abandon?.(job, 'cancelled');
+    } else {
+      this.running.get(job.id)?.abort();
+    }
+    return this.getJob(id);
+  }
+
+  /**
+   * Fail the jobs a previous process left running, then start processing the queue.
+   */
+  start(): void {
+    if (this.started) return;
+
+    const stale = this.database.db.prepare(`SELECT * FROM Job WHERE status = 'running'`).all() as any[];
+    for (const row of stale) {
+      const job = mapJobRow(row);
+      this.finish(job.id, 'failed', null, 'Interrupted by a server restart');
+      this.handlers.get(job.type)?.abandon?.(job, 'interrupted');
+    }
+
+    this.started = true;
+    this.pump();
+  }
+
+  private pump(): void {
+    if (!this.started) return;
+
+    while (this.running.size < this.concurrency) {
+      const row = this.database.db.prepare(
+        `SELECT * FROM Job WHERE status = 'queued' ORDER BY createdAt, rowid LIMIT 1`
+      ).get() as any;
+      if (!row) return;
+
+      const job = mapJobRow(row);
+      const handler = this.handlers.get(job.type);
+      if (!handler) {
+        this.finish(job.id, 'failed', null, `No handler registered for '${job.type}' jobs`);
+        continue;
+      }
+
+      job.status = transitionJobStatus(job.status, 'running');
+      this.database.db.prepare(`UPDATE Job SET status = 'running', startedAt = datetime('now') WHERE id = ?`).run(job.id);
+      const controller = new AbortController();
+      this.running.set(job.id, controller);
+      void this.execute(job, handler, controller);
+    }
+  }
+
+  private async execute(job: Job, handler: JobHandler, controller: AbortController): Promise<void> {
+    const context: JobContext = {
+      signal: controller.signal,
+      reportProgress: (progress) => {
+        this.database.db.prepare('UPDATE Job SET progress = ? WHERE id = ?').run(JSON.stringify(progress), job.id);
+      },
+      setResourceId: (resourceId) => {
+        this.database.db.prepare('UPDATE Job SET resourceId = ? WHERE id = ?').run(resourceId, job.id);
+      },
+    };
+
+    // A handler that finishes despite a cancel request completes; one that stops early is cancelled
+    try {
+      const result = await handler.run(job, context);
+      this.finish(job.id, 'completed', result, null);
+    } catch (err: any) {
+      this.finish(job.id, controller.signal.aborted ? 'cancelled' : 'failed', null, err.message, err.code ?? null);
+    } finally {
+      this.running.delete(job.id);
+      this.pump();
+    }
+  }
+
+  private finish(
+    id: string, status: JobStatus, result: unknown, error: string | null, errorCode: string | null = null
+  ): void {
+    this.database.db.prepare(`
+      UPDATE Job SET status = ?, result = ?, error = ?, errorCode = ?, completedAt = datetime('now') WHERE id = ?
+    `).run(status, result === null || result === undefined ? null : JSON.stringify(result), error, errorCode, id);
+  }
+}
+
+function mapJobRow(row: any): Job {
+  return {
+    id: row.id,
+    type: row.type,
+    status: row.status,
+    payload: JSON.parse(row.payload),
+    resourceId: row.resourceId,
+    progress: JSON.parse(row.progress),
+    result: row.result ? JSON.parse(row.result) : null,
+    error: row.error,
+    errorCode: row.errorCode,
+    createdAt: row.createdAt,
+    startedAt: row.startedAt,
+    completedAt: row.completedAt,
+  };
+}
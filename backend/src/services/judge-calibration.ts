@@ -0,0 +1,190 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AppDatabase } from '../database';
+import { LLMService } from './llm-service';
+import { withLLMAttribution } from './llm-usage';
+import { ResultEvaluatorService } from './result-evaluator';
+import { mapSuccessCriterionRow } from './test-generator';
+import { isLLMJudged } from '../utils/assertions';
+import { computeAgreementMetrics, AgreementMetrics } from '../utils/calibration';
+import { AgentResponse, EvaluationConfig, SuccessCriterion } from '../types';
+
+/**
+ * A human-labelled criterion result together with everything needed to re-judge it.
+ */
+export interface CalibrationSample {
+  criterionResultId: string;
+  testRunId: string;
+  agentId: string;
+  criterion: SuccessCriterion;
+  agentResponses: AgentResponse[];
+  // Verdict stored by the original test run
+  judgePassed: boolean;
+  humanLabel: boolean;
+  humanLabelNote?: string;
+  labelledAt: string;
+}
+
+export interface CalibrationVerdict {
+  criterionResultId: string;
+  criterionId: string;
+  category: SuccessCriterion['category'];
+  humanLabel: boolean;
+  judgePassed: boolean;
+  explanation: string;
+}
+
+export interface CalibrationMetrics {
+  overall: AgreementMetrics;
+  byCategory: Partial<Record<SuccessCriterion['category'], AgreementMetrics>>;
+}
+
+export interface StoredCalibrationRun extends CalibrationMetrics {
+  id: string;
+  agentId: string | null;
+  evaluationConfig: EvaluationConfig;
+  sampleSize: number;
+  verdicts: CalibrationVerdict[];
+  createdAt: string;
+}
+
+/**
+ * Manages human gold labels on stored criterion results and re-judges the
+ * labelled set to measure how well a judge configuration agrees with QA.
+ */
+export class JudgeCalibrationService {
+  constructor(
+    private database: AppDatabase,
+    private llmService: LLMService
+  ) {}
+
+  /**
+   * Set or clear (`label` null) the human label on a criterion result.
+   * Returns false when the result does not exist.
+   */
+  setLabel(criterionResultId: string, label: boolean | null, note?: string): boolean {
+    const info = this.database.db.prepare(`
+      UPDATE CriterionResult SET humanLabel = ?, humanLabelNote = ?, labelledAt = ?
+      WHERE id = ?
+    `).run(
+      label === null ? null : label ? 1 : 0,
+      label === null ? null : note ?? null,
+      label === null ? null : new Date().toISOString(),
+      criterionResultId
+    );
+    return info.changes > 0;
+  }
+
+  /**
+   * Labelled results of LLM-judged criteria, optionally limited to one agent's runs.
+   * Deterministic assertions are left out since there is no judge to calibrate.
+   */
+  getCalibrationSet(agentId?: string): CalibrationSample[] {
+    const rows = this.database.db.prepare(`
+      SELECT sc.*, cr.id AS criterionResultId, cr.passed, cr.humanLabel, cr.humanLabelNote, cr.labelledAt,
+        tcr.testRunId, tcr.agentResponses, tr.agentId
+      FROM CriterionResult cr
+      JOIN TestCaseResult tcr ON cr.testCaseResultId = tcr.id
+      JOIN TestRun tr ON tcr.testRunId = tr.id
+      JOIN SuccessCriterion sc ON cr.criterionId = sc.id
+      WHERE cr.humanLabel IS NOT NULL AND (? IS NULL OR tr.agentId = ?)
+      ORDER BY cr.labelledAt
+    `).all(agentId ?? null, agentId ?? null) as any[];
+
+    return rows
+      .map(row => ({
+        criterionResultId: row.criterionResultId,
+        testRunId: row.testRunId,
+        agentId: row.agentId,
+        criterion: mapSuccessCriterionRow(row),
+        agentResponses: JSON.parse(row.agentResponses),
+        judgePassed: row.passed === 1,
+        humanLabel: row.humanLabel === 1,
+        humanLabelNote: row.humanLabelNote ?? undefined,
+        labelledAt: row.labelledAt,
+      }))
+      .filter(sample => isLLMJudged(sample.criterion));
+  }
+
+  /**
+   * Re-judge every sample with `evaluation` and store agreement with the human labels.
+   */
+  async runCalibration(
+    samples: CalibrationSample[],
+    evaluation: EvaluationConfig,
+    agentId?: string
+  ): Promise<StoredCalibrationRun> {
+    const evaluator = new ResultEvaluatorService(this.llmService, evaluation);
+    const verdicts: CalibrationVerdict[] = [];
+    for (const sample of samples) {
+      // Charged to the agent whose run the sample came from, so its usage totals and spend cap cover calibration
+      const result = await withLLMAttribution(
+        { agentId: sample.agentId },
+        () => evaluator.evaluateCriterion(sample.agentResponses, sample.criterion)
+      );
+      verdicts.push({
+        criterionResultId: sample.criterionResultId,
+        criterionId: sample.criterion.id,
+        category: sample.criterion.category,
+        humanLabel: sample.humanLabel,
+        judgePassed: result.passed,
+        explanation: result.explanation,
+      });
+    }
+
+    const metrics = this.computeMetrics(verdicts);
+    const id = uuidv4();
+    const createdAt = new Date().toISOString();
+    this.database.db.prepare(`
+      INSERT INTO CalibrationRun (id, agentId, evaluationConfig, sampleSize, metrics, verdicts, createdAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(id, agentId ?? null, JSON.stringify(evaluation), verdicts.length, JSON.stringify(metrics), JSON.stringify(verdicts), createdAt);
+
+    return {
+      id,
+      agentId: agentId ?? null,
+      evaluationConfig: evaluation,
+      sampleSize: verdicts.length,
+      ...metrics,
+      verdicts,
+      createdAt,
+    };
+  }
+
+  getCalibrationRun(id: string): StoredCalibrationRun | null {
+    const row = this.database.db.prepare('SELECT * FROM CalibrationRun WHERE id = ?').get(id) as any;
+    if (!row) return null;
+    return this.mapCalibrationRunRow(row);
+  }
+
+  listCalibrationRuns(agentId?: string): StoredCalibrationRun[] {
+    const rows = this.database.db.prepare(
+      'SELECT * FROM CalibrationRun WHERE (? IS NULL OR agentId = ?) ORDER BY createdAt DESC'
+    ).all(agentId ?? null, agentId ?? null) as any[];
+    return rows.map(row => this.mapCalibrationRunRow(row));
+  }
+
+  private computeMetrics(verdicts: CalibrationVerdict[]): CalibrationMetrics {
+    const byCategory: CalibrationMetrics['byCategory'] = {};
+    for (const category of new Set(verdicts.map(v => v.category))) {
+      byCategory[category] = computeAgreementMetrics(
+        verdicts.filter(v => v.category === category).map(v => ({ human: v.humanLabel, judge: v.judgePassed }))
+      );
+    }
+    return {
+      overall: computeAgreementMetrics(verdicts.map(v => ({ human: v.humanLabel, judge: v.judgePassed }))),
+      byCategory,
+    };
+  }
+
+  private mapCalibrationRunRow(row: any): StoredCalibrationRun {
+    return {
+      id: row.id,
+      agentId: row.agentId,
+      evaluationConfig: JSON.parse(row.evaluationConfig),
+      sampleSize: row.sampleSize,
+      ...JSON.parse(row.metrics),
+      verdicts: JSON.parse(row.verdicts),
+      createdAt: row.createdAt,
+    };
+  }
+}
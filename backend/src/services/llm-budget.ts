@@ -0,0 +1,85 @@
+import { AppDatabase } from '../database';
+import { BudgetExceededError, LLMCallGuard } from './llm-service';
+import { LLMUsageService, LLMCallAttribution, getLLMAttribution } from './llm-usage';
+import { LLMBudget, LLMOperation } from '../types';
+import { LLMBudgetScope, LLMSpend, findExhaustedLimit } from '../utils/llm-budget';
+import { PriceTable, DEFAULT_PRICES, findModelPrice } from '../utils/llm-pricing';
+
+/**
+ * Enforces spend caps before every provider call: the global budget, the
+ * budget of the agent the call is for, and that of the cycle making it. A
+ * call is refused once recorded spend reaches a cap, so the call in flight
+ * when it is crossed may overshoot it. Calls to models missing from the price
+ * table are refused under a USD cap, which could not count them.
+ */
+export class LLMBudgetService implements LLMCallGuard {
+  private usage: LLMUsageService;
+  // Spend of every call recorded up to `lastRowid`, topped up from the calls recorded since
+  private globalSpend: LLMSpend & { lastRowid: number } = { cost: 0, tokens: 0, lastRowid: 0 };
+
+  constructor(
+    private database: AppDatabase,
+    private globalBudget: LLMBudget | null = null,
+    private prices: PriceTable = DEFAULT_PRICES
+  ) {
+    this.usage = new LLMUsageService(database);
+  }
+
+  checkCall(_operation: LLMOperation, model: string): void {
+    const { agentId, cycleId } = getLLMAttribution();
+    this.enforce('global', this.globalBudget, () => this.getGlobalSpend(), model);
+    if (agentId) this.enforce('agent', this.getAgentBudget(agentId), () => this.getSpend({ agentId }), model);
+    if (cycleId) this.enforce('cycle', this.getCycleBudget(cycleId), () => this.getSpend({ cycleId }), model);
+  }
+
+  getAgentBudget(agentId: string): LLMBudget | null {
+    const row = this.database.db.prepare('SELECT budget FROM Agent WHERE id = ?').get(agentId) as any;
+    return row?.budget ? JSON.parse(row.budget) : null;
+  }
+
+  // null removes the agent's cap
+  setAgentBudget(agentId: string, budget: LLMBudget | null): void {
+    this.database.db.prepare(`UPDATE Agent SET budget = ?, updatedAt = datetime('now') WHERE id = ?`)
+      .run(budget ? JSON.stringify(budget) : null, agentId);
+  }
+
+  getSpend(filter: LLMCallAttribution): LLMSpend {
+    const totals = this.usage.getTotals(filter);
+    return { cost: totals.cost, tokens: totals.promptTokens + totals.completionTokens };
+  }
+
+  // Only the calls recorded since the last check are read, so the global cap does not rescan every call
+  private getGlobalSpend(): LLMSpend {
+    const row = this.database.db.prepare(`
+      SELECT TOTAL(cost) AS cost, TOTAL(promptTokens + completionTokens) AS tokens, MAX(rowid) AS lastRowid
+      FROM LLMCall WHERE rowid > ?
+    `).get(this.globalSpend.lastRowid) as any;
+    if (row.lastRowid !== null) {
+      this.globalSpend = {
+        cost: this.globalSpend.cost + row.cost,
+        tokens: this.globalSpend.tokens + row.tokens,
+        lastRowid: row.lastRowid,
+      };
+    }
+    return { cost: this.globalSpend.cost, tokens: this.globalSpend.tokens };
+  }
+
+  private getCycleBudget(cycleId: string): LLMBudget | null {
+    const row = this.database.db.prepare('SELECT config FROM CycleRecord WHERE id = ?').get(cycleId) as any;
+    return row?.config ? JSON.parse(row.config).budget ?? null : null;
+  }
+
+  private enforce(scope: LLMBudgetScope, budget: LLMBudget | null, getSpend: () => LLMSpend, model: string): void {
+    if (!budget) return;
+    if (budget.maxCost !== undefined && !findModelPrice(this.prices, model)) {
+      throw new BudgetExceededError(
+        scope,
+        `LLM ${scope} budget is capped in USD but model "${model}" has no price; add it to LLM_PRICES_PATH`
+      );
+    }
+    const limit = findExhaustedLimit(budget, getSpend());
+    if (limit) {
+      throw new BudgetExceededError(scope, `LLM ${scope} budget exhausted: ${limit}`);
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { AppDatabase } from '../database';
+import { LLMResponseCache } from './llm-service';
+import { LLMOperation } from '../types';
+import { LLMCacheConfig, LLMCacheKeyParts, hashLLMRequest } from '../utils/llm-cache';
+
+const bypassScope = new AsyncLocalStorage<boolean>();
+
+/**
+ * Make every LLM call `fn` makes go to the provider, however deeply nested.
+ * The fresh responses replace what was cached.
+ */
+export function withLLMCacheBypass<T>(fn: () => Promise<T>): Promise<T> {
+  return bypassScope.run(true, fn);
+}
+
+export interface LLMCacheBreakdown {
+  // Unexpired entries
+  entries: number;
+  hits: number;
+  // Responses fetched from the provider and stored, including on a bypass
+  misses: number;
+}
+
+export interface LLMCacheStats extends LLMCacheBreakdown {
+  enabled: boolean;
+  operations: LLMOperation[];
+  ttlSeconds: number | null;
+  // hits / (hits + misses); 0 before any cached call
+  hitRate: number;
+  byOperation: Partial<Record<LLMOperation, LLMCacheBreakdown>>;
+}
+
+/**
+ * SQLite-backed response cache for the operations enabled in its config.
+ * With no config it caches nothing but still reports and clears old entries.
+ */
+export class LLMCacheService implements LLMResponseCache {
+  constructor(
+    private database: AppDatabase,
+    private config: LLMCacheConfig | null = null
+  ) {}
+
+  lookup(request: LLMCacheKeyParts): string | null {
+    if (!this.isCached(request.operation) || bypassScope.getStore()) return null;
+
+    const key = hashLLMRequest(request);
+    const row = this.database.db.prepare(
+      `SELECT response FROM LLMCacheEntry WHERE key = ? AND expiresAt > datetime('now')`
+    ).get(key) as any;
+    if (!row) return null;
+
+    this.database.db.prepare(`UPDATE LLMCacheEntry SET hits = hits + 1, lastHitAt = datetime('now') WHERE key = ?`)
+      .run(key);
+    return row.response;
+  }
+
+  store(request: LLMCacheKeyParts, content: string): void {
+    if (!this.config || !this.isCached(request.operation)) return;
+
+    this.database.db.prepare(`
+      INSERT INTO LLMCacheEntry (key, operation, model, response, misses, createdAt, expiresAt)
+      VALUES (?, ?, ?, ?, 1, datetime('now'), datetime('now', ?))
+      ON CONFLICT (key) DO UPDATE SET
+        response = excluded.response, misses = misses + 1, createdAt = excluded.createdAt, expiresAt = excluded.expiresAt
+    `).run(hashLLMRequest(request), request.operation, request.model, content, `+${this.config.ttlSeconds} seconds`);
+  }
+
+  getStats(): LLMCacheStats {
+    const rows = this.database.db.prepare(`
+      SELECT operation, SUM(expiresAt > datetime('now')) AS entries, SUM(hits) AS hits, SUM(misses) AS misses
+      FROM LLMCacheEntry
+      GROUP BY operation
+    `).all() as any[];
+
+    const stats: LLMCacheStats = {
+      enabled: this.config !== null,
+      operations: this.config?.operations ?? [],
+      ttlSeconds: this.config?.ttlSeconds ?? null,
+      entries: 0, hits: 0, misses: 0, hitRate: 0,
+      byOperation: {},
+    };
+    for (const row of rows) {
+      stats.entries += row.entries;
+      stats.hits += row.hits;
+      stats.misses += row.misses;
+      stats.byOperation[row.operation as LLMOperation] = { entries: row.entries, hits: row.hits, misses: row.misses };
+    }
+    if (stats.hits + stats.misses > 0) {
+      stats.hitRate = stats.hits / (stats.hits + stats.misses);
+    }
+    return stats;
+  }
+
+  /**
+   * Drop cached responses, optionally only those of one operation. Returns how many were removed.
+   */
+  clear(operation?: LLMOperation): number {
+    return operation
+      ? this.database.db.prepare('DELETE FROM LLMCacheEntry WHERE operation = ?').run(operation).changes
+      : this.database.db.prepare('DELETE FROM LLMCacheEntry').run().changes;
+  }
+
+  private isCached(operation: LLMOperation): boolean {
+    return this.config !== null && this.config.operations.includes(operation);
+  }
+}
@@ -0,0 +1,142 @@
+import { appendFileSync, readFileSync, writeFileSync } from 'fs';
+import { LLMServiceRoute } from './llm-service';
+import { ChatCompletion, ChatProvider, ChatRequest } from './llm-provider';
+import { LLMOperation } from '../types';
+import { LLM_OPERATIONS } from '../utils/llm-config';
+import {
+  LLM_CASSETTE_VERSION,
+  LLMCassetteHeader,
+  LLMCassetteInteraction,
+  cassetteKey,
+  parseCassette,
+} from '../utils/llm-cassette';
+
+/**
+ * A replayed run asked for a response the cassette does not hold, so it has
+ * diverged from the recording. Not retried.
+ */
+export class CassetteMismatchError extends Error {
+  readonly code = 'CASSETTE_MISMATCH';
+  readonly retryable = false;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+/**
+ * Passes requests to the real provider and appends each successful
+ * request/response pair to the cassette.
+ */
+export class RecordingChatProvider implements ChatProvider {
+  readonly name: string;
+
+  constructor(private inner: ChatProvider, private path: string) {
+    this.name = inner.name;
+  }
+
+  async complete(request: ChatRequest): Promise<ChatCompletion> {
+    const completion = await this.inner.complete(request);
+    const { model, temperature, jsonMode, messages } = request;
+    const interaction: LLMCassetteInteraction = {
+      key: cassetteKey(this.name, request),
+      provider: this.name,
+      model,
+      temperature,
+      jsonMode,
+      messages,
+      content: completion.content,
+      usage: completion.usage,
+    };
+    appendFileSync(this.path, JSON.stringify(interaction) + '\n');
+    return completion;
+  }
+}
+
+/**
+ * Serves recorded responses in place of a provider. Identical requests get
+ * their recorded responses in order; one more than was recorded is a mismatch.
+ */
+export class ReplayChatProvider implements ChatProvider {
+  constructor(
+    readonly name: string,
+    // Recorded interactions by key, shared by every provider replaying the same cassette
+    private tape: Map<string, LLMCassetteInteraction[]>
+  ) {}
+
+  async complete(request: ChatRequest): Promise<ChatCompletion> {
+    const key = cassetteKey(this.name, request);
+    const interaction = this.tape.get(key)?.shift();
+    if (!interaction) {
+      throw new CassetteMismatchError(
+        `No recorded ${this.name}/${request.model} response left for this request (key ${key.slice(0, 12)}); ` +
+        'the replay has diverged from the recording'
+      );
+    }
+    return { content: interaction.content, usage: interaction.usage, replayed: true };
+  }
+}
+
+/**
+ * Start a fresh cassette at `path` and wrap every route's provider so its
+ * calls are recorded to it.
+ */
+export function recordLLMCassette(
+  path: string,
+  routes: Record<LLMOperation, LLMServiceRoute>
+): Record<LLMOperation, LLMServiceRoute> {
+  const header: LLMCassetteHeader = {
+    version: LLM_CASSETTE_VERSION,
+    recordedAt: new Date().toISOString(),
+    routes: {} as LLMCassetteHeader['routes'],
+  };
+  for (const op of LLM_OPERATIONS) {
+    header.routes[op] = { provider: routes[op].provider.name, model: routes[op].model };
+  }
+  writeFileSync(path, JSON.stringify(header) + '\n');
+
+  // One recorder per provider, however many operations share it
+  const recorders = new Map<ChatProvider, RecordingChatProvider>();
+  const recorded = {} as Record<LLMOperation, LLMServiceRoute>;
+  for (const op of LLM_OPERATIONS) {
+    const { provider, model } = routes[op];
+    if (!recorders.has(provider)) {
+      recorders.set(provider, new RecordingChatProvider(provider, path));
+    }
+    recorded[op] = { provider: recorders.get(provider)!, model };
+  }
+  return recorded;
+}
+
+/**
+ * Routes that serve the cassette at `path` as recorded, needing no provider
+ * config, API keys or network.
+ */
+export function replayLLMCassette(path: string): Record<LLMOperation, LLMServiceRoute> {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf-8');
+  } catch (err: any) {
+    throw new Error(`Failed to read LLM cassette from ${path}: ${err.message}`);
+  }
+  const { header, interactions } = parseCassette(text);
+
+  const tape = new Map<string, LLMCassetteInteraction[]>();
+  for (const interaction of interactions) {
+    const queue = tape.get(interaction.key);
+    if (queue) queue.push(interaction);
+    else tape.set(interaction.key, [interaction]);
+  }
+
+  const providers = new Map<string, ReplayChatProvider>();
+  const routes = {} as Record<LLMOperation, LLMServiceRoute>;
+  for (const op of LLM_OPERATIONS) {
+    const { provider: name, model } = header.routes[op];
+    if (!providers.has(name)) {
+      providers.set(name, new ReplayChatProvider(name, tape));
+    }
+    routes[op] = { provider: providers.get(name)!, model };
+  }
+  return routes;
+}
@@ -0,0 +1,170 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+
+/**
+ * A chat message in the provider-neutral shape every provider accepts.
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  // Ask for a JSON object; providers without a JSON mode rely on the prompt alone
+  jsonMode: boolean;
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ChatCompletion {
+  content: string;
+  // Omitted by servers that do not report token counts
+  usage?: TokenUsage;
+  // Served from a cassette, so the tokens were paid for when it was recorded
+  replayed?: boolean;
+}
+
+/**
+ * One chat completion backend (OpenAI, Azure OpenAI, Anthropic, or any
+ * OpenAI-compatible server).
+ */
+export interface ChatProvider {
+  readonly name: string;
+  complete(request: ChatRequest): Promise<ChatCompletion>;
+}
+
+// --- OpenAI-compatible providers ---
+
+export interface OpenAIProviderConfig {
+  apiKey?: string;
+  // Any OpenAI-compatible server, e.g. a local llama.cpp or Ollama endpoint
+  baseUrl?: string;
+  // Servers that reject `response_format` can turn it off
+  jsonMode?: boolean;
+}
+
+/**
+ * Chat completions through the OpenAI SDK: api.openai.com, an
+ * OpenAI-compatible base URL, or Azure OpenAI.
+ */
+export class OpenAIChatProvider implements ChatProvider {
+  constructor(
+    readonly name: string,
+    private client: OpenAI,
+    // Send `response_format` when a request asks for JSON
+    private jsonMode = true
+  ) {}
+
+  async complete(request: ChatRequest): Promise<ChatCompletion> {
+    const response = await this.client.chat.completions.create(
+      {
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        ...(request.jsonMode && this.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+      },
+      { signal: request.signal }
+    );
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('LLM returned empty response');
+    }
+    const { usage } = response;
+    return {
+      content,
+      usage: usage ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens } : undefined,
+    };
+  }
+}
+
+export function createOpenAIChatProvider(name: string, config: OpenAIProviderConfig): ChatProvider {
+  // Local servers usually ignore the key, but the SDK refuses to start without one
+  const client = new OpenAI({ apiKey: config.apiKey ?? 'not-needed', baseURL: config.baseUrl });
+  return new OpenAIChatProvider(name, client, config.jsonMode ?? true);
+}
+
+export interface AzureProviderConfig {
+  apiKey: string;
+  endpoint: string;
+  apiVersion: string;
+}
+
+/**
+ * Azure OpenAI; the request's model is the deployment name.
+ */
+export function createAzureChatProvider(name: string, config: AzureProviderConfig): ChatProvider {
+  return new OpenAIChatProvider(
+    name,
+    new AzureOpenAI({ apiKey: config.apiKey, endpoint: config.endpoint, apiVersion: config.apiVersion })
+  );
+}
+
+// --- Anthropic ---
+
+export const DEFAULT_ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_VERSION = '2023-06-01';
+const ANTHROPIC_MAX_TOKENS = 4096;
+
+export interface AnthropicProviderConfig {
+  apiKey: string;
+  baseUrl?: string;
+}
+
+interface AnthropicResponseBody {
+  content?: { type: string; text?: string }[];
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+/**
+ * Anthropic's Messages API. System messages move to the `system` field; it
+ * has no JSON mode, so JSON output relies on the prompt's instructions.
+ */
+export class AnthropicChatProvider implements ChatProvider {
+  private baseUrl: string;
+
+  constructor(readonly name: string, private config: AnthropicProviderConfig) {
+    this.baseUrl = (config.baseUrl ?? DEFAULT_ANTHROPIC_BASE_URL).replace(/\/+$/, '');
+  }
+
+  async complete(request: ChatRequest): Promise<ChatCompletion> {
+    const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const res = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.config.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: ANTHROPIC_MAX_TOKENS,
+        temperature: request.temperature,
+        ...(system ? { system } : {}),
+        messages: request.messages.filter(m => m.role !== 'system'),
+      }),
+      signal: request.signal,
+    });
+
+    const text = await res.text();
+    if (!res.ok) {
+      throw new Error(`Anthropic request failed (${res.status}): ${text.slice(0, 200)}`);
+    }
+    const body = JSON.parse(text) as AnthropicResponseBody;
+    const content = (body.content ?? []).filter(block => block.type === 'text').map(block => block.text ?? '').join('');
+    if (!content) {
+      throw new Error('LLM returned empty response');
+    }
+    const { usage } = body;
+    return {
+      content,
+      usage: usage ? { promptTokens: usage.input_tokens, completionTokens: usage.output_tokens } : undefined,
+    };
+  }
+}
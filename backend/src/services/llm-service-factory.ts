@@ -1,9 +1,37 @@
-import { LLMService, OpenAILLMService } from './llm-service';
-import { PromptAnalysis, TestCase, SuccessCriterion, CriterionResult, OptimizationResult } from '../types';
+import { readFileSync } from 'fs';
+import { LLMService, ChatLLMService, LLMServiceRoute, LLMServiceHooks } from './llm-service';
+import { ChatProvider, AnthropicChatProvider, createAzureChatProvider, createOpenAIChatProvider } from './llm-provider';
+import {
+  PromptAnalysis,
+  TestCase,
+  SuccessCriterion,
+  CriterionResult,
+  OptimizationResult,
+  ConversationMessage,
+  CallerPersona,
+  CallerTurn,
+  OptimizationCandidateConfig,
+  LLMOperation,
+} from '../types';
+import { rubricMaxScore } from '../utils/rubric';
+import {
+  LLMConfig,
+  LLMProviderConfig,
+  LLM_OPERATIONS,
+  DEFAULT_AZURE_API_VERSION,
+  validateLLMConfig,
+  resolveLLMRoutes,
+  resolveApiKey,
+  llmConfigFromEnv,
+} from '../utils/llm-config';
+import { PriceTable, DEFAULT_PRICES, validatePriceTable } from '../utils/llm-pricing';
+import { llmCassetteConfigFromEnv } from '../utils/llm-cassette';
+import { recordLLMCassette, replayLLMCassette } from './llm-cassette';
+import { HookedLLMService } from './hooked-llm-service';
 
 /**
  * Mock LLM service that returns deterministic responses for testing
- * and environments without an OpenAI API key.
+ * and environments without a configured LLM provider.
  */
 export class MockLLMService implements LLMService {
   async analyzePrompt(prompt: string): Promise<PromptAnalysis> {
@@ -39,15 +67,25 @@ export class MockLLMService implements LLMService {
         successCriteria: [
           {
             id: 'sc-1-1',
-            description: 'Agent greets the caller politely',
+            description: 'Agent greets the caller politely on the first turn',
             category: 'behavioral',
             evaluationPrompt: 'Does the agent greet the caller in a polite and professional manner?',
+            turnSelector: { scope: 'first' },
           },
           {
             id: 'sc-1-2',
-            description: 'Agent collects caller name',
+            description: 'Agent collects caller name by turn 2',
             category: 'functional',
             evaluationPrompt: 'Does the agent ask for or acknowledge the caller\'s name?',
+            turnSelector: { scope: 'by-turn', turn: 2 },
+          },
+          {
+            id: 'sc-1-3',
+            description: 'Agent keeps each reply under 40 words',
+            category: 'behavioral',
+            evaluationPrompt: '',
+            assertion: { type: 'max-words', limit: 40 },
+            severity: 'minor',
           },
         ],
       },
@@ -66,6 +104,14 @@ export class MockLLMService implements LLMService {
             category: 'functional',
             evaluationPrompt: 'Does the agent provide information about available services?',
           },
+          {
+            id: 'sc-2-2',
+            description: 'Agent never quotes a price',
+            category: 'compliance',
+            evaluationPrompt: '',
+            assertion: { type: 'not-contains', value: '$' },
+            severity: 'critical',
+          },
         ],
       },
       {
@@ -107,6 +153,15 @@ export class MockLLMService implements LLMService {
             description: 'Agent maintains polite tone when handling off-topic questions',
             category: 'behavioral',
             evaluationPrompt: 'Does the agent remain polite and professional when the caller asks off-topic questions?',
+            rubric: {
+              levels: [
+                'Rude, dismissive or sarcastic',
+                'Neutral but curt; the caller may feel brushed off',
+                'Polite but awkward or robotic',
+                'Warm, polite and professional throughout',
+              ],
+              passThreshold: 2,
+            },
           },
           {
             id: 'sc-4-2',
@@ -163,27 +218,74 @@ export class MockLLMService implements LLMService {
           },
         ],
       },
+      {
+        id: 'tc-7',
+        scenarioDescription: 'Adversarial: Impatient caller wants the earliest available appointment and reacts to the agent',
+        scenarioType: 'adversarial',
+        kind: 'persona',
+        persona: {
+          goal: 'Book the earliest available appointment',
+          knownFacts: ['Name is Maria Lopez', 'Email is maria.lopez@example.com', 'Free any weekday morning'],
+          temperament: 'Impatient and terse',
+          giveUpCondition: 'The agent asks for the same information twice',
+          maxTurns: 6,
+        },
+        userInputSequence: [],
+        successCriteria: [
+          {
+            id: 'sc-7-1',
+            description: 'Agent books an appointment without repeating questions',
+            category: 'functional',
+            evaluationPrompt: 'Does the agent move the caller to a booked appointment without asking for the same information twice?',
+          },
+        ],
+      },
     ];
 
     return testCases;
   }
 
   async evaluateCriterion(_response: string, criterion: SuccessCriterion): Promise<CriterionResult> {
+    if (criterion.rubric) {
+      const maxScore = rubricMaxScore(criterion.rubric);
+      return { criterionId: criterion.id, passed: true, explanation: 'Mock evaluation passed', score: maxScore, maxScore };
+    }
     return { criterionId: criterion.id, passed: true, explanation: 'Mock evaluation passed' };
   }
 
   async optimizePrompt(
     original: string,
     _failures: CriterionResult[],
-    _passes: CriterionResult[]
+    _passes: CriterionResult[],
+    candidate: OptimizationCandidateConfig = {}
   ): Promise<OptimizationResult> {
     return {
       originalPrompt: original,
-      revisedPrompt: original + '\n[optimized]',
+      revisedPrompt: original + (candidate.focus ? `\n[optimized: ${candidate.focus}]` : '\n[optimized]'),
       changes: [],
       targetedFailures: [],
     };
   }
+
+  async simulateAgentResponse(_agentPrompt: string, conversation: ConversationMessage[]): Promise<string> {
+    const lastUserMessage = [...conversation].reverse().find(m => m.role === 'user');
+    const isFirstReply = !conversation.some(m => m.role === 'agent');
+    const greeting = isFirstReply ? 'Hello, thank you for calling! ' : '';
+    return `${greeting}I heard: "${lastUserMessage?.content ?? ''}" How else can I help you today?`;
+  }
+
+  async simulateCallerTurn(persona: CallerPersona, conversation: ConversationMessage[]): Promise<CallerTurn> {
+    // Open with the goal, then share one known fact per turn until none are left
+    const callerTurns = conversation.filter(m => m.role === 'user').length;
+    if (callerTurns === 0) {
+      return { status: 'continue', utterance: `Hi, I'd like to ${persona.goal.charAt(0).toLowerCase()}${persona.goal.slice(1)}.` };
+    }
+    const fact = persona.knownFacts[callerTurns - 1];
+    if (fact) {
+      return { status: 'continue', utterance: `${fact}.` };
+    }
+    return { status: 'goal-reached', utterance: '' };
+  }
 }
 
 let overriddenLLMService: LLMService | null = null;
@@ -196,18 +298,123 @@ export function setLLMService(service: LLMService | null): void {
 }
 
 /**
- * Create or return the LLM service.
- * Uses OpenAI when OPENAI_API_KEY is set, otherwise falls back to MockLLMService.
+ * Create or return the LLM service. Providers and per-operation routes come
+ * from the JSON file at LLM_CONFIG_PATH, or else from environment variables
+ * (see `llmConfigFromEnv`); with neither, falls back to MockLLMService.
+ * `hooks` record, cap and cache its provider calls, or the mock's calls.
+ *
+ * With LLM_CASSETTE=record every provider call is also saved to the cassette
+ * at LLM_CASSETTE_PATH; with LLM_CASSETTE=replay that cassette stands in for
+ * the providers. The response cache is off in both modes, so every call
+ * reaches the cassette.
  */
-export function getLLMService(): LLMService {
+export function getLLMService(hooks: LLMServiceHooks = {}): LLMService {
   if (overriddenLLMService) {
     return overriddenLLMService;
   }
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (apiKey) {
-    return new OpenAILLMService({ apiKey });
+  const cassette = llmCassetteConfigFromEnv(process.env);
+  if (cassette?.mode === 'replay') {
+    return new ChatLLMService({ routes: replayLLMCassette(cassette.path), ...hooks, cache: undefined });
+  }
+
+  const config = loadLLMConfig();
+  if (cassette?.mode === 'record') {
+    if (!config) {
+      throw new Error('LLM_CASSETTE=record needs an LLM provider; the mock LLM service is not recorded');
+    }
+    const routes = recordLLMCassette(cassette.path, createLLMRoutes(config, process.env));
+    return new ChatLLMService({ routes, ...hooks, cache: undefined });
   }
+  return config ? createLLMService(config, process.env, hooks) : new HookedLLMService(new MockLLMService(), hooks);
+}
 
-  return new MockLLMService();
+/**
+ * Build an LLM service from a provider config.
+ */
+export function createLLMService(
+  config: LLMConfig,
+  env: Record<string, string | undefined>,
+  hooks: LLMServiceHooks = {}
+): LLMService {
+  return new ChatLLMService({ routes: createLLMRoutes(config, env), ...hooks });
+}
+
+/**
+ * The provider and model of every operation, creating each provider once
+ * however many operations are routed to it.
+ */
+function createLLMRoutes(
+  config: LLMConfig,
+  env: Record<string, string | undefined>
+): Record<LLMOperation, LLMServiceRoute> {
+  validateLLMConfig(config);
+  const resolved = resolveLLMRoutes(config);
+
+  const providers = new Map<string, ChatProvider>();
+  const routes = {} as Record<LLMOperation, LLMServiceRoute>;
+  for (const op of LLM_OPERATIONS) {
+    const { provider: name, model } = resolved[op];
+    if (!providers.has(name)) {
+      providers.set(name, createChatProvider(name, config.providers[name], env));
+    }
+    routes[op] = { provider: providers.get(name)!, model };
+  }
+  return routes;
+}
+
+/**
+ * The default price table, with entries from the JSON file at LLM_PRICES_PATH
+ * (USD per million input/output tokens, keyed by model) taking precedence.
+ */
+export function loadPriceTable(): PriceTable {
+  const path = process.env.LLM_PRICES_PATH;
+  if (!path) {
+    return DEFAULT_PRICES;
+  }
+
+  let prices: PriceTable;
+  try {
+    prices = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (err: any) {
+    throw new Error(`Failed to read LLM prices from ${path}: ${err.message}`);
+  }
+  validatePriceTable(prices);
+  return { ...DEFAULT_PRICES, ...prices };
+}
+
+function loadLLMConfig(): LLMConfig | null {
+  const path = process.env.LLM_CONFIG_PATH;
+  if (!path) {
+    return llmConfigFromEnv(process.env);
+  }
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (err: any) {
+    throw new Error(`Failed to read LLM config from ${path}: ${err.message}`);
+  }
+}
+
+function createChatProvider(
+  name: string,
+  config: LLMProviderConfig,
+  env: Record<string, string | undefined>
+): ChatProvider {
+  const apiKey = resolveApiKey(name, config, env);
+
+  switch (config.type) {
+    case 'openai':
+    case 'openai-compatible':
+      return createOpenAIChatProvider(name, { apiKey, baseUrl: config.baseUrl, jsonMode: config.jsonMode });
+
+    case 'azure':
+      return createAzureChatProvider(name, {
+        apiKey: apiKey!,
+        endpoint: config.endpoint!,
+        apiVersion: config.apiVersion ?? DEFAULT_AZURE_API_VERSION,
+      });
+
+    case 'anthropic':
+      return new AnthropicChatProvider(name, { apiKey: apiKey!, baseUrl: config.baseUrl });
+  }
 }
@@ -1,41 +1,138 @@
-import OpenAI from 'openai';
 import {
   PromptAnalysis,
   TestCase,
   SuccessCriterion,
   CriterionResult,
   OptimizationResult,
+  ConversationMessage,
+  CallerPersona,
+  CallerTurn,
+  CriterionRubric,
+  JudgeConfig,
+  OptimizationCandidateConfig,
+  LLMOperation,
 } from '../types';
-import { PROMPT_TEMPLATES } from './prompt-templates';
+import { ChatMessage, ChatProvider } from './llm-provider';
+import { PROMPT_TEMPLATES, JUDGE_GUIDANCE } from './prompt-templates';
+import { rubricMaxScore, normalizeRubricScore, formatRubricLevels } from '../utils/rubric';
+import { LLMBudgetScope } from '../utils/llm-budget';
+import { LLMCacheKeyParts } from '../utils/llm-cache';
 
 // --- LLM Service Interface ---
 
 export interface LLMService {
   analyzePrompt(prompt: string): Promise<PromptAnalysis>;
   generateTestCases(analysis: PromptAnalysis): Promise<TestCase[]>;
-  evaluateCriterion(response: string, criterion: SuccessCriterion): Promise<CriterionResult>;
+  /**
+   * Judge one criterion. `judge` picks the model, temperature and prompt
+   * variant for panel evaluations; omitted fields use the service defaults.
+   */
+  evaluateCriterion(response: string, criterion: SuccessCriterion, judge?: JudgeConfig): Promise<CriterionResult>;
+  /**
+   * Revise a prompt to fix `failures` while keeping `passes`. `candidate` sets
+   * the temperature and focus area when generating tournament candidates.
+   */
   optimizePrompt(
     original: string,
     failures: CriterionResult[],
-    passes: CriterionResult[]
+    passes: CriterionResult[],
+    candidate?: OptimizationCandidateConfig
   ): Promise<OptimizationResult>;
+  /**
+   * Role-play the agent described by `agentPrompt` and return its next spoken reply.
+   * `conversation` is the full history so far and ends with the caller's latest message.
+   */
+  simulateAgentResponse(agentPrompt: string, conversation: ConversationMessage[]): Promise<string>;
+  /**
+   * Role-play the caller described by `persona` and decide their next move
+   * given the conversation so far (empty before the first turn).
+   */
+  simulateCallerTurn(persona: CallerPersona, conversation: ConversationMessage[]): Promise<CallerTurn>;
 }
 
 // --- Configuration ---
 
+/**
+ * The provider and model one operation is sent to.
+ */
+export interface LLMServiceRoute {
+  provider: ChatProvider;
+  model: string;
+}
+
+// Where a call was answered from when the provider was not asked
+export type LLMCallSource = 'cache' | 'cassette';
+
+/**
+ * One provider call, for usage and cost accounting. Tokens are 0 when the
+ * provider reports no usage.
+ */
+export interface LLMCallUsage {
+  operation: LLMOperation;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  // Set for failed attempts, which are recorded too
+  error?: string;
+  // Set for calls served without the provider; they cost nothing
+  source?: LLMCallSource;
+}
+
+export interface LLMCallRecorder {
+  recordCall(call: LLMCallUsage): void;
+}
+
+/**
+ * Refused an LLM call because a spend cap has been reached. Not retried.
+ */
+export class BudgetExceededError extends Error {
+  readonly code = 'BUDGET_EXCEEDED';
+  readonly retryable = false;
+
+  constructor(readonly scope: LLMBudgetScope, message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Consulted before every provider call to `model`; throws BudgetExceededError to refuse it.
+ */
+export interface LLMCallGuard {
+  checkCall(operation: LLMOperation, model: string): void;
+}
+
+/**
+ * Serves repeated requests without calling the provider. `lookup` returns
+ * null on a miss or when the request is not to be served from cache.
+ */
+export interface LLMResponseCache {
+  lookup(request: LLMCacheKeyParts): string | null;
+  store(request: LLMCacheKeyParts, content: string): void;
+}
+
 export interface LLMServiceConfig {
-  apiKey: string;
-  model?: string;
+  routes: Record<LLMOperation, LLMServiceRoute>;
+  // Told about every provider call, including each retry
+  recorder?: LLMCallRecorder;
+  guard?: LLMCallGuard;
+  cache?: LLMResponseCache;
   maxRetries?: number;
   initialRetryDelayMs?: number;
   timeoutMs?: number;
 }
 
+// Accounting, spend caps and caching around every provider call
+export type LLMServiceHooks = Pick<LLMServiceConfig, 'recorder' | 'guard' | 'cache'>;
+
 const DEFAULT_CONFIG = {
-  model: 'gpt-4',
   maxRetries: 3,
   initialRetryDelayMs: 1000,
   timeoutMs: 30000,
+  simulationTemperature: 0.7,
+  defaultTemperature: 0.2,
 } as const;
 
 // --- Retry & Parsing Utilities (exported for testing) ---
@@ -58,6 +155,15 @@ export function parseJsonResponse<T>(raw: string): T {
   }
 }
 
+function canParseJson(raw: string): boolean {
+  try {
+    parseJsonResponse(raw);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   maxRetries: number,
@@ -70,6 +176,10 @@ export async function retryWithBackoff<T>(
       return await fn();
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
+      // Errors marked non-retryable, such as a refused budget, would fail the same way again
+      if ((lastError as { retryable?: boolean }).retryable === false) {
+        throw lastError;
+      }
       if (attempt < maxRetries) {
         const delay = initialDelayMs * Math.pow(2, attempt);
         await sleepFn(delay);
@@ -87,54 +197,99 @@ function fillTemplate(template: string, vars: Record<string, string>): string {
   return result;
 }
 
-// --- OpenAI Implementation ---
+// --- Chat Provider Implementation ---
 
-export class OpenAILLMService implements LLMService {
-  private client: OpenAI;
-  private model: string;
+/**
+ * Sends each operation to the provider and model it is routed to. A judge's
+ * `model` overrides the model on the judging provider.
+ */
+export class ChatLLMService implements LLMService {
+  private routes: Record<LLMOperation, LLMServiceRoute>;
+  private recorder?: LLMCallRecorder;
+  private guard?: LLMCallGuard;
+  private cache?: LLMResponseCache;
   private maxRetries: number;
   private initialRetryDelayMs: number;
   private timeoutMs: number;
 
   constructor(config: LLMServiceConfig) {
-    this.client = new OpenAI({ apiKey: config.apiKey });
-    this.model = config.model ?? DEFAULT_CONFIG.model;
+    this.routes = config.routes;
+    this.recorder = config.recorder;
+    this.guard = config.guard;
+    this.cache = config.cache;
     this.maxRetries = config.maxRetries ?? DEFAULT_CONFIG.maxRetries;
     this.initialRetryDelayMs = config.initialRetryDelayMs ?? DEFAULT_CONFIG.initialRetryDelayMs;
     this.timeoutMs = config.timeoutMs ?? DEFAULT_CONFIG.timeoutMs;
   }
 
-  private async callLLM(systemPrompt: string): Promise<string> {
+  private async callLLM(systemPrompt: string, operation: LLMOperation, judge: JudgeConfig = {}): Promise<string> {
+    return this.callChat(
+      [
+        { role: 'system', content: 'You are a helpful assistant that always responds with valid JSON.' },
+        { role: 'user', content: systemPrompt },
+      ],
+      operation,
+      judge.temperature ?? DEFAULT_CONFIG.defaultTemperature,
+      true,
+      judge.model
+    );
+  }
+
+  private async callChat(
+    messages: ChatMessage[],
+    operation: LLMOperation,
+    temperature: number,
+    jsonMode: boolean,
+    model?: string
+  ): Promise<string> {
+    const route = this.routes[operation];
+    const call = { operation, provider: route.provider.name, model: model ?? route.model };
+    // A cached response costs nothing, so it is served even past a spend cap
+    const cacheRequest: LLMCacheKeyParts = { operation, model: call.model, temperature, jsonMode, messages };
+    const cached = this.cache ? this.cache.lookup(cacheRequest) : null;
+    if (cached !== null) {
+      this.recorder?.recordCall({ ...call, promptTokens: 0, completionTokens: 0, latencyMs: 0, source: 'cache' });
+      return cached;
+    }
+
+    this.guard?.checkCall(operation, call.model);
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    const startedAt = Date.now();
 
     try {
-      const response = await this.client.chat.completions.create(
-        {
-          model: this.model,
-          messages: [
-            { role: 'system', content: 'You are a helpful assistant that always responds with valid JSON.' },
-            { role: 'user', content: systemPrompt },
-          ],
-          temperature: 0.2,
-          response_format: { type: 'json_object' },
-        },
-        { signal: controller.signal }
-      );
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('LLM returned empty response');
+      const completion = await route.provider.complete({
+        model: call.model,
+        messages,
+        temperature,
+        jsonMode,
+        signal: controller.signal,
+      });
+      this.recorder?.recordCall({
+        ...call,
+        promptTokens: completion.usage?.promptTokens ?? 0,
+        completionTokens: completion.usage?.completionTokens ?? 0,
+        latencyMs: Date.now() - startedAt,
+        ...(completion.replayed && { source: 'cassette' as const }),
+      });
+      // A reply that fails to parse would fail again on every later hit
+      if (!jsonMode || canParseJson(completion.content)) {
+        this.cache?.store(cacheRequest, completion.content);
       }
-      return content;
+      return completion.content;
+    } catch (err: any) {
+      this.recorder?.recordCall({
+        ...call, promptTokens: 0, completionTokens: 0, latencyMs: Date.now() - startedAt, error: err.message,
+      });
+      throw err;
     } finally {
       clearTimeout(timeoutId);
     }
   }
 
-  private async callWithRetry(prompt: string): Promise<string> {
+  private async callWithRetry(prompt: string, operation: LLMOperation, judge?: JudgeConfig): Promise<string> {
     return retryWithBackoff(
-      () => this.callLLM(prompt),
+      () => this.callLLM(prompt, operation, judge),
       this.maxRetries,
       this.initialRetryDelayMs
     );
@@ -142,7 +297,7 @@ export class OpenAILLMService implements LLMService {
 
   async analyzePrompt(prompt: string): Promise<PromptAnalysis> {
     const filledPrompt = fillTemplate(PROMPT_TEMPLATES.ANALYZE_PROMPT, { prompt });
-    const raw = await this.callWithRetry(filledPrompt);
+    const raw = await this.callWithRetry(filledPrompt, 'analysis');
     const parsed = parseJsonResponse<{
       goals: string[];
       conversationFlows: PromptAnalysis['conversationFlows'];
@@ -162,7 +317,7 @@ export class OpenAILLMService implements LLMService {
     const filledPrompt = fillTemplate(PROMPT_TEMPLATES.GENERATE_TEST_CASES, {
       analysis: JSON.stringify(analysis, null, 2),
     });
-    const raw = await this.callWithRetry(filledPrompt);
+    const raw = await this.callWithRetry(filledPrompt, 'generation');
 
     // The response might be { "testCases": [...] } or just [...]
     const parsed = parseJsonResponse<any>(raw);
@@ -172,26 +327,39 @@ export class OpenAILLMService implements LLMService {
       id: `tc-${index + 1}`,
       scenarioDescription: tc.scenarioDescription,
       scenarioType: tc.scenarioType,
-      userInputSequence: tc.userInputSequence,
+      kind: tc.kind === 'persona' ? 'persona' : 'scripted',
+      persona: tc.kind === 'persona' ? tc.persona : undefined,
+      userInputSequence: tc.userInputSequence ?? [],
       successCriteria: (tc.successCriteria || []).map((sc: any, scIdx: number) => ({
         id: `sc-${index + 1}-${scIdx + 1}`,
         description: sc.description,
         category: sc.category,
-        evaluationPrompt: sc.evaluationPrompt,
+        evaluationPrompt: sc.evaluationPrompt ?? '',
+        assertion: sc.assertion,
+        turnSelector: sc.turnSelector,
+        rubric: sc.rubric,
+        severity: sc.severity,
+        weight: sc.weight,
       })),
     }));
   }
 
   async evaluateCriterion(
     response: string,
-    criterion: SuccessCriterion
+    criterion: SuccessCriterion,
+    judge: JudgeConfig = {}
   ): Promise<CriterionResult> {
+    if (criterion.rubric) {
+      return this.evaluateRubric(response, criterion, criterion.rubric, judge);
+    }
+
     const filledPrompt = fillTemplate(PROMPT_TEMPLATES.EVALUATE_CRITERION, {
       response,
       criterionDescription: criterion.description,
       evaluationPrompt: criterion.evaluationPrompt,
+      judgeGuidance: JUDGE_GUIDANCE[judge.variant ?? 'standard'],
     });
-    const raw = await this.callWithRetry(filledPrompt);
+    const raw = await this.callWithRetry(filledPrompt, 'judging', judge);
     const parsed = parseJsonResponse<{ passed: boolean; explanation: string }>(raw);
 
     return {
@@ -201,17 +369,47 @@ export class OpenAILLMService implements LLMService {
     };
   }
 
+  private async evaluateRubric(
+    response: string,
+    criterion: SuccessCriterion,
+    rubric: CriterionRubric,
+    judge: JudgeConfig
+  ): Promise<CriterionResult> {
+    const maxScore = rubricMaxScore(rubric);
+    const filledPrompt = fillTemplate(PROMPT_TEMPLATES.EVALUATE_RUBRIC, {
+      response,
+      criterionDescription: criterion.description,
+      evaluationPrompt: criterion.evaluationPrompt,
+      rubricLevels: formatRubricLevels(rubric),
+      maxScore: String(maxScore),
+      judgeGuidance: JUDGE_GUIDANCE[judge.variant ?? 'standard'],
+    });
+    const raw = await this.callWithRetry(filledPrompt, 'judging', judge);
+    const parsed = parseJsonResponse<{ score: number; explanation: string }>(raw);
+    const score = normalizeRubricScore(rubric, parsed.score);
+
+    return {
+      criterionId: criterion.id,
+      passed: score >= rubric.passThreshold,
+      explanation: parsed.explanation,
+      score,
+      maxScore,
+    };
+  }
+
   async optimizePrompt(
     original: string,
     failures: CriterionResult[],
-    passes: CriterionResult[]
+    passes: CriterionResult[],
+    candidate: OptimizationCandidateConfig = {}
   ): Promise<OptimizationResult> {
     const filledPrompt = fillTemplate(PROMPT_TEMPLATES.OPTIMIZE_PROMPT, {
       originalPrompt: original,
       failures: JSON.stringify(failures, null, 2),
       passes: JSON.stringify(passes, null, 2),
+      focus: candidate.focus ? `\nFOCUS: concentrate the revision on ${candidate.focus}.\n` : '',
     });
-    const raw = await this.callWithRetry(filledPrompt);
+    const raw = await this.callWithRetry(filledPrompt, 'optimization', { temperature: candidate.temperature });
     const parsed = parseJsonResponse<{
       revisedPrompt: string;
       changes: OptimizationResult['changes'];
@@ -225,4 +423,43 @@ export class OpenAILLMService implements LLMService {
       targetedFailures: parsed.targetedFailures,
     };
   }
+
+  async simulateAgentResponse(agentPrompt: string, conversation: ConversationMessage[]): Promise<string> {
+    const systemPrompt = fillTemplate(PROMPT_TEMPLATES.SIMULATE_AGENT, { agentPrompt });
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      ...conversation.map((m): ChatMessage =>
+        m.role === 'agent'
+          ? { role: 'assistant', content: m.content }
+          : { role: 'user', content: m.context ? `(${m.context}) ${m.content}` : m.content }
+      ),
+    ];
+
+    const raw = await retryWithBackoff(
+      () => this.callChat(messages, 'simulation', DEFAULT_CONFIG.simulationTemperature, false),
+      this.maxRetries,
+      this.initialRetryDelayMs
+    );
+    return raw.trim();
+  }
+
+  async simulateCallerTurn(persona: CallerPersona, conversation: ConversationMessage[]): Promise<CallerTurn> {
+    const transcript = conversation
+      .map(m => `${m.role === 'user' ? 'You' : 'Agent'}: ${m.content}`)
+      .join('\n');
+    const filledPrompt = fillTemplate(PROMPT_TEMPLATES.SIMULATE_CALLER, {
+      goal: persona.goal,
+      knownFacts: persona.knownFacts.join('; ') || 'none',
+      temperament: persona.temperament || 'neutral',
+      giveUpCondition: persona.giveUpCondition || 'never',
+      conversation: transcript || '(the call has just connected; you speak first)',
+    });
+    const raw = await this.callWithRetry(filledPrompt, 'simulation');
+    const parsed = parseJsonResponse<{ status: CallerTurn['status']; utterance?: string }>(raw);
+
+    return {
+      status: parsed.status === 'goal-reached' || parsed.status === 'gave-up' ? parsed.status : 'continue',
+      utterance: parsed.utterance ?? '',
+    };
+  }
 }
@@ -0,0 +1,128 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { v4 as uuidv4 } from 'uuid';
+import { AppDatabase } from '../database';
+import { LLMCallRecorder, LLMCallUsage } from './llm-service';
+import { LLMOperation } from '../types';
+import { PriceTable, DEFAULT_PRICES, findModelPrice, calculateCost } from '../utils/llm-pricing';
+
+/**
+ * What an LLM call was made for. Nested scopes extend the enclosing one, so a
+ * test run inside a cycle is charged to both.
+ */
+export interface LLMCallAttribution {
+  agentId?: string;
+  analysisId?: string;
+  testRunId?: string;
+  optimizationId?: string;
+  cycleId?: string;
+}
+
+const ATTRIBUTION_COLUMNS: (keyof LLMCallAttribution)[] = ['agentId', 'analysisId', 'testRunId', 'optimizationId', 'cycleId'];
+
+const attributionScope = new AsyncLocalStorage<LLMCallAttribution>();
+
+/**
+ * Charge every LLM call `fn` makes, however deeply nested, to `attribution`.
+ */
+export function withLLMAttribution<T>(attribution: LLMCallAttribution, fn: () => Promise<T>): Promise<T> {
+  return attributionScope.run({ ...attributionScope.getStore(), ...attribution }, fn);
+}
+
+/**
+ * What the current LLM call is being made for; empty outside any scope.
+ */
+export function getLLMAttribution(): LLMCallAttribution {
+  return attributionScope.getStore() ?? {};
+}
+
+export interface LLMUsageBreakdown {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  // USD, excluding calls to models missing from the price table
+  cost: number;
+}
+
+export interface LLMUsageTotals extends LLMUsageBreakdown {
+  failedCalls: number;
+  // Included in calls, at no cost
+  cachedCalls: number;
+  replayedCalls: number;
+  unpricedCalls: number;
+  latencyMs: number;
+  byOperation: Partial<Record<LLMOperation, LLMUsageBreakdown>>;
+}
+
+/**
+ * Records every provider call with its tokens, latency and cost, and totals
+ * them per agent, analysis, test run, optimization or cycle.
+ */
+export class LLMUsageService implements LLMCallRecorder {
+  constructor(
+    private database: AppDatabase,
+    private prices: PriceTable = DEFAULT_PRICES
+  ) {}
+
+  recordCall(call: LLMCallUsage): void {
+    const attribution = getLLMAttribution();
+    const price = findModelPrice(this.prices, call.model);
+    const cost = call.source ? 0 : price ? calculateCost(price, call.promptTokens, call.completionTokens) : null;
+
+    this.database.db.prepare(`
+      INSERT INTO LLMCall (
+        id, operation, provider, model, promptTokens, completionTokens, latencyMs, cost, error, source,
+        agentId, analysisId, testRunId, optimizationId, cycleId
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      uuidv4(), call.operation, call.provider, call.model, call.promptTokens, call.completionTokens,
+      call.latencyMs, cost, call.error ?? null, call.source ?? null,
+      attribution.agentId ?? null, attribution.analysisId ?? null, attribution.testRunId ?? null,
+      attribution.optimizationId ?? null, attribution.cycleId ?? null
+    );
+  }
+
+  /**
+   * Totals of the calls charged to the given agent, analysis, run, optimization
+   * or cycle; every call when the filter is empty.
+   */
+  getTotals(filter: LLMCallAttribution): LLMUsageTotals {
+    const conditions: string[] = [];
+    const params: string[] = [];
+    for (const column of ATTRIBUTION_COLUMNS) {
+      if (filter[column] === undefined) continue;
+      conditions.push(`${column} = ?`);
+      params.push(filter[column]!);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const rows = this.database.db.prepare(`
+      SELECT operation, COUNT(*) AS calls, COUNT(error) AS failedCalls, COUNT(*) - COUNT(cost) AS unpricedCalls,
+        TOTAL(source = 'cache') AS cachedCalls, TOTAL(source = 'cassette') AS replayedCalls,
+        SUM(promptTokens) AS promptTokens, SUM(completionTokens) AS completionTokens,
+        TOTAL(cost) AS cost, SUM(latencyMs) AS latencyMs
+      FROM LLMCall ${where}
+      GROUP BY operation
+    `).all(...params) as any[];
+
+    const totals: LLMUsageTotals = {
+      calls: 0, failedCalls: 0, cachedCalls: 0, replayedCalls: 0, unpricedCalls: 0, promptTokens: 0, completionTokens: 0, cost: 0, latencyMs: 0,
+      byOperation: {},
+    };
+    for (const row of rows) {
+      totals.calls += row.calls;
+      totals.failedCalls += row.failedCalls;
+      totals.unpricedCalls += row.unpricedCalls;
+      totals.cachedCalls += row.cachedCalls;
+      totals.replayedCalls += row.replayedCalls;
+      totals.promptTokens += row.promptTokens;
+      totals.completionTokens += row.completionTokens;
+      totals.cost += row.cost;
+      totals.latencyMs += row.latencyMs;
+      totals.byOperation[row.operation as LLMOperation] = {
+        calls: row.calls, promptTokens: row.promptTokens, completionTokens: row.completionTokens, cost: row.cost,
+      };
+    }
+    return totals;
+  }
+}
@@ -1,5 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import { LLMService } from './llm-service';
+import { withLLMAttribution } from './llm-usage';
 import { AppDatabase } from '../database';
 import { PromptAnalysis } from '../types';
 
@@ -15,9 +16,9 @@ export class PromptAnalyzerService {
   ) {}
 
   async analyzePrompt(agentId: string, rawPrompt: string): Promise<StoredPromptAnalysis> {
-    const analysis = await this.llmService.analyzePrompt(rawPrompt);
-
     const id = uuidv4();
+    const analysis = await withLLMAttribution({ agentId, analysisId: id }, () => this.llmService.analyzePrompt(rawPrompt));
+
     const createdAt = new Date().toISOString();
 
     this.database.db.prepare(`
@@ -1,7 +1,8 @@
 import { v4 as uuidv4 } from 'uuid';
 import { LLMService } from './llm-service';
+import { withLLMAttribution } from './llm-usage';
 import { AppDatabase } from '../database';
-import { CriterionResult, OptimizationResult } from '../types';
+import { CriterionResult, OptimizationCandidateConfig, OptimizationResult } from '../types';
 
 export interface StoredOptimizationRecord {
   id: string;
@@ -12,6 +13,12 @@ export interface StoredOptimizationRecord {
   changes: OptimizationResult['changes'];
   targetedFailures: string[];
   status: 'generated' | 'accepted' | 'rejected';
+  // Set on tournament candidates; siblings share the tournamentId
+  tournamentId?: string;
+  candidate?: OptimizationCandidateConfig;
+  // Pass rate of the candidate's evaluation run
+  score?: number;
+  evaluationRunId?: string;
   createdAt: string;
 }
 
@@ -24,23 +31,34 @@ export class PromptOptimizerService {
   /**
    * Generate a revised prompt based on test failures.
    * Includes both failed and passing criteria in LLM context.
+   * `candidate` and `tournamentId` are set when generating tournament candidates.
    */
   async optimizePrompt(
     testRunId: string,
     agentId: string,
     originalPrompt: string,
     failures: CriterionResult[],
-    passes: CriterionResult[]
+    passes: CriterionResult[],
+    candidate?: OptimizationCandidateConfig,
+    tournamentId?: string
   ): Promise<StoredOptimizationRecord> {
-    const result = await this.llmService.optimizePrompt(originalPrompt, failures, passes);
-
     const id = uuidv4();
+    const result = await withLLMAttribution(
+      { agentId, optimizationId: id },
+      () => this.llmService.optimizePrompt(originalPrompt, failures, passes, candidate)
+    );
+
     const createdAt = new Date().toISOString();
 
     this.database.db.prepare(`
-      INSERT INTO OptimizationRecord (id, testRunId, agentId, originalPrompt, revisedPrompt, changes, status, createdAt)
-      VALUES (?, ?, ?, ?, ?, ?, 'generated', ?)
-    `).run(id, testRunId, agentId, originalPrompt, result.revisedPrompt, JSON.stringify(result.changes), createdAt);
+      INSERT INTO OptimizationRecord (
+        id, testRunId, agentId, originalPrompt, revisedPrompt, changes, status, tournamentId, candidateConfig, createdAt
+      )
+      VALUES (?, ?, ?, ?, ?, ?, 'generated', ?, ?, ?)
+    `).run(
+      id, testRunId, agentId, originalPrompt, result.revisedPrompt, JSON.stringify(result.changes),
+      tournamentId ?? null, candidate ? JSON.stringify(candidate) : null, createdAt
+    );
 
     return {
       id,
@@ -51,10 +69,30 @@ export class PromptOptimizerService {
       changes: result.changes,
       targetedFailures: result.targetedFailures,
       status: 'generated',
+      tournamentId,
+      candidate,
       createdAt,
     };
   }
 
+  /**
+   * Store the pass rate a candidate scored and the run it was scored on.
+   */
+  recordCandidateScore(id: string, evaluationRunId: string, score: number): void {
+    this.database.db.prepare('UPDATE OptimizationRecord SET score = ?, evaluationRunId = ? WHERE id = ?')
+      .run(score, evaluationRunId, id);
+  }
+
+  /**
+   * All candidates of a tournament in the order they were generated.
+   */
+  getTournamentCandidates(tournamentId: string): StoredOptimizationRecord[] {
+    const rows = this.database.db.prepare(
+      'SELECT * FROM OptimizationRecord WHERE tournamentId = ? ORDER BY createdAt, rowid'
+    ).all(tournamentId) as any[];
+    return rows.map(row => this.mapRow(row));
+  }
+
   getOptimizationRecord(id: string): StoredOptimizationRecord | null {
     const row = this.database.db.prepare('SELECT * FROM OptimizationRecord WHERE id = ?').get(id) as any;
     if (!row) return null;
@@ -71,6 +109,10 @@ export class PromptOptimizerService {
       changes: JSON.parse(row.changes),
       targetedFailures: [],
       status: row.status,
+      tournamentId: row.tournamentId ?? undefined,
+      candidate: row.candidateConfig ? JSON.parse(row.candidateConfig) : undefined,
+      score: row.score ?? undefined,
+      evaluationRunId: row.evaluationRunId ?? undefined,
       createdAt: row.createdAt,
     };
   }
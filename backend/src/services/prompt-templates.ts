@@ -1,5 +1,7 @@
 // Structured prompt templates for each LLM operation
 
+import { JudgeVariant } from '../types';
+
 export const PROMPT_TEMPLATES = {
   ANALYZE_PROMPT: `You are an expert Voice AI prompt analyst. Analyze the following Voice AI agent base prompt and extract structured information.
 
@@ -44,12 +46,21 @@ Generate a JSON array of test cases. Requirements:
 - Include both "happy-path" and "adversarial" scenario types
 - Each test case must have at least one success criterion
 - Cover all identified goals and conversation flows
+- Use "kind": "persona" for scenarios where the caller should react to what the agent says; persona cases have an empty userInputSequence
 
 Return a JSON array with this structure:
 [
   {
     "scenarioDescription": "description of the test scenario",
     "scenarioType": "happy-path" | "adversarial",
+    "kind": "scripted" | "persona",
+    "persona": {
+      "goal": "what the caller wants from the call (persona cases only)",
+      "knownFacts": ["facts the caller can share when asked"],
+      "temperament": "how the caller behaves, e.g. impatient, confused, friendly",
+      "giveUpCondition": "when the caller hangs up without reaching the goal",
+      "maxTurns": 6
+    },
     "userInputSequence": [
       { "turn": 1, "utterance": "user says this", "context": "optional context" }
     ],
@@ -57,12 +68,33 @@ Return a JSON array with this structure:
       {
         "description": "what should happen",
         "category": "behavioral" | "functional" | "compliance",
-        "evaluationPrompt": "prompt to evaluate if this criterion is met"
+        "evaluationPrompt": "prompt to evaluate if this criterion is met",
+        "assertion": { "type": "llm-judge" },
+        "turnSelector": { "scope": "turn", "turn": 1 },
+        "rubric": { "levels": ["score 0 description", "score 1 description", "score 2 description"], "passThreshold": 2 },
+        "severity": "critical" | "major" | "minor"
       }
     ]
   }
 ]
 
+Assertions: prefer a deterministic assertion over "llm-judge" for mechanical checks. Supported types:
+- { "type": "regex", "pattern": "...", "flags": "i" } — some agent turn matches
+- { "type": "contains", "value": "..." } / { "type": "not-contains", "value": "..." }
+- { "type": "max-words", "limit": 40 } / { "type": "max-chars", "limit": 200 } — every agent turn stays within the limit
+- { "type": "json-path", "path": "$.arguments.email", "equals": "optional value" } — some tool call matches
+Add "withinTurns": N to any assertion to only consider the first N agent turns.
+
+Turn selectors (optional): omit "turnSelector" to judge the whole conversation. Otherwise use one of
+{ "scope": "turn", "turn": 3 }, { "scope": "range", "from": 2, "to": 4 }, { "scope": "first" }, { "scope": "last" }
+or { "scope": "by-turn", "turn": 3 } (must happen in turns 1-3). Add "match": "any" or "all" to judge each selected turn on its own.
+
+Rubrics (optional, llm-judge only): omit "rubric" for plain pass/fail. Use one for qualities that come in degrees, e.g. tone or
+empathy: "levels" lists descriptions for scores 0..N in order, and a score >= "passThreshold" passes.
+
+Severity: "critical" for legal, compliance and safety requirements (any critical failure fails the whole run),
+"major" (default) for core functionality, "minor" for style and polish. Add "weight": N only to override the severity's weight.
+
 Return ONLY valid JSON, no additional text.`,
 
   EVALUATE_CRITERION: `You are an expert evaluator for Voice AI agent responses. Evaluate whether the agent's response meets the given success criterion.
@@ -75,6 +107,7 @@ AGENT RESPONSE:
 SUCCESS CRITERION:
 Description: {{criterionDescription}}
 Evaluation Guide: {{evaluationPrompt}}
+{{judgeGuidance}}
 
 Evaluate the response against the criterion and return a JSON object:
 {
@@ -85,6 +118,33 @@ Evaluate the response against the criterion and return a JSON object:
 Rules:
 - Be objective and precise in your evaluation
 - If the criterion fails, the explanation MUST describe what was missing or incorrect
+- Return ONLY valid JSON, no additional text`,
+
+  EVALUATE_RUBRIC: `You are an expert evaluator for Voice AI agent responses. Score the agent's response against the given success criterion using the rubric.
+
+AGENT RESPONSE:
+"""
+{{response}}
+"""
+
+SUCCESS CRITERION:
+Description: {{criterionDescription}}
+Evaluation Guide: {{evaluationPrompt}}
+{{judgeGuidance}}
+
+RUBRIC (score: description):
+{{rubricLevels}}
+
+Pick the single rubric level that best describes the response and return a JSON object:
+{
+  "score": 0-{{maxScore}},
+  "explanation": "brief explanation of why the response earned this score"
+}
+
+Rules:
+- Be objective and precise in your evaluation
+- The score MUST be an integer from the rubric
+- If the score is below {{maxScore}}, the explanation MUST describe what kept it from scoring higher
 - Return ONLY valid JSON, no additional text`,
 
   OPTIMIZE_PROMPT: `You are an expert Voice AI prompt engineer. Optimize the following base prompt based on test results.
@@ -99,9 +159,9 @@ FAILED CRITERIA:
 
 PASSING CRITERIA (preserve these behaviors):
 {{passes}}
-
+{{focus}}
 Generate a revised prompt that:
-1. Addresses each failed criterion specifically
+1. Addresses each failed criterion specifically, fixing "critical" severity failures first
 2. Preserves all passing behaviors
 3. Maintains the original prompt's core intent and structure
 
@@ -118,4 +178,52 @@ Return a JSON object:
 }
 
 Return ONLY valid JSON, no additional text.`,
+
+  SIMULATE_AGENT: `You are a Voice AI agent on a live phone call. Follow the instructions in your base prompt exactly.
+
+BASE PROMPT:
+"""
+{{agentPrompt}}
+"""
+
+Rules:
+- Reply with ONLY what you would say aloud to the caller on this turn
+- Keep replies short and conversational, as spoken on a phone call
+- Do not describe your actions, add stage directions, or mention that this is a simulation
+- Stay in character for the whole conversation`,
+
+  SIMULATE_CALLER: `You are role-playing a caller on a phone call with a business's Voice AI agent. Stay in character.
+
+CALLER PERSONA:
+Goal: {{goal}}
+Facts you know: {{knownFacts}}
+Temperament: {{temperament}}
+You give up when: {{giveUpCondition}}
+
+CONVERSATION SO FAR:
+"""
+{{conversation}}
+"""
+
+Decide your next move based on the agent's last reply and return a JSON object:
+{
+  "status": "continue" | "goal-reached" | "gave-up",
+  "utterance": "what you say next, or an empty string if the call is over"
+}
+
+Rules:
+- Use "goal-reached" once the agent has fully accomplished your goal
+- Use "gave-up" once your give-up condition is met
+- Share known facts only when asked or when it naturally helps your goal
+- Speak like a real caller: short, natural, in your temperament
+- Return ONLY valid JSON, no additional text`,
 } as const;
+
+/**
+ * Extra judging instructions per judge prompt variant, filled into {{judgeGuidance}}.
+ */
+export const JUDGE_GUIDANCE: Record<JudgeVariant, string> = {
+  standard: '',
+  strict: 'Judge strictly: if the response only partially or ambiguously meets the criterion, treat it as not met.',
+  evidence: 'Before deciding, identify the exact agent turns that support your verdict and cite them in the explanation.',
+};
@@ -0,0 +1,103 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AppDatabase } from '../database';
+import { LLMService } from './llm-service';
+import { AgentTransport } from './agent-transport';
+import { PromptOptimizerService, StoredOptimizationRecord } from './prompt-optimizer';
+import { TestRunnerService } from './test-runner';
+import { TestGeneratorService } from './test-generator';
+import { DEFAULT_EVALUATION_CONFIG } from '../utils/consensus';
+import { transitionOptimizationStatus } from '../utils/state-machine';
+import { compareCandidateScores, sampleItems } from '../utils/tournament';
+import { CriterionResult, EvaluationConfig, OptimizationStrategy } from '../types';
+
+export interface TournamentCandidate extends StoredOptimizationRecord {
+  score: number;
+  evaluationRunId: string;
+  criticalFailures: number;
+}
+
+export interface TournamentResult {
+  tournamentId: string;
+  // Best candidate; still 'generated' so the caller decides whether to apply it
+  winner: TournamentCandidate;
+  // Every candidate, best first; all but the winner are rejected
+  candidates: TournamentCandidate[];
+  sampledTestCaseIds: string[];
+}
+
+export class PromptTournamentService {
+  private optimizer: PromptOptimizerService;
+  private runner: TestRunnerService;
+  private testCaseStore: TestGeneratorService;
+
+  constructor(
+    private database: AppDatabase,
+    llmService: LLMService,
+    agentTransport: AgentTransport
+  ) {
+    this.optimizer = new PromptOptimizerService(llmService, database);
+    this.runner = new TestRunnerService(database, llmService, agentTransport);
+    this.testCaseStore = new TestGeneratorService(llmService, database);
+  }
+
+  /**
+   * Generate one revision per candidate config from a run's failures, score
+   * each on the same cases of the run's suite (and split) with the run's judge
+   * panel and trial count, and rank them. Candidates are stored as sibling
+   * OptimizationRecords sharing a tournamentId.
+   */
+  async runTournament(
+    testRunId: string,
+    agentId: string,
+    originalPrompt: string,
+    failures: CriterionResult[],
+    passes: CriterionResult[],
+    strategy: OptimizationStrategy
+  ): Promise<TournamentResult> {
+    const run = this.database.db.prepare(
+      'SELECT testSuiteId, evaluationConfig, trials, split FROM TestRun WHERE id = ?'
+    ).get(testRunId) as any;
+    if (!run) {
+      throw new Error(`Test run '${testRunId}' not found`);
+    }
+
+    const evaluation: EvaluationConfig = run.evaluationConfig ? JSON.parse(run.evaluationConfig) : DEFAULT_EVALUATION_CONFIG;
+    const split = run.split ?? undefined;
+    const testCases = sampleItems(this.testCaseStore.getTestCases(run.testSuiteId, split), strategy.sampleSize);
+    const tournamentId = uuidv4();
+
+    const candidates: TournamentCandidate[] = [];
+    for (const config of strategy.candidates) {
+      const record = await this.optimizer.optimizePrompt(
+        testRunId, agentId, originalPrompt, failures, passes, config, tournamentId
+      );
+      const summary = await this.runner.runPrompt(
+        agentId, run.testSuiteId, record.revisedPrompt, testCases, evaluation, run.trials, split
+      );
+      this.optimizer.recordCandidateScore(record.id, summary.id, summary.overallPassRate);
+      candidates.push({
+        ...record,
+        score: summary.overallPassRate,
+        evaluationRunId: summary.id,
+        criticalFailures: summary.criticalFailures,
+      });
+    }
+
+    candidates.sort((a, b) => compareCandidateScores(
+      { passRate: a.score, criticalFailures: a.criticalFailures },
+      { passRate: b.score, criticalFailures: b.criticalFailures }
+    ));
+
+    for (const loser of candidates.slice(1)) {
+      loser.status = transitionOptimizationStatus(loser.status, 'rejected');
+      this.database.db.prepare(`UPDATE OptimizationRecord SET status = 'rejected' WHERE id = ?`).run(loser.id);
+    }
+
+    return {
+      tournamentId,
+      winner: candidates[0],
+      candidates,
+      sampledTestCaseIds: testCases.map(tc => tc.id),
+    };
+  }
+}
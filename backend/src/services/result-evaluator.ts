@@ -1,20 +1,117 @@
 import { LLMService } from './llm-service';
-import { AgentResponse, CriterionResult, SuccessCriterion } from '../types';
+import { AgentResponse, CriterionResult, EvaluationConfig, JudgeVote, SuccessCriterion } from '../types';
+import { evaluateAssertion, isLLMJudged, selectAssertionTurns } from '../utils/assertions';
+import { selectTurns, getTurnMatchMode, describeTurnSelector } from '../utils/turn-selector';
+import { DEFAULT_SEVERITY, resolveCriterionWeight } from '../utils/pass-rate';
+import { DEFAULT_EVALUATION_CONFIG, describeJudge, resolveVotes } from '../utils/consensus';
 
 export class ResultEvaluatorService {
-  constructor(private llmService: LLMService) {}
+  constructor(
+    private llmService: LLMService,
+    private evaluation: EvaluationConfig = DEFAULT_EVALUATION_CONFIG
+  ) {}
 
   /**
    * Evaluate a single criterion against the agent's responses.
+   * The result carries the criterion's severity and resolved weight so pass
+   * rates can be recalculated from stored results alone.
    * Ensures failed criteria always have non-empty explanations.
    */
   async evaluateCriterion(
     agentResponses: AgentResponse[],
     criterion: SuccessCriterion
   ): Promise<CriterionResult> {
-    const responseText = agentResponses.map(r => `Turn ${r.turn}: ${r.utterance}`).join('\n');
+    const result = await this.evaluateSelectedTurns(agentResponses, criterion);
+    return {
+      ...result,
+      severity: criterion.severity ?? DEFAULT_SEVERITY,
+      weight: resolveCriterionWeight(criterion),
+    };
+  }
+
+  /**
+   * A turn selector narrows the turns considered; with `any`/`all` matching each
+   * selected turn is judged separately and the deciding turn is recorded.
+   */
+  private async evaluateSelectedTurns(
+    agentResponses: AgentResponse[],
+    criterion: SuccessCriterion
+  ): Promise<CriterionResult> {
+    const selector = criterion.turnSelector;
+    if (!selector) {
+      return this.judgeTurns(agentResponses, criterion);
+    }
+
+    const turns = selectTurns(agentResponses, selector);
+    const label = describeTurnSelector(selector);
+    if (turns.length === 0) {
+      return {
+        criterionId: criterion.id,
+        passed: false,
+        explanation: `The conversation never reached ${label}.`,
+      };
+    }
+
+    const mode = getTurnMatchMode(selector);
+    if (mode === 'together') {
+      const result = await this.judgeTurns(turns, criterion);
+      return turns.length === 1 ? { ...result, turn: turns[0].turn } : result;
+    }
+
+    // Judge turn by turn, stopping as soon as the verdict is decided
+    const verdicts: CriterionResult[] = [];
+    for (const turn of turns) {
+      const verdict = await this.judgeTurns([turn], criterion);
+      if (verdict.passed === (mode === 'any')) {
+        return { ...verdict, turn: turn.turn };
+      }
+      verdicts.push(verdict);
+    }
+
+    // Rubric criteria keep the best score when no turn passed, the worst when every turn did
+    const scores = verdicts.map(v => v.score).filter((s): s is number => s !== undefined);
+    const score = scores.length > 0 ? (mode === 'any' ? Math.max(...scores) : Math.min(...scores)) : undefined;
+    const maxScore = verdicts[0].maxScore;
+    const last = verdicts[verdicts.length - 1];
+    // Panel evaluations report the least agreed-upon turn verdict
+    const contested = verdicts.reduce((a, b) => ((b.agreement ?? 1) < (a.agreement ?? 1) ? b : a));
+    const consensus = { judgeVotes: contested.judgeVotes, agreement: contested.agreement };
+
+    return mode === 'any'
+      ? {
+          criterionId: criterion.id,
+          passed: false,
+          explanation: `No agent turn in ${label} met the criterion. ${last.explanation}`,
+          score,
+          maxScore,
+          ...consensus,
+        }
+      : {
+          criterionId: criterion.id,
+          passed: true,
+          explanation: `Every agent turn in ${label} met the criterion.`,
+          score,
+          maxScore,
+          ...consensus,
+        };
+  }
+
+  /**
+   * Deterministic assertions are checked locally; only `llm-judge` criteria call the LLM.
+   */
+  private async judgeTurns(
+    agentResponses: AgentResponse[],
+    criterion: SuccessCriterion
+  ): Promise<CriterionResult> {
+    if (!isLLMJudged(criterion)) {
+      return evaluateAssertion(agentResponses, criterion);
+    }
 
-    const result = await this.llmService.evaluateCriterion(responseText, criterion);
+    const responseText = selectAssertionTurns(agentResponses, criterion.assertion)
+      .map(r => `Turn ${r.turn}: ${r.utterance}`)
+      .join('\n');
+
+    const result = await this.consultJudges(responseText, criterion);
 
     // Ensure failed criteria always have non-empty explanations
     if (!result.passed && (!result.explanation || result.explanation.trim() === '')) {
@@ -25,16 +122,52 @@ export class ResultEvaluatorService {
   }
 
   /**
-   * Evaluate all criteria for a set of agent responses.
+   * Ask every judge on the panel and resolve their votes. A single judge's
+   * verdict is returned as-is, without votes.
+   */
+  private async consultJudges(responseText: string, criterion: SuccessCriterion): Promise<CriterionResult> {
+    const { judges, resolution } = this.evaluation;
+    if (judges.length === 1) {
+      return this.llmService.evaluateCriterion(responseText, criterion, judges[0]);
+    }
+
+    const verdicts = await Promise.all(
+      judges.map(judge => this.llmService.evaluateCriterion(responseText, criterion, judge))
+    );
+    const judgeVotes: JudgeVote[] = verdicts.map((verdict, i) => ({
+      judge: describeJudge(judges[i]),
+      passed: verdict.passed,
+      explanation: verdict.explanation,
+      score: verdict.score,
+    }));
+    const { passed, agreement, score } = resolveVotes(judgeVotes, resolution);
+    // Explain the verdict with the reasoning of a judge who voted for it
+    const spokesperson = verdicts.find(v => v.passed === passed) ?? verdicts[0];
+
+    return {
+      criterionId: criterion.id,
+      passed,
+      explanation: spokesperson.explanation,
+      score,
+      maxScore: spokesperson.maxScore,
+      judgeVotes,
+      agreement,
+    };
+  }
+
+  /**
+   * Evaluate all criteria for a set of agent responses, calling `onEvaluated` after each verdict.
    */
   async evaluateAllCriteria(
     agentResponses: AgentResponse[],
-    criteria: SuccessCriterion[]
+    criteria: SuccessCriterion[],
+    onEvaluated?: (result: CriterionResult) => void
   ): Promise<CriterionResult[]> {
     const results: CriterionResult[] = [];
     for (const criterion of criteria) {
       const result = await this.evaluateCriterion(agentResponses, criterion);
       results.push(result);
+      onEvaluated?.(result);
     }
     return results;
   }
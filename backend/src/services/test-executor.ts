@@ -1,23 +1,47 @@
-import { v4 as uuidv4 } from 'uuid';
 import { AppDatabase } from '../database';
-import { TestCase, TestCaseResult, AgentResponse } from '../types';
-
-const MOCK_TIMEOUT_MS = 100;
+import { LLMService, BudgetExceededError } from './llm-service';
+import { AgentTransport, AgentTarget, AgentSession } from './agent-transport';
+import { TestCase, TestCaseResult, AgentResponse, CallerPersona, CallerOutcome, ConversationMessage } from '../types';
 
 /**
- * Simulates executing a test case against a Voice AI agent.
- * Uses a mock HighLevel API interaction for now.
+ * Executes a test case against a Voice AI agent through the configured
+ * AgentTransport (LLM simulator, webhook or HighLevel).
  */
 export class TestExecutorService {
-  constructor(private database: AppDatabase) {}
+  constructor(
+    private database: AppDatabase,
+    private transport: AgentTransport,
+    private llmService: LLMService
+  ) {}
 
-  async executeTestCase(testCase: TestCase, agentPrompt: string): Promise<TestCaseResult> {
+  /**
+   * Run the case's conversation, calling `onTurn` as each agent reply arrives.
+   * Failures are returned as an errored result, except a BudgetExceededError.
+   */
+  async executeTestCase(
+    testCase: TestCase,
+    target: AgentTarget,
+    onTurn?: (response: AgentResponse) => void
+  ): Promise<TestCaseResult> {
     try {
-      const agentResponses: AgentResponse[] = [];
+      let agentResponses: AgentResponse[] = [];
+      let callerOutcome: CallerOutcome | undefined;
+      const session = await this.transport.openSession(target);
 
-      for (const input of testCase.userInputSequence) {
-        const response = await this.simulateAgentResponse(input.utterance, agentPrompt, input.turn);
-        agentResponses.push(response);
+      try {
+        if (testCase.kind === 'persona' && testCase.persona) {
+          ({ agentResponses, callerOutcome } = await this.runPersonaConversation(session, testCase.persona, onTurn));
+        } else {
+          for (const input of testCase.userInputSequence) {
+            const reply = await session.sendTurn({ role: 'user', content: input.utterance, context: input.context });
+            const response: AgentResponse = { turn: input.turn, ...reply, userUtterance: input.utterance };
+            agentResponses.push(response);
+            onTurn?.(response);
+          }
+        }
+      } finally {
+        // A failed teardown should not discard a completed transcript
+        await session.close().catch(() => undefined);
       }
 
       return {
@@ -25,8 +49,11 @@ export class TestExecutorService {
         agentResponses,
         criterionResults: [], // filled by ResultEvaluator
         status: 'completed',
+        callerOutcome,
       };
     } catch (err: any) {
+      // A spent budget would fail every remaining case too, so it ends the run instead
+      if (err instanceof BudgetExceededError) throw err;
       return {
         testCaseId: testCase.id,
         agentResponses: [],
@@ -38,14 +65,32 @@ export class TestExecutorService {
   }
 
   /**
-   * Mock HighLevel API call — simulates the agent responding to a user utterance.
+   * Let an LLM caller drive the conversation: each utterance is generated from
+   * the agent's previous reply until the goal is reached, the caller gives up,
+   * or the persona's turn limit is hit.
    */
-  private async simulateAgentResponse(utterance: string, agentPrompt: string, turn: number): Promise<AgentResponse> {
-    await new Promise(resolve => setTimeout(resolve, MOCK_TIMEOUT_MS));
+  private async runPersonaConversation(
+    session: AgentSession,
+    persona: CallerPersona,
+    onTurn?: (response: AgentResponse) => void
+  ): Promise<{ agentResponses: AgentResponse[]; callerOutcome: CallerOutcome }> {
+    const agentResponses: AgentResponse[] = [];
+    const conversation: ConversationMessage[] = [];
+
+    for (let turn = 1; turn <= persona.maxTurns; turn++) {
+      const next = await this.llmService.simulateCallerTurn(persona, conversation);
+      if (next.status !== 'continue') {
+        return { agentResponses, callerOutcome: next.status };
+      }
+
+      conversation.push({ role: 'user', content: next.utterance });
+      const reply = await session.sendTurn({ role: 'user', content: next.utterance });
+      conversation.push({ role: 'agent', content: reply.utterance });
+      const response: AgentResponse = { turn, ...reply, userUtterance: next.utterance };
+      agentResponses.push(response);
+      onTurn?.(response);
+    }
 
-    return {
-      turn,
-      utterance: `[Mock agent response to "${utterance}" based on prompt]`,
-    };
+    return { agentResponses, callerOutcome: 'max-turns' };
   }
 }
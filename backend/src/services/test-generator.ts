@@ -1,7 +1,13 @@
 import { v4 as uuidv4 } from 'uuid';
 import { LLMService } from './llm-service';
+import { withLLMAttribution } from './llm-usage';
 import { AppDatabase } from '../database';
-import { PromptAnalysis, TestCase, SuccessCriterion } from '../types';
+import { PromptAnalysis, TestCase, SuccessCriterion, CallerPersona, TestSplit } from '../types';
+import { validateAssertion, isLLMJudged } from '../utils/assertions';
+import { validateTurnSelector } from '../utils/turn-selector';
+import { validateRubric } from '../utils/rubric';
+import { CRITERION_SEVERITIES, DEFAULT_SEVERITY } from '../utils/pass-rate';
+import { assignSplits, DEFAULT_SPLIT } from '../utils/splits';
 
 export interface StoredTestSuite {
   id: string;
@@ -15,6 +21,7 @@ export interface StoredTestSuite {
 const VALID_CATEGORIES: SuccessCriterion['category'][] = ['behavioral', 'functional', 'compliance'];
 const VALID_SCENARIO_TYPES: TestCase['scenarioType'][] = ['happy-path', 'adversarial'];
 const MIN_TEST_CASES = 5;
+const MAX_PERSONA_TURNS = 20;
 
 export class TestGeneratorService {
   constructor(
@@ -27,7 +34,7 @@ export class TestGeneratorService {
     analysisId: string,
     analysis: PromptAnalysis
   ): Promise<StoredTestSuite> {
-    const rawTestCases = await this.llmService.generateTestCases(analysis);
+    const rawTestCases = await withLLMAttribution({ agentId, analysisId }, () => this.llmService.generateTestCases(analysis));
     const testCases = this.validateAndNormalize(rawTestCases);
 
     return this.storeTestSuite(agentId, analysisId, testCases);
@@ -57,8 +64,10 @@ export class TestGeneratorService {
           `Invalid scenarioType "${tc.scenarioType}". Must be one of: ${VALID_SCENARIO_TYPES.join(', ')}`
         );
       }
-      if (!Array.isArray(tc.userInputSequence) || tc.userInputSequence.length === 0) {
-        throw new Error('Each test case must have a non-empty userInputSequence');
+      if (tc.kind === 'persona') {
+        validatePersona(tc.persona);
+      } else if (!Array.isArray(tc.userInputSequence) || tc.userInputSequence.length === 0) {
+        throw new Error('Each scripted test case must have a non-empty userInputSequence');
       }
       if (!Array.isArray(tc.successCriteria) || tc.successCriteria.length === 0) {
         throw new Error('Each test case must have at least one success criterion');
@@ -69,9 +78,7 @@ export class TestGeneratorService {
             `Invalid criterion category "${sc.category}". Must be one of: ${VALID_CATEGORIES.join(', ')}`
           );
         }
-        if (!sc.evaluationPrompt || sc.evaluationPrompt.trim() === '') {
-          throw new Error('Each success criterion must have a non-empty evaluationPrompt');
-        }
+        validateCriterionCheck(sc);
       }
     }
 
@@ -92,13 +99,15 @@ export class TestGeneratorService {
     `);
 
     const insertTestCase = this.database.db.prepare(`
-      INSERT INTO TestCase (id, testSuiteId, scenarioDescription, scenarioType, userInputSequence, createdAt)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO TestCase (id, testSuiteId, scenarioDescription, scenarioType, kind, persona, userInputSequence, split, createdAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const insertCriterion = this.database.db.prepare(`
-      INSERT INTO SuccessCriterion (id, testCaseId, description, category, evaluationPrompt, createdAt)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO SuccessCriterion (
+        id, testCaseId, description, category, evaluationPrompt, assertion, turnSelector, rubric, severity, weight, createdAt
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const storedTestCases: TestCase[] = [];
@@ -108,12 +117,18 @@ export class TestGeneratorService {
 
       for (const tc of testCases) {
         const testCaseId = uuidv4();
+        const kind = tc.kind ?? 'scripted';
+        const userInputSequence = tc.userInputSequence ?? [];
+        const split = tc.split ?? DEFAULT_SPLIT;
         insertTestCase.run(
           testCaseId,
           suiteId,
           tc.scenarioDescription,
           tc.scenarioType,
-          JSON.stringify(tc.userInputSequence),
+          kind,
+          tc.persona ? JSON.stringify(tc.persona) : null,
+          JSON.stringify(userInputSequence),
+          split,
           now
         );
 
@@ -125,14 +140,24 @@ export class TestGeneratorService {
             testCaseId,
             sc.description,
             sc.category,
-            sc.evaluationPrompt,
+            sc.evaluationPrompt ?? '',
+            sc.assertion ? JSON.stringify(sc.assertion) : null,
+            sc.turnSelector ? JSON.stringify(sc.turnSelector) : null,
+            sc.rubric ? JSON.stringify(sc.rubric) : null,
+            sc.severity ?? DEFAULT_SEVERITY,
+            sc.weight ?? null,
             now
           );
           storedCriteria.push({
             id: criterionId,
             description: sc.description,
             category: sc.category,
-            evaluationPrompt: sc.evaluationPrompt,
+            evaluationPrompt: sc.evaluationPrompt ?? '',
+            assertion: sc.assertion,
+            turnSelector: sc.turnSelector,
+            rubric: sc.rubric,
+            severity: sc.severity ?? DEFAULT_SEVERITY,
+            weight: sc.weight,
           });
         }
 
@@ -140,7 +165,10 @@ export class TestGeneratorService {
           id: testCaseId,
           scenarioDescription: tc.scenarioDescription,
           scenarioType: tc.scenarioType,
-          userInputSequence: tc.userInputSequence,
+          kind,
+          persona: tc.persona,
+          userInputSequence,
+          split,
           successCriteria: storedCriteria,
         });
       }
@@ -165,36 +193,162 @@ export class TestGeneratorService {
 
     if (!suiteRow) return null;
 
-    const testCaseRows = this.database.db.prepare(
-      'SELECT * FROM TestCase WHERE testSuiteId = ? ORDER BY createdAt'
-    ).all(id) as any[];
-
-    const testCases: TestCase[] = testCaseRows.map(tcRow => {
-      const criteriaRows = this.database.db.prepare(
-        'SELECT * FROM SuccessCriterion WHERE testCaseId = ? ORDER BY createdAt'
-      ).all(tcRow.id) as any[];
-
-      return {
-        id: tcRow.id,
-        scenarioDescription: tcRow.scenarioDescription,
-        scenarioType: tcRow.scenarioType,
-        userInputSequence: JSON.parse(tcRow.userInputSequence),
-        successCriteria: criteriaRows.map(scRow => ({
-          id: scRow.id,
-          description: scRow.description,
-          category: scRow.category,
-          evaluationPrompt: scRow.evaluationPrompt,
-        })),
-      };
-    });
-
     return {
       id: suiteRow.id,
       agentId: suiteRow.agentId,
       analysisId: suiteRow.analysisId,
-      testCases,
+      testCases: this.getTestCases(id),
       createdAt: suiteRow.createdAt,
       updatedAt: suiteRow.updatedAt,
     };
   }
+
+  /**
+   * Cases of a suite in creation order, optionally only those of one split.
+   */
+  getTestCases(testSuiteId: string, split?: TestSplit): TestCase[] {
+    const testCaseRows = (split
+      ? this.database.db.prepare(
+        'SELECT * FROM TestCase WHERE testSuiteId = ? AND split = ? ORDER BY createdAt'
+      ).all(testSuiteId, split)
+      : this.database.db.prepare(
+        'SELECT * FROM TestCase WHERE testSuiteId = ? ORDER BY createdAt'
+      ).all(testSuiteId)) as any[];
+
+    return testCaseRows.map(tcRow => this.mapTestCaseRow(tcRow));
+  }
+
+  /**
+   * Reassign a suite's cases to train/holdout, holding out `holdoutFraction`
+   * of each scenario type. Returns null when the suite does not exist.
+   */
+  partitionTestSuite(testSuiteId: string, holdoutFraction: number): StoredTestSuite | null {
+    const suiteRow = this.database.db.prepare('SELECT id FROM TestSuite WHERE id = ?').get(testSuiteId);
+    if (!suiteRow) return null;
+
+    const testCases = this.database.db.prepare(
+      'SELECT id, scenarioType FROM TestCase WHERE testSuiteId = ? ORDER BY createdAt, rowid'
+    ).all(testSuiteId) as Pick<TestCase, 'id' | 'scenarioType'>[];
+    const splits = assignSplits(testCases, holdoutFraction);
+
+    const updateSplit = this.database.db.prepare('UPDATE TestCase SET split = ? WHERE id = ?');
+    this.database.db.transaction(() => {
+      for (const [id, split] of splits) {
+        updateSplit.run(split, id);
+      }
+      this.database.db.prepare(`UPDATE TestSuite SET updatedAt = datetime('now') WHERE id = ?`).run(testSuiteId);
+    })();
+
+    return this.getTestSuite(testSuiteId);
+  }
+
+  /**
+   * Number of cases in each split of a suite.
+   */
+  countSplits(testSuiteId: string): Record<TestSplit, number> {
+    const rows = this.database.db.prepare(
+      'SELECT split, COUNT(*) AS count FROM TestCase WHERE testSuiteId = ? GROUP BY split'
+    ).all(testSuiteId) as { split: TestSplit; count: number }[];
+
+    const counts: Record<TestSplit, number> = { train: 0, holdout: 0 };
+    for (const row of rows) counts[row.split] = row.count;
+    return counts;
+  }
+
+  getTestCase(id: string): TestCase | null {
+    const tcRow = this.database.db.prepare('SELECT * FROM TestCase WHERE id = ?').get(id) as any;
+    if (!tcRow) return null;
+    return this.mapTestCaseRow(tcRow);
+  }
+
+  private mapTestCaseRow(tcRow: any): TestCase {
+    const criteriaRows = this.database.db.prepare(
+      'SELECT * FROM SuccessCriterion WHERE testCaseId = ? ORDER BY createdAt'
+    ).all(tcRow.id) as any[];
+
+    return {
+      id: tcRow.id,
+      scenarioDescription: tcRow.scenarioDescription,
+      scenarioType: tcRow.scenarioType,
+      kind: tcRow.kind,
+      persona: tcRow.persona ? JSON.parse(tcRow.persona) : undefined,
+      userInputSequence: JSON.parse(tcRow.userInputSequence),
+      split: tcRow.split,
+      successCriteria: criteriaRows.map(mapSuccessCriterionRow),
+    };
+  }
+}
+
+/**
+ * Map a SuccessCriterion row to its domain shape, parsing the JSON columns.
+ */
+export function mapSuccessCriterionRow(scRow: any): SuccessCriterion {
+  return {
+    id: scRow.id,
+    description: scRow.description,
+    category: scRow.category,
+    evaluationPrompt: scRow.evaluationPrompt,
+    assertion: scRow.assertion ? JSON.parse(scRow.assertion) : undefined,
+    turnSelector: scRow.turnSelector ? JSON.parse(scRow.turnSelector) : undefined,
+    rubric: scRow.rubric ? JSON.parse(scRow.rubric) : undefined,
+    severity: scRow.severity,
+    weight: scRow.weight ?? undefined,
+  };
+}
+
+/**
+ * Validate how a criterion is checked: LLM-judged criteria need an
+ * evaluationPrompt, deterministic ones need a well-formed assertion,
+ * rubrics only apply to the LLM judge, and any turn selector, severity
+ * or weight must be well-formed.
+ */
+export function validateCriterionCheck(
+  criterion: Pick<SuccessCriterion, 'evaluationPrompt' | 'assertion' | 'turnSelector' | 'rubric' | 'severity' | 'weight'>
+): void {
+  validateCriterionWeighting(criterion);
+  if (criterion.assertion) {
+    validateAssertion(criterion.assertion);
+  }
+  if (criterion.turnSelector) {
+    validateTurnSelector(criterion.turnSelector);
+  }
+  if (criterion.rubric) {
+    if (!isLLMJudged(criterion)) {
+      throw new Error('Rubrics can only be used with LLM-judged criteria');
+    }
+    validateRubric(criterion.rubric);
+  }
+  if (isLLMJudged(criterion) && (!criterion.evaluationPrompt || criterion.evaluationPrompt.trim() === '')) {
+    throw new Error('Each LLM-judged success criterion must have a non-empty evaluationPrompt');
+  }
+}
+
+/**
+ * Validate a criterion's severity and weight, when set.
+ */
+export function validateCriterionWeighting(criterion: Pick<SuccessCriterion, 'severity' | 'weight'>): void {
+  if (criterion.severity !== undefined && !CRITERION_SEVERITIES.includes(criterion.severity)) {
+    throw new Error(`Invalid severity "${criterion.severity}". Must be one of: ${CRITERION_SEVERITIES.join(', ')}`);
+  }
+  if (criterion.weight !== undefined && (typeof criterion.weight !== 'number' || !(criterion.weight > 0))) {
+    throw new Error('Criterion weight must be a positive number');
+  }
+}
+
+/**
+ * Validate a caller persona for a persona-kind test case.
+ */
+export function validatePersona(persona: CallerPersona | undefined): void {
+  if (!persona || typeof persona !== 'object') {
+    throw new Error('Each persona test case must define a persona');
+  }
+  if (!persona.goal || persona.goal.trim() === '') {
+    throw new Error('Each persona must have a non-empty goal');
+  }
+  if (!Array.isArray(persona.knownFacts)) {
+    throw new Error('Each persona must have a knownFacts array');
+  }
+  if (!Number.isInteger(persona.maxTurns) || persona.maxTurns < 1 || persona.maxTurns > MAX_PERSONA_TURNS) {
+    throw new Error(`Persona maxTurns must be an integer between 1 and ${MAX_PERSONA_TURNS}`);
+  }
 }
@@ -0,0 +1,431 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AppDatabase } from '../database';
+import { LLMService } from './llm-service';
+import { AgentTransport, AgentTarget } from './agent-transport';
+import { TestExecutorService } from './test-executor';
+import { ResultEvaluatorService } from './result-evaluator';
+import { TestGeneratorService } from './test-generator';
+import { withLLMAttribution } from './llm-usage';
+import { calculatePassRate, countCriticalFailures } from '../utils/pass-rate';
+import { DEFAULT_EVALUATION_CONFIG } from '../utils/consensus';
+import { calculatePassRateInterval, summarizeTrials } from '../utils/trials';
+import {
+  AgentResponse,
+  CriterionResult,
+  EvaluationConfig,
+  PassRateInterval,
+  TestCase,
+  TestCaseResult,
+  TestSplit,
+} from '../types';
+
+export interface StoredCriterionResult extends CriterionResult {
+  id: string;
+}
+
+export interface StoredTestCaseResult extends TestCaseResult {
+  id: string;
+  criterionResults: StoredCriterionResult[];
+}
+
+export interface TestRunSummary {
+  id: string;
+  overallPassRate: number;
+  // 95% confidence interval around overallPassRate
+  passRateInterval: PassRateInterval;
+  overallScore: number;
+  // Failed critical criteria; any failure here fails the run regardless of pass rate
+  criticalFailures: number;
+  trials: number;
+  // Criteria whose outcome flipped between trials of the same case
+  flakyCriteria: number;
+  status: 'completed';
+}
+
+/**
+ * Optional hooks for following a run while it executes.
+ */
+export interface TestRunObserver {
+  onRunStarted?(testRunId: string, totalCases: number): void;
+  onCaseCompleted?(completedCases: number, totalCases: number): void;
+  // Checked before each case; an aborted run stops and is marked as errored
+  signal?: AbortSignal;
+}
+
+/**
+ * Running totals of a test run, sent with every event. Each trial of a case
+ * counts as one case.
+ */
+export interface TestRunTotals {
+  completedCases: number;
+  totalCases: number;
+  // Criteria judged so far, including those of the case in progress
+  passedCriteria: number;
+  evaluatedCriteria: number;
+  // Weighted pass rate of the completed cases, as the finished run reports it
+  passRate: number;
+}
+
+export interface TestRunEvent extends TestRunTotals {
+  type: 'case_started' | 'turn_completed' | 'criterion_evaluated' | 'case_completed' | 'finished' | 'error';
+  testCaseId?: string;
+  trial?: number;
+  agentResponse?: AgentResponse;
+  criterionResult?: CriterionResult;
+  // The case's full result, on case_completed
+  result?: TestCaseResult;
+  status?: 'completed' | 'error';
+  message?: string;
+}
+
+/**
+ * A test run event as persisted. Ids increase monotonically, so a client that
+ * reconnects can resume after the last event it saw.
+ */
+export interface StoredTestRunEvent extends TestRunEvent {
+  id: number;
+}
+
+export type TestRunEventListener = (event: StoredTestRunEvent) => void;
+
+type TestRunEventDetail = Omit<TestRunEvent, keyof TestRunTotals>;
+
+// Keyed by test run id and shared by every runner, so runs started by a cycle can be followed too
+const runListeners = new Map<string, TestRunEventListener[]>();
+const runTotals = new Map<string, TestRunTotals>();
+
+/**
+ * Map a CriterionResult row to its domain shape, dropping NULL optional columns.
+ */
+export function mapCriterionResultRow(row: any): CriterionResult {
+  return {
+    criterionId: row.criterionId,
+    passed: row.passed === 1,
+    explanation: row.explanation,
+    turn: row.turn ?? undefined,
+    score: row.score ?? undefined,
+    maxScore: row.maxScore ?? undefined,
+    severity: row.severity ?? undefined,
+    weight: row.weight ?? undefined,
+    judgeVotes: row.judgeVotes ? JSON.parse(row.judgeVotes) : undefined,
+    agreement: row.agreement ?? undefined,
+    humanLabel: row.humanLabel === null ? undefined : row.humanLabel === 1,
+    humanLabelNote: row.humanLabelNote ?? undefined,
+  };
+}
+
+/**
+ * Runs test suites against an agent and persists the results:
+ * execute each case, evaluate its criteria, store verdicts, compute the pass rate.
+ */
+export class TestRunnerService {
+  private executor: TestExecutorService;
+  private testCaseStore: TestGeneratorService;
+
+  constructor(
+    private database: AppDatabase,
+    private llmService: LLMService,
+    agentTransport: AgentTransport
+  ) {
+    this.executor = new TestExecutorService(database, agentTransport, llmService);
+    this.testCaseStore = new TestGeneratorService(llmService, database);
+  }
+
+  /**
+   * Execute every case in a suite `trials` times against the agent's current prompt.
+   * `evaluation` configures the judge panel; both are stored with the run so retries reuse them.
+   * `split` restricts the run to the cases of one train/holdout split.
+   */
+  async runSuite(
+    agentId: string,
+    testSuiteId: string,
+    evaluation: EvaluationConfig = DEFAULT_EVALUATION_CONFIG,
+    trials = 1,
+    split?: TestSplit,
+    observer?: TestRunObserver
+  ): Promise<TestRunSummary> {
+    const agent = this.database.db.prepare('SELECT currentPrompt FROM Agent WHERE id = ?').get(agentId) as any;
+    if (!agent) {
+      throw new Error(`Agent '${agentId}' not found`);
+    }
+
+    return this.runPrompt(
+      agentId, testSuiteId, agent.currentPrompt, this.testCaseStore.getTestCases(testSuiteId, split), evaluation, trials, split, observer
+    );
+  }
+
+  /**
+   * Execute the given cases of a suite against `prompt` rather than the agent's
+   * current prompt, e.g. to score an optimization candidate. Stored like any other run.
+   */
+  async runPrompt(
+    agentId: string,
+    testSuiteId: string,
+    prompt: string,
+    testCases: TestCase[],
+    evaluation: EvaluationConfig = DEFAULT_EVALUATION_CONFIG,
+    trials = 1,
+    split?: TestSplit,
+    observer?: TestRunObserver
+  ): Promise<TestRunSummary> {
+    const agent = this.database.db.prepare('SELECT highlevelAgentId FROM Agent WHERE id = ?').get(agentId) as any;
+    if (!agent) {
+      throw new Error(`Agent '${agentId}' not found`);
+    }
+
+    const testRunId = uuidv4();
+    const now = new Date().toISOString();
+
+    this.database.db.prepare(`
+      INSERT INTO TestRun (id, testSuiteId, agentId, promptSnapshot, evaluationConfig, trials, split, status, startedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 'running', ?)
+    `).run(testRunId, testSuiteId, agentId, prompt, JSON.stringify(evaluation), trials, split ?? null, now);
+
+    const target: AgentTarget = { agentPrompt: prompt, highlevelAgentId: agent.highlevelAgentId };
+    const evaluator = new ResultEvaluatorService(this.llmService, evaluation);
+    const allResults: TestCaseResult[] = [];
+    const totals: TestRunTotals = {
+      completedCases: 0, totalCases: testCases.length * trials, passedCriteria: 0, evaluatedCriteria: 0, passRate: 0,
+    };
+    runTotals.set(testRunId, totals);
+    const report = (event: TestRunEventDetail) => this.emit(testRunId, { ...event, ...totals });
+    observer?.onRunStarted?.(testRunId, testCases.length);
+
+    try {
+      await withLLMAttribution({ agentId, testRunId }, async () => {
+        for (const [index, tc] of testCases.entries()) {
+          if (observer?.signal?.aborted) {
+            throw new Error('Test run cancelled');
+          }
+          for (let trial = 1; trial <= trials; trial++) {
+            report({ type: 'case_started', testCaseId: tc.id, trial });
+            const result: TestCaseResult = {
+              ...await this.runTestCase(tc, target, evaluator, {
+                onTurn: (agentResponse) => report({ type: 'turn_completed', testCaseId: tc.id, trial, agentResponse }),
+                onEvaluated: (criterionResult) => {
+                  totals.evaluatedCriteria++;
+                  if (criterionResult.passed) totals.passedCriteria++;
+                  report({ type: 'criterion_evaluated', testCaseId: tc.id, trial, criterionResult });
+                },
+              }),
+              trial,
+            };
+            this.saveCaseResult(testRunId, result);
+            allResults.push(result);
+            totals.completedCases++;
+            totals.passRate = calculatePassRate(allResults);
+            report({ type: 'case_completed', testCaseId: tc.id, trial, result });
+          }
+          observer?.onCaseCompleted?.(index + 1, testCases.length);
+        }
+      });
+    } catch (err: any) {
+      this.database.db.prepare(`UPDATE TestRun SET status = 'error', completedAt = datetime('now') WHERE id = ?`)
+        .run(testRunId);
+      report({ type: 'error', status: 'error', message: err.message });
+      closeRunEvents(testRunId);
+      throw err;
+    }
+
+    const summary = this.updateRunSummary(testRunId, allResults, trials);
+    this.database.db.prepare(`UPDATE TestRun SET status = 'completed', completedAt = datetime('now') WHERE id = ?`)
+      .run(testRunId);
+    report({ type: 'finished', status: 'completed' });
+    closeRunEvents(testRunId);
+
+    return { id: testRunId, ...summary, status: 'completed' };
+  }
+
+  /**
+   * Re-run every trial of one case of an existing run against the run's prompt
+   * snapshot, replacing its stored results and recalculating the run's summary.
+   */
+  async retryTestCase(
+    testRunId: string,
+    testCase: TestCase
+  ): Promise<{ result: TestCaseResult } & Omit<TestRunSummary, 'id' | 'status'>> {
+    const run = this.database.db.prepare(
+      'SELECT agentId, promptSnapshot, evaluationConfig, trials FROM TestRun WHERE id = ?'
+    ).get(testRunId) as any;
+    if (!run) {
+      throw new Error(`Test run '${testRunId}' not found`);
+    }
+    const agent = this.database.db.prepare('SELECT highlevelAgentId FROM Agent WHERE id = ?').get(run.agentId) as any;
+
+    // Delete old results for every trial of this case in this run
+    const oldResults = this.database.db.prepare(
+      'SELECT id FROM TestCaseResult WHERE testRunId = ? AND testCaseId = ?'
+    ).all(testRunId, testCase.id) as any[];
+    for (const old of oldResults) {
+      this.database.db.prepare('DELETE FROM CriterionResult WHERE testCaseResultId = ?').run(old.id);
+      this.database.db.prepare('DELETE FROM TestCaseResult WHERE id = ?').run(old.id);
+    }
+
+    const evaluation: EvaluationConfig = run.evaluationConfig ? JSON.parse(run.evaluationConfig) : DEFAULT_EVALUATION_CONFIG;
+    const results = await withLLMAttribution({ agentId: run.agentId, testRunId }, () => this.runTrials(
+      testCase,
+      { agentPrompt: run.promptSnapshot, highlevelAgentId: agent?.highlevelAgentId },
+      new ResultEvaluatorService(this.llmService, evaluation),
+      run.trials
+    ));
+    for (const result of results) {
+      this.saveCaseResult(testRunId, result);
+    }
+
+    const summary = this.updateRunSummary(testRunId, this.getCaseResults(testRunId), run.trials);
+    // Report the last trial; any errored trial takes precedence so the caller can retry again
+    const result = results.find(r => r.status === 'error') ?? results[results.length - 1];
+    return { result, ...summary };
+  }
+
+  /**
+   * Follow a run this process is executing; listeners are dropped once it finishes.
+   */
+  addEventListener(testRunId: string, listener: TestRunEventListener): void {
+    runListeners.set(testRunId, [...(runListeners.get(testRunId) || []), listener]);
+  }
+
+  removeEventListener(testRunId: string, listener: TestRunEventListener): void {
+    const existing = runListeners.get(testRunId);
+    if (existing) {
+      runListeners.set(testRunId, existing.filter(l => l !== listener));
+    }
+  }
+
+  /**
+   * Current totals of a run this process is executing, or null once it has finished.
+   */
+  getLiveTotals(testRunId: string): TestRunTotals | null {
+    const totals = runTotals.get(testRunId);
+    return totals ? { ...totals } : null;
+  }
+
+  /**
+   * Events of a run in the order they were emitted, optionally only those after `afterId`.
+   */
+  getRunEvents(testRunId: string, afterId = 0): StoredTestRunEvent[] {
+    const rows = this.database.db.prepare(
+      'SELECT id, data FROM TestRunEvent WHERE testRunId = ? AND id > ? ORDER BY id'
+    ).all(testRunId, afterId) as any[];
+    return rows.map(row => ({ id: row.id, ...JSON.parse(row.data) }));
+  }
+
+  getCaseResults(testRunId: string): StoredTestCaseResult[] {
+    const caseRows = this.database.db.prepare(
+      'SELECT * FROM TestCaseResult WHERE testRunId = ? ORDER BY executedAt, rowid'
+    ).all(testRunId) as any[];
+
+    return caseRows.map((tcr: any) => {
+      const criterionRows = this.database.db.prepare(
+        'SELECT * FROM CriterionResult WHERE testCaseResultId = ?'
+      ).all(tcr.id) as any[];
+
+      return {
+        id: tcr.id,
+        testCaseId: tcr.testCaseId,
+        trial: tcr.trial,
+        agentResponses: JSON.parse(tcr.agentResponses),
+        status: tcr.status,
+        errorMessage: tcr.errorMessage || undefined,
+        callerOutcome: tcr.callerOutcome || undefined,
+        criterionResults: criterionRows.map(row => ({ id: row.id, ...mapCriterionResultRow(row) })),
+      };
+    });
+  }
+
+  private async runTrials(
+    testCase: TestCase,
+    target: AgentTarget,
+    evaluator: ResultEvaluatorService,
+    trials: number
+  ): Promise<TestCaseResult[]> {
+    const results: TestCaseResult[] = [];
+    for (let trial = 1; trial <= trials; trial++) {
+      results.push({ ...await this.runTestCase(testCase, target, evaluator), trial });
+    }
+    return results;
+  }
+
+  /**
+   * Recalculate and store the run's pass rate, interval, score, critical failures and flaky count.
+   */
+  private updateRunSummary(
+    testRunId: string,
+    results: TestCaseResult[],
+    trials: number
+  ): Omit<TestRunSummary, 'id' | 'status'> {
+    const overallPassRate = calculatePassRate(results);
+    const passRateInterval = calculatePassRateInterval(results);
+    const overallScore = calculatePassRate(results, 'score');
+    const criticalFailures = countCriticalFailures(results);
+    const flakyCriteria = summarizeTrials(results).filter(s => s.flaky).length;
+    this.database.db.prepare(`
+      UPDATE TestRun SET overallPassRate = ?, passRateLower = ?, passRateUpper = ?, overallScore = ?,
+        criticalFailures = ?, flakyCriteria = ?
+      WHERE id = ?
+    `).run(
+      overallPassRate, passRateInterval.lower, passRateInterval.upper, overallScore,
+      criticalFailures, flakyCriteria, testRunId
+    );
+
+    return { overallPassRate, passRateInterval, overallScore, criticalFailures, trials, flakyCriteria };
+  }
+
+  private async runTestCase(
+    testCase: TestCase,
+    target: AgentTarget,
+    evaluator: ResultEvaluatorService,
+    hooks: { onTurn?: (response: AgentResponse) => void; onEvaluated?: (result: CriterionResult) => void } = {}
+  ): Promise<TestCaseResult> {
+    const result = await this.executor.executeTestCase(testCase, target, hooks.onTurn);
+    if (result.status === 'completed') {
+      result.criterionResults = await evaluator.evaluateAllCriteria(
+        result.agentResponses, testCase.successCriteria, hooks.onEvaluated
+      );
+    }
+    return result;
+  }
+
+  private saveCaseResult(testRunId: string, result: TestCaseResult): string {
+    const resultId = uuidv4();
+    this.database.db.prepare(`
+      INSERT INTO TestCaseResult (id, testRunId, testCaseId, trial, agentResponses, status, errorMessage, callerOutcome, executedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+    `).run(
+      resultId, testRunId, result.testCaseId, result.trial ?? 1, JSON.stringify(result.agentResponses), result.status,
+      result.errorMessage || null, result.callerOutcome || null
+    );
+
+    const insertCriterion = this.database.db.prepare(`
+      INSERT INTO CriterionResult (
+        id, testCaseResultId, criterionId, passed, explanation, turn, score, maxScore, severity, weight, judgeVotes, agreement
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const cr of result.criterionResults) {
+      insertCriterion.run(
+        uuidv4(), resultId, cr.criterionId, cr.passed ? 1 : 0, cr.explanation,
+        cr.turn ?? null, cr.score ?? null, cr.maxScore ?? null, cr.severity ?? null, cr.weight ?? null,
+        cr.judgeVotes ? JSON.stringify(cr.judgeVotes) : null, cr.agreement ?? null
+      );
+    }
+
+    return resultId;
+  }
+
+  // Persist before notifying, so a listener that reconnects never misses an event
+  private emit(testRunId: string, event: TestRunEvent): void {
+    const { lastInsertRowid } = this.database.db.prepare('INSERT INTO TestRunEvent (testRunId, data) VALUES (?, ?)')
+      .run(testRunId, JSON.stringify(event));
+    const stored: StoredTestRunEvent = { id: Number(lastInsertRowid), ...event };
+
+    for (const listener of runListeners.get(testRunId) || []) {
+      listener(stored);
+    }
+  }
+}
+
+function closeRunEvents(testRunId: string): void {
+  runListeners.delete(testRunId);
+  runTotals.delete(testRunId);
+}
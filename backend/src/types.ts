@@ -25,38 +25,195 @@ export interface UserInput {
   context?: string;
 }
 
+/**
+ * Mechanical checks evaluated locally instead of by the LLM judge.
+ * `withinTurns` limits any assertion to the first N agent turns.
+ */
+export type CriterionAssertion = (
+  | { type: 'llm-judge' }
+  | { type: 'regex'; pattern: string; flags?: string }
+  | { type: 'contains'; value: string; caseSensitive?: boolean }
+  | { type: 'not-contains'; value: string; caseSensitive?: boolean }
+  | { type: 'max-words'; limit: number }
+  | { type: 'max-chars'; limit: number }
+  | { type: 'json-path'; path: string; equals?: unknown }
+) & { withinTurns?: number };
+
+export type AssertionType = CriterionAssertion['type'];
+
+/**
+ * Which agent turns a criterion is judged against (1-based). `by-turn` selects
+ * turns 1..N. With `match` each selected turn is judged on its own: `any` passes
+ * on the first passing turn, `all` fails on the first failing one. Without
+ * `match` the selected turns are judged together (`by-turn` defaults to `any`).
+ */
+export type TurnSelector = (
+  | { scope: 'turn'; turn: number }
+  | { scope: 'range'; from: number; to: number }
+  | { scope: 'first' }
+  | { scope: 'last' }
+  | { scope: 'by-turn'; turn: number }
+) & { match?: 'any' | 'all' };
+
+export type TurnScope = TurnSelector['scope'];
+
+/**
+ * Graded 0..N scale for LLM-judged criteria. `levels[i]` describes score i;
+ * a score at or above `passThreshold` counts as a pass.
+ */
+export interface CriterionRubric {
+  levels: string[];
+  passThreshold: number;
+}
+
+export type CriterionSeverity = 'critical' | 'major' | 'minor';
+
 export interface SuccessCriterion {
   id: string;
   description: string;
   category: 'behavioral' | 'functional' | 'compliance';
   evaluationPrompt: string;
+  // Defaults to an LLM judge when omitted
+  assertion?: CriterionAssertion;
+  // Defaults to the whole conversation when omitted
+  turnSelector?: TurnSelector;
+  // Graded scoring for LLM-judged criteria; boolean pass/fail when omitted
+  rubric?: CriterionRubric;
+  // Defaults to 'major'; any critical failure fails the whole run
+  severity?: CriterionSeverity;
+  // Pass-rate weight; defaults to the severity's weight
+  weight?: number;
+}
+
+export interface CallerPersona {
+  goal: string;
+  knownFacts: string[];
+  temperament: string;
+  giveUpCondition: string;
+  maxTurns: number;
 }
 
+/**
+ * Optimization cycles learn from the training split and are measured on the
+ * holdout split, so prompt changes cannot overfit the cases they are scored on.
+ */
+export type TestSplit = 'train' | 'holdout';
+
 export interface TestCase {
   id: string;
   scenarioDescription: string;
   scenarioType: 'happy-path' | 'adversarial';
+  // 'train' when omitted
+  split?: TestSplit;
+  // 'scripted' (default) replays userInputSequence; 'persona' lets an LLM caller react to the agent
+  kind?: 'scripted' | 'persona';
+  persona?: CallerPersona;
   userInputSequence: UserInput[];
   successCriteria: SuccessCriterion[];
 }
 
+export interface ToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
 export interface AgentResponse {
   turn: number;
   utterance: string;
+  userUtterance?: string;
+  toolCalls?: ToolCall[];
+}
+
+export type CallerOutcome = 'goal-reached' | 'gave-up' | 'max-turns';
+
+export interface CallerTurn {
+  status: 'continue' | 'goal-reached' | 'gave-up';
+  utterance: string;
+}
+
+export interface ConversationMessage {
+  role: 'user' | 'agent';
+  content: string;
+  context?: string;
 }
 
 export interface CriterionResult {
   criterionId: string;
   passed: boolean;
   explanation: string;
+  // Agent turn the verdict came from, when it can be pinned to one
+  turn?: number;
+  // Rubric score out of maxScore, set for rubric criteria only
+  score?: number;
+  maxScore?: number;
+  // Copied from the criterion at evaluation time
+  severity?: CriterionSeverity;
+  weight?: number;
+  // Individual votes and the share agreeing with the verdict, for panel evaluations
+  judgeVotes?: JudgeVote[];
+  agreement?: number;
+  // QA reviewer's verdict overriding the judge, used as gold data for judge calibration
+  humanLabel?: boolean;
+  humanLabelNote?: string;
+}
+
+export type JudgeVariant = 'standard' | 'strict' | 'evidence';
+
+/**
+ * One LLM judge on an evaluation panel. Omitted fields fall back to the
+ * service's default model, the evaluation temperature and the standard prompt.
+ */
+export interface JudgeConfig {
+  model?: string;
+  temperature?: number;
+  variant?: JudgeVariant;
+}
+
+export type ConsensusResolution = 'majority' | 'unanimous';
+
+/**
+ * How LLM-judged criteria are decided: a single judge by default, or a panel
+ * whose votes are resolved by majority or unanimity.
+ */
+export interface EvaluationConfig {
+  judges: JudgeConfig[];
+  resolution: ConsensusResolution;
+}
+
+export interface JudgeVote {
+  judge: string;
+  passed: boolean;
+  explanation: string;
+  score?: number;
 }
 
 export interface TestCaseResult {
   testCaseId: string;
+  // 1-based repetition number when a run executes each case several times
+  trial?: number;
   agentResponses: AgentResponse[];
   criterionResults: CriterionResult[];
   status: 'completed' | 'error';
   errorMessage?: string;
+  callerOutcome?: CallerOutcome;
+}
+
+export interface PassRateInterval {
+  lower: number;
+  upper: number;
+}
+
+/**
+ * How one criterion of one case fared across a run's repeated trials.
+ */
+export interface CriterionTrialStats {
+  testCaseId: string;
+  criterionId: string;
+  trials: number;
+  passes: number;
+  passProbability: number;
+  // Both passed and failed across trials
+  flaky: boolean;
 }
 
 export interface PromptChange {
@@ -64,9 +221,71 @@ export interface PromptChange {
   rationale: string;
 }
 
+/**
+ * How one tournament candidate is generated: a sampling temperature and/or an
+ * area the revision should concentrate on. Both fall back to the defaults.
+ */
+export interface OptimizationCandidateConfig {
+  temperature?: number;
+  focus?: string;
+}
+
+/**
+ * Generate one revision per candidate config, score each against the suite
+ * (or `sampleSize` of its cases) and promote the best.
+ */
+export interface OptimizationStrategy {
+  candidates: OptimizationCandidateConfig[];
+  sampleSize?: number;
+}
+
+/**
+ * Extra conditions that end an optimization cycle before `maxCycles`. Each
+ * one is off when omitted.
+ */
+export interface CycleStopPolicy {
+  // Stop once the best pass rate has risen by less than `minImprovement` over the last `window` cycles
+  plateau?: { window: number; minImprovement: number };
+  // Spend budgets on the LLM calls recorded for the cycle, in calls and in USD; checked between steps,
+  // so one step may overshoot them
+  maxLLMCalls?: number;
+  maxCost?: number;
+  // Wall-clock limit from the start of the cycle
+  maxDurationMs?: number;
+  // Stop as soon as every critical criterion passes, whatever the pass rate; never fires on a suite without any
+  stopWhenCriticalPassing?: boolean;
+}
+
+export type CycleStopReason =
+  | 'threshold-met'
+  | 'max-cycles'
+  | 'plateau'
+  | 'budget-exhausted'
+  | 'time-limit'
+  | 'critical-passing'
+  // An agent, cycle or global spend cap refused an LLM call mid-step
+  | 'spend-cap'
+  | 'cancelled'
+  | 'paused'
+  // Server restart or a failed step; resumable from the last checkpoint
+  | 'interrupted';
+
 export interface OptimizationResult {
   originalPrompt: string;
   revisedPrompt: string;
   changes: PromptChange[];
   targetedFailures: string[];
 }
+
+/**
+ * What an LLM call is for. Each operation can be routed to its own provider and model.
+ */
+export type LLMOperation = 'analysis' | 'generation' | 'judging' | 'optimization' | 'simulation';
+
+/**
+ * A hard cap on LLM spend, in USD, tokens or both. Calls past either limit are refused.
+ */
+export interface LLMBudget {
+  maxCost?: number;
+  maxTokens?: number;
+}
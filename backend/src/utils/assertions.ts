@@ -0,0 +1,143 @@
+import { AgentResponse, CriterionAssertion, CriterionResult, SuccessCriterion } from '../types';
+import { queryJsonPath, parseJsonPath, deepEqual } from './json-path';
+
+export const ASSERTION_TYPES: CriterionAssertion['type'][] = [
+  'llm-judge', 'regex', 'contains', 'not-contains', 'max-words', 'max-chars', 'json-path',
+];
+
+/**
+ * True when the criterion needs the LLM judge rather than a local check.
+ */
+export function isLLMJudged(criterion: Pick<SuccessCriterion, 'assertion'>): boolean {
+  return !criterion.assertion || criterion.assertion.type === 'llm-judge';
+}
+
+/**
+ * Restrict agent responses to the first `withinTurns` turns, if set.
+ */
+export function selectAssertionTurns(
+  agentResponses: AgentResponse[],
+  assertion: CriterionAssertion | undefined
+): AgentResponse[] {
+  if (!assertion?.withinTurns) return agentResponses;
+  return agentResponses.filter(r => r.turn <= assertion.withinTurns!);
+}
+
+export function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed === '' ? 0 : trimmed.split(/\s+/).length;
+}
+
+/**
+ * Each assertion type needs the field it checks against. Regex patterns are
+ * compiled here, so an invalid one is rejected when saved rather than at run time.
+ */
+export function validateAssertion(assertion: CriterionAssertion): void {
+  if (!assertion || !ASSERTION_TYPES.includes(assertion.type)) {
+    throw new Error(
+      `Invalid assertion type "${(assertion as any)?.type}". Must be one of: ${ASSERTION_TYPES.join(', ')}`
+    );
+  }
+  if (assertion.withinTurns !== undefined && (!Number.isInteger(assertion.withinTurns) || assertion.withinTurns < 1)) {
+    throw new Error('Assertion withinTurns must be a positive integer');
+  }
+
+  switch (assertion.type) {
+    case 'regex':
+      if (!assertion.pattern) throw new Error('Regex assertions require a "pattern"');
+      new RegExp(assertion.pattern, assertion.flags);
+      break;
+    case 'contains':
+    case 'not-contains':
+      if (!assertion.value) throw new Error(`${assertion.type} assertions require a non-empty "value"`);
+      break;
+    case 'max-words':
+    case 'max-chars':
+      if (!Number.isInteger(assertion.limit) || assertion.limit < 1) {
+        throw new Error(`${assertion.type} assertions require a positive integer "limit"`);
+      }
+      break;
+    case 'json-path':
+      if (!assertion.path) throw new Error('json-path assertions require a "path"');
+      parseJsonPath(assertion.path);
+      break;
+  }
+}
+
+/**
+ * Evaluate a deterministic assertion against the agent's responses.
+ * Text checks pass on any matching turn (regex, contains) or require every
+ * turn to comply (not-contains, max-words, max-chars). JSON-path checks run
+ * against each tool call and pass when any call matches.
+ */
+export function evaluateAssertion(
+  agentResponses: AgentResponse[],
+  criterion: SuccessCriterion
+): CriterionResult {
+  const assertion = criterion.assertion;
+  if (!assertion || assertion.type === 'llm-judge') {
+    throw new Error(`Criterion "${criterion.description}" has no deterministic assertion`);
+  }
+
+  const turns = selectAssertionTurns(agentResponses, assertion);
+  const scope = assertion.withinTurns ? ` within the first ${assertion.withinTurns} turn(s)` : '';
+  const result = (passed: boolean, explanation: string, turn?: number): CriterionResult => ({
+    criterionId: criterion.id,
+    passed,
+    explanation,
+    turn,
+  });
+
+  switch (assertion.type) {
+    case 'regex': {
+      // Drop the global flag so RegExp.test does not carry lastIndex across turns
+      const regex = new RegExp(assertion.pattern, (assertion.flags ?? '').replace('g', ''));
+      const hit = turns.find(r => regex.test(r.utterance));
+      return hit
+        ? result(true, `Turn ${hit.turn} matches /${assertion.pattern}/`, hit.turn)
+        : result(false, `No agent turn${scope} matches /${assertion.pattern}/`);
+    }
+
+    case 'contains':
+    case 'not-contains': {
+      const needle = assertion.caseSensitive ? assertion.value : assertion.value.toLowerCase();
+      const hit = turns.find(r =>
+        (assertion.caseSensitive ? r.utterance : r.utterance.toLowerCase()).includes(needle)
+      );
+      if (assertion.type === 'contains') {
+        return hit
+          ? result(true, `Turn ${hit.turn} contains "${assertion.value}"`, hit.turn)
+          : result(false, `No agent turn${scope} contains "${assertion.value}"`);
+      }
+      return hit
+        ? result(false, `Turn ${hit.turn} contains forbidden text "${assertion.value}"`, hit.turn)
+        : result(true, `No agent turn${scope} contains "${assertion.value}"`);
+    }
+
+    case 'max-words':
+    case 'max-chars': {
+      const unit = assertion.type === 'max-words' ? 'words' : 'characters';
+      const measure = (text: string) => (assertion.type === 'max-words' ? countWords(text) : text.length);
+      const over = turns.find(r => measure(r.utterance) > assertion.limit);
+      return over
+        ? result(false, `Turn ${over.turn} has ${measure(over.utterance)} ${unit} (limit ${assertion.limit})`, over.turn)
+        : result(true, `Every agent turn${scope} is within ${assertion.limit} ${unit}`);
+    }
+
+    case 'json-path': {
+      const expectation = assertion.equals !== undefined ? ` equal to ${JSON.stringify(assertion.equals)}` : '';
+      for (const r of turns) {
+        for (const call of r.toolCalls ?? []) {
+          const matches = queryJsonPath(call, assertion.path);
+          const ok = assertion.equals === undefined
+            ? matches.length > 0
+            : matches.some(m => deepEqual(m, assertion.equals));
+          if (ok) {
+            return result(true, `Turn ${r.turn} tool call "${call.name}" has ${assertion.path}${expectation}`, r.turn);
+          }
+        }
+      }
+      return result(false, `No tool call${scope} has ${assertion.path}${expectation}`);
+    }
+  }
+}
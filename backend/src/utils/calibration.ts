@@ -0,0 +1,67 @@
+/**
+ * A judge verdict paired with the human label for the same criterion result.
+ */
+export interface LabelledVerdict {
+  human: boolean;
+  judge: boolean;
+}
+
+/**
+ * Judge-vs-human agreement with "passed" as the positive class: precision is
+ * the share of judge passes the reviewer also passed, recall the share of
+ * reviewer passes the judge caught. Ratios are null when undefined (no samples
+ * in the denominator, or both raters using a single label for kappa).
+ */
+export interface AgreementMetrics {
+  total: number;
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+  accuracy: number | null;
+  precision: number | null;
+  recall: number | null;
+  kappa: number | null;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : numerator / denominator;
+}
+
+/**
+ * Confusion counts, precision, recall and Cohen's kappa for a set of labelled verdicts.
+ */
+export function computeAgreementMetrics(verdicts: LabelledVerdict[]): AgreementMetrics {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let trueNegatives = 0;
+  let falseNegatives = 0;
+  for (const { human, judge } of verdicts) {
+    if (judge && human) truePositives++;
+    else if (judge) falsePositives++;
+    else if (human) falseNegatives++;
+    else trueNegatives++;
+  }
+
+  const total = verdicts.length;
+  const observed = ratio(truePositives + trueNegatives, total);
+  // Agreement expected by chance given each rater's pass rate
+  const expected = total === 0 ? null
+    : ((truePositives + falsePositives) * (truePositives + falseNegatives)
+      + (trueNegatives + falseNegatives) * (trueNegatives + falsePositives)) / (total * total);
+  const kappa = observed === null || expected === null || expected === 1
+    ? null
+    : (observed - expected) / (1 - expected);
+
+  return {
+    total,
+    truePositives,
+    falsePositives,
+    trueNegatives,
+    falseNegatives,
+    accuracy: observed,
+    precision: ratio(truePositives, truePositives + falsePositives),
+    recall: ratio(truePositives, truePositives + falseNegatives),
+    kappa,
+  };
+}
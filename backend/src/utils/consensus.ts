@@ -0,0 +1,79 @@
+import { ConsensusResolution, EvaluationConfig, JudgeConfig, JudgeVariant, JudgeVote } from '../types';
+
+export const JUDGE_VARIANTS: JudgeVariant[] = ['standard', 'strict', 'evidence'];
+
+export const CONSENSUS_RESOLUTIONS: ConsensusResolution[] = ['majority', 'unanimous'];
+
+export const MAX_JUDGES = 7;
+
+// Verdicts where fewer judges than this share agreed are flagged as untrustworthy
+export const LOW_AGREEMENT_THRESHOLD = 0.75;
+
+export const DEFAULT_EVALUATION_CONFIG: EvaluationConfig = {
+  judges: [{}],
+  resolution: 'majority',
+};
+
+/**
+ * A panel has 1 to MAX_JUDGES judges and a known resolution. Each judge's
+ * model, temperature and variant are optional overrides of the defaults.
+ */
+export function validateEvaluationConfig(config: EvaluationConfig): void {
+  if (!config || !Array.isArray(config.judges) || config.judges.length === 0) {
+    throw new Error('Evaluation config requires a non-empty "judges" array');
+  }
+  if (config.judges.length > MAX_JUDGES) {
+    throw new Error(`Evaluation panels are limited to ${MAX_JUDGES} judges`);
+  }
+  if (!CONSENSUS_RESOLUTIONS.includes(config.resolution)) {
+    throw new Error(`Invalid resolution "${config.resolution}". Must be one of: ${CONSENSUS_RESOLUTIONS.join(', ')}`);
+  }
+
+  for (const judge of config.judges) {
+    if (judge.model !== undefined && (typeof judge.model !== 'string' || judge.model.trim() === '')) {
+      throw new Error('Judge model must be a non-empty string');
+    }
+    if (judge.temperature !== undefined && !(judge.temperature >= 0 && judge.temperature <= 2)) {
+      throw new Error('Judge temperature must be between 0 and 2');
+    }
+    if (judge.variant !== undefined && !JUDGE_VARIANTS.includes(judge.variant)) {
+      throw new Error(`Invalid judge variant "${judge.variant}". Must be one of: ${JUDGE_VARIANTS.join(', ')}`);
+    }
+  }
+}
+
+/**
+ * Short label identifying a judge in stored votes, e.g. "gpt-4o@0.7/strict".
+ */
+export function describeJudge(judge: JudgeConfig): string {
+  const model = judge.model ?? 'default';
+  const temperature = judge.temperature !== undefined ? `@${judge.temperature}` : '';
+  return `${model}${temperature}/${judge.variant ?? 'standard'}`;
+}
+
+/**
+ * Resolve judge votes into a verdict. Majority ties fail. Agreement is the
+ * share of judges that voted with the verdict. Rubric scores take the lower
+ * median (majority) or the minimum (unanimous), which keeps the score on the
+ * same side of the pass threshold as the verdict.
+ */
+export function resolveVotes(
+  votes: JudgeVote[],
+  resolution: ConsensusResolution
+): { passed: boolean; agreement: number; score?: number } {
+  const passCount = votes.filter(v => v.passed).length;
+  const passed = resolution === 'unanimous'
+    ? passCount === votes.length
+    : passCount * 2 > votes.length;
+  const agreeing = passed ? passCount : votes.length - passCount;
+
+  const scores = votes.map(v => v.score).filter((s): s is number => s !== undefined).sort((a, b) => a - b);
+  const scoreIndex = resolution === 'unanimous' ? 0 : Math.floor((scores.length - 1) / 2);
+  const score = scores.length > 0 ? scores[scoreIndex] : undefined;
+
+  return { passed, agreement: agreeing / votes.length, score };
+}
+
+export function isLowAgreement(agreement: number | undefined): boolean {
+  return agreement !== undefined && agreement < LOW_AGREEMENT_THRESHOLD;
+}
@@ -0,0 +1,65 @@
+/**
+ * Resolve a small JSONPath subset against a value and return every match.
+ * Supported: `$` root, `.key`, `['key']`, `[0]` and `*` / `[*]` wildcards.
+ */
+export function queryJsonPath(root: unknown, path: string): unknown[] {
+  let current: unknown[] = [root];
+
+  for (const segment of parseJsonPath(path)) {
+    const next: unknown[] = [];
+    for (const value of current) {
+      if (value === null || typeof value !== 'object') continue;
+
+      if (segment === '*') {
+        next.push(...(Array.isArray(value) ? value : Object.values(value)));
+      } else if (Array.isArray(value)) {
+        if (typeof segment === 'number' && segment < value.length) next.push(value[segment]);
+      } else if (Object.prototype.hasOwnProperty.call(value, segment)) {
+        next.push((value as Record<string, unknown>)[segment]);
+      }
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+export function parseJsonPath(path: string): Array<string | number> {
+  const trimmed = path.trim();
+  if (!trimmed.startsWith('$')) {
+    throw new Error(`JSON path must start with "$": ${path}`);
+  }
+
+  const segments: Array<string | number> = [];
+  const tokenPattern = /\.([A-Za-z_$][\w$-]*|\*)|\[(\d+)\]|\[\*\]|\['([^']*)'\]|\["([^"]*)"\]/y;
+  let index = 1;
+
+  while (index < trimmed.length) {
+    tokenPattern.lastIndex = index;
+    const match = tokenPattern.exec(trimmed);
+    if (!match) {
+      throw new Error(`Invalid JSON path "${path}" at position ${index}`);
+    }
+    if (match[1] !== undefined) segments.push(match[1]);
+    else if (match[2] !== undefined) segments.push(Number(match[2]));
+    else if (match[3] !== undefined) segments.push(match[3]);
+    else if (match[4] !== undefined) segments.push(match[4]);
+    else segments.push('*');
+    index = tokenPattern.lastIndex;
+  }
+
+  return segments;
+}
+
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  if (aKeys.length !== bKeys.length) return false;
+  return aKeys.every(key =>
+    deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
@@ -0,0 +1,57 @@
+import { LLMBudget } from '../types';
+
+export type LLMBudgetScope = 'global' | 'agent' | 'cycle';
+
+/**
+ * Spend so far against a budget; cost excludes calls to unpriced models.
+ */
+export interface LLMSpend {
+  cost: number;
+  tokens: number;
+}
+
+/**
+ * A budget caps USD, tokens or both; a budget with neither would never stop anything.
+ */
+export function validateLLMBudget(budget: LLMBudget): void {
+  if (!budget || typeof budget !== 'object' || Array.isArray(budget)) {
+    throw new Error('budget must be an object');
+  }
+  if (budget.maxCost === undefined && budget.maxTokens === undefined) {
+    throw new Error('budget needs a maxCost, a maxTokens or both');
+  }
+  if (budget.maxCost !== undefined && !(typeof budget.maxCost === 'number' && budget.maxCost > 0)) {
+    throw new Error('budget.maxCost must be a positive number of USD');
+  }
+  if (budget.maxTokens !== undefined && (!Number.isInteger(budget.maxTokens) || budget.maxTokens < 1)) {
+    throw new Error('budget.maxTokens must be a positive integer');
+  }
+}
+
+/**
+ * The limit `spent` has reached, described for error messages, or null while
+ * there is budget left.
+ */
+export function findExhaustedLimit(budget: LLMBudget, spent: LLMSpend): string | null {
+  if (budget.maxCost !== undefined && spent.cost >= budget.maxCost) {
+    return `$${spent.cost.toFixed(4)} spent of a $${budget.maxCost} cap`;
+  }
+  if (budget.maxTokens !== undefined && spent.tokens >= budget.maxTokens) {
+    return `${spent.tokens} tokens used of a ${budget.maxTokens} token cap`;
+  }
+  return null;
+}
+
+/**
+ * Global budget from LLM_BUDGET_USD and LLM_BUDGET_TOKENS, or null when neither is set.
+ */
+export function llmBudgetFromEnv(env: Record<string, string | undefined>): LLMBudget | null {
+  if (!env.LLM_BUDGET_USD && !env.LLM_BUDGET_TOKENS) return null;
+
+  const budget: LLMBudget = {
+    maxCost: env.LLM_BUDGET_USD ? Number(env.LLM_BUDGET_USD) : undefined,
+    maxTokens: env.LLM_BUDGET_TOKENS ? Number(env.LLM_BUDGET_TOKENS) : undefined,
+  };
+  validateLLMBudget(budget);
+  return budget;
+}
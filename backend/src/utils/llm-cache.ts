@@ -0,0 +1,66 @@
+import { createHash } from 'crypto';
+import { LLMOperation } from '../types';
+import { LLM_OPERATIONS } from './llm-config';
+
+// Judging and analysis are the calls a re-run repeats verbatim; simulation is left out so trials still vary
+export const DEFAULT_CACHED_OPERATIONS: LLMOperation[] = ['analysis', 'judging'];
+
+export const DEFAULT_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface LLMCacheConfig {
+  operations: LLMOperation[];
+  ttlSeconds: number;
+}
+
+/**
+ * Everything that determines a response: the prompt template with its
+ * variables filled in, the model and the sampling settings.
+ */
+export interface LLMCacheKeyParts {
+  operation: LLMOperation;
+  model: string;
+  temperature: number;
+  jsonMode: boolean;
+  messages: { role: string; content: string }[];
+}
+
+/**
+ * SHA-256 of the request, so identical requests share one cache entry.
+ */
+export function hashLLMRequest(parts: LLMCacheKeyParts): string {
+  const { operation, model, temperature, jsonMode, messages } = parts;
+  return createHash('sha256')
+    .update(JSON.stringify([operation, model, temperature, jsonMode, messages.map(m => [m.role, m.content])]))
+    .digest('hex');
+}
+
+/**
+ * Only known operations can be cached, for at least one whole second.
+ */
+export function validateLLMCacheConfig(config: LLMCacheConfig): void {
+  for (const op of config.operations) {
+    if (!LLM_OPERATIONS.includes(op)) {
+      throw new Error(`Unknown LLM operation "${op}" to cache. Must be one of: ${LLM_OPERATIONS.join(', ')}`);
+    }
+  }
+  if (!Number.isInteger(config.ttlSeconds) || config.ttlSeconds < 1) {
+    throw new Error('LLM cache TTL must be a positive whole number of seconds');
+  }
+}
+
+/**
+ * Cache config from LLM_CACHE (`true` to enable), LLM_CACHE_OPERATIONS
+ * (comma-separated) and LLM_CACHE_TTL_SECONDS, or null when the cache is off.
+ */
+export function llmCacheConfigFromEnv(env: Record<string, string | undefined>): LLMCacheConfig | null {
+  if (env.LLM_CACHE !== 'true') return null;
+
+  const config: LLMCacheConfig = {
+    operations: env.LLM_CACHE_OPERATIONS
+      ? env.LLM_CACHE_OPERATIONS.split(',').map(op => op.trim() as LLMOperation).filter(Boolean)
+      : DEFAULT_CACHED_OPERATIONS,
+    ttlSeconds: env.LLM_CACHE_TTL_SECONDS ? Number(env.LLM_CACHE_TTL_SECONDS) : DEFAULT_CACHE_TTL_SECONDS,
+  };
+  validateLLMCacheConfig(config);
+  return config;
+}
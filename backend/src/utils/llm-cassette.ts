@@ -0,0 +1,108 @@
+import { createHash } from 'crypto';
+import { LLMOperation } from '../types';
+import { LLM_OPERATIONS } from './llm-config';
+
+export const LLM_CASSETTE_VERSION = 1;
+
+export type LLMCassetteMode = 'record' | 'replay';
+
+export interface LLMCassetteConfig {
+  mode: LLMCassetteMode;
+  path: string;
+}
+
+/**
+ * First line of a cassette: the provider and model each operation was routed
+ * to while recording, so a replay routes the same way without any provider config.
+ */
+export interface LLMCassetteHeader {
+  version: number;
+  recordedAt: string;
+  routes: Record<LLMOperation, { provider: string; model: string }>;
+}
+
+/**
+ * One recorded provider call; every line after the header is one of these.
+ */
+export interface LLMCassetteInteraction {
+  key: string;
+  provider: string;
+  model: string;
+  temperature: number;
+  jsonMode: boolean;
+  messages: { role: string; content: string }[];
+  content: string;
+  usage?: { promptTokens: number; completionTokens: number };
+}
+
+/**
+ * SHA-256 of a provider request. Identical requests share a key and are
+ * replayed in the order they were recorded.
+ */
+export function cassetteKey(
+  provider: string,
+  request: { model: string; temperature: number; jsonMode: boolean; messages: { role: string; content: string }[] }
+): string {
+  const { model, temperature, jsonMode, messages } = request;
+  return createHash('sha256')
+    .update(JSON.stringify([provider, model, temperature, jsonMode, messages.map(m => [m.role, m.content])]))
+    .digest('hex');
+}
+
+/**
+ * Parse a cassette file (JSON Lines: a header, then one interaction per
+ * line). Rejects other format versions and headers missing an operation's
+ * route, since a replay could not route that operation.
+ */
+export function parseCassette(text: string): { header: LLMCassetteHeader; interactions: LLMCassetteInteraction[] } {
+  const lines = text.split('\n').filter(line => line.trim() !== '');
+  if (lines.length === 0) {
+    throw new Error('Cassette is empty');
+  }
+
+  const parseLine = (index: number): any => {
+    try {
+      return JSON.parse(lines[index]);
+    } catch {
+      throw new Error(`Cassette line ${index + 1} is not valid JSON`);
+    }
+  };
+
+  const header = parseLine(0) as LLMCassetteHeader;
+  if (header.version !== LLM_CASSETTE_VERSION) {
+    throw new Error(`Unsupported cassette version ${header.version}; expected ${LLM_CASSETTE_VERSION}`);
+  }
+  for (const op of LLM_OPERATIONS) {
+    const route = header.routes?.[op];
+    if (!route || typeof route.provider !== 'string' || typeof route.model !== 'string') {
+      throw new Error(`Cassette header has no route for ${op}`);
+    }
+  }
+
+  const interactions: LLMCassetteInteraction[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    const interaction = parseLine(i) as LLMCassetteInteraction;
+    if (typeof interaction.key !== 'string' || typeof interaction.content !== 'string') {
+      throw new Error(`Cassette line ${i + 1} needs a "key" and "content"`);
+    }
+    interactions.push(interaction);
+  }
+  return { header, interactions };
+}
+
+/**
+ * Cassette mode from LLM_CASSETTE (`record` or `replay`) and the file at
+ * LLM_CASSETTE_PATH, or null when neither recording nor replaying.
+ */
+export function llmCassetteConfigFromEnv(env: Record<string, string | undefined>): LLMCassetteConfig | null {
+  const mode = env.LLM_CASSETTE;
+  if (!mode) return null;
+
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`LLM_CASSETTE must be "record" or "replay", got "${mode}"`);
+  }
+  if (!env.LLM_CASSETTE_PATH) {
+    throw new Error(`LLM_CASSETTE=${mode} requires LLM_CASSETTE_PATH`);
+  }
+  return { mode, path: env.LLM_CASSETTE_PATH };
+}
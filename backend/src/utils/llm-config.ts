@@ -0,0 +1,168 @@
+import { LLMOperation } from '../types';
+
+export const LLM_OPERATIONS: LLMOperation[] = ['analysis', 'generation', 'judging', 'optimization', 'simulation'];
+
+export type LLMProviderType = 'openai' | 'azure' | 'anthropic' | 'openai-compatible';
+
+export const LLM_PROVIDER_TYPES: LLMProviderType[] = ['openai', 'azure', 'anthropic', 'openai-compatible'];
+
+// Model used when no route names one; Azure and OpenAI-compatible servers have no sensible default
+export const DEFAULT_MODELS: Partial<Record<LLMProviderType, string>> = {
+  openai: 'gpt-4',
+  anthropic: 'claude-3-5-sonnet-latest',
+};
+
+export const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+export interface LLMProviderConfig {
+  type: LLMProviderType;
+  apiKey?: string;
+  // Environment variable holding the key, to keep secrets out of the config file
+  apiKeyEnv?: string;
+  // Required for openai-compatible; overrides the API host for openai and anthropic
+  baseUrl?: string;
+  // Azure resource endpoint and API version
+  endpoint?: string;
+  apiVersion?: string;
+  // OpenAI-style providers only: false for servers that reject `response_format`
+  jsonMode?: boolean;
+}
+
+/**
+ * A named provider and, optionally, the model to call on it.
+ */
+export interface LLMRoute {
+  provider: string;
+  model?: string;
+}
+
+/**
+ * Named providers plus the route each operation takes. Operations without a
+ * route of their own use `default`.
+ */
+export interface LLMConfig {
+  providers: Record<string, LLMProviderConfig>;
+  default: LLMRoute;
+  operations?: Partial<Record<LLMOperation, LLMRoute>>;
+}
+
+const ENV_API_KEYS: Record<LLMProviderType, string> = {
+  openai: 'OPENAI_API_KEY',
+  azure: 'AZURE_OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  'openai-compatible': 'LLM_API_KEY',
+};
+
+/**
+ * Every provider needs the settings its type connects with (a baseUrl for
+ * openai-compatible, an endpoint for Azure), and every route, the default
+ * included, must name one of them.
+ */
+export function validateLLMConfig(config: LLMConfig): void {
+  if (!config || typeof config !== 'object' || !config.providers || typeof config.providers !== 'object') {
+    throw new Error('LLM config requires a "providers" object');
+  }
+
+  for (const [name, provider] of Object.entries(config.providers)) {
+    if (!provider || !LLM_PROVIDER_TYPES.includes(provider.type)) {
+      throw new Error(`Provider "${name}" must have a type of ${LLM_PROVIDER_TYPES.join(', ')}`);
+    }
+    if (provider.type === 'openai-compatible' && !provider.baseUrl) {
+      throw new Error(`Provider "${name}" is openai-compatible and requires a baseUrl`);
+    }
+    if (provider.type === 'azure' && !provider.endpoint) {
+      throw new Error(`Provider "${name}" is an Azure provider and requires an endpoint`);
+    }
+    if (provider.jsonMode !== undefined && typeof provider.jsonMode !== 'boolean') {
+      throw new Error(`Provider "${name}" jsonMode must be a boolean`);
+    }
+  }
+
+  const validateRoute = (label: string, route: LLMRoute | undefined) => {
+    if (!route || typeof route.provider !== 'string' || !config.providers[route.provider]) {
+      throw new Error(`The ${label} route must name one of the configured providers`);
+    }
+    if (route.model !== undefined && (typeof route.model !== 'string' || route.model.trim() === '')) {
+      throw new Error(`The ${label} route's model must be a non-empty string`);
+    }
+  };
+  validateRoute('default', config.default);
+  for (const [op, route] of Object.entries(config.operations ?? {})) {
+    if (!LLM_OPERATIONS.includes(op as LLMOperation)) {
+      throw new Error(`Unknown LLM operation "${op}". Must be one of: ${LLM_OPERATIONS.join(', ')}`);
+    }
+    validateRoute(op, route);
+  }
+}
+
+/**
+ * Provider name and model for every operation. An operation routed to the
+ * default provider without a model uses the default route's model.
+ */
+export function resolveLLMRoutes(config: LLMConfig): Record<LLMOperation, Required<LLMRoute>> {
+  const resolved = {} as Record<LLMOperation, Required<LLMRoute>>;
+  for (const op of LLM_OPERATIONS) {
+    const route = config.operations?.[op] ?? config.default;
+    const model = route.model
+      ?? (route.provider === config.default.provider ? config.default.model : undefined)
+      ?? DEFAULT_MODELS[config.providers[route.provider].type];
+    if (!model) {
+      throw new Error(`No model configured for ${op} on provider "${route.provider}"`);
+    }
+    resolved[op] = { provider: route.provider, model };
+  }
+  return resolved;
+}
+
+/**
+ * The provider's API key, from the config or the environment variable it
+ * names (or the provider type's standard variable).
+ */
+export function resolveApiKey(
+  name: string,
+  provider: LLMProviderConfig,
+  env: Record<string, string | undefined>
+): string | undefined {
+  const key = provider.apiKey ?? env[provider.apiKeyEnv ?? ENV_API_KEYS[provider.type]];
+  if (!key && provider.type !== 'openai-compatible') {
+    throw new Error(`Provider "${name}" has no API key; set ${provider.apiKeyEnv ?? ENV_API_KEYS[provider.type]}`);
+  }
+  return key;
+}
+
+/**
+ * Build a config from environment variables: LLM_PROVIDER picks the default
+ * provider type (OpenAI when only OPENAI_API_KEY is set) and LLM_MODEL its
+ * model; LLM_<OPERATION>_PROVIDER and LLM_<OPERATION>_MODEL reroute one
+ * operation. Each provider type is named after itself. Returns null when no
+ * provider is configured or LLM_PROVIDER is `mock`.
+ */
+export function llmConfigFromEnv(env: Record<string, string | undefined>): LLMConfig | null {
+  const defaultType = env.LLM_PROVIDER || (env.OPENAI_API_KEY ? 'openai' : undefined);
+  if (!defaultType || defaultType === 'mock') return null;
+
+  const config: LLMConfig = { providers: {}, default: { provider: defaultType, model: env.LLM_MODEL || undefined } };
+  const addProvider = (type: string) => {
+    if (!LLM_PROVIDER_TYPES.includes(type as LLMProviderType)) {
+      throw new Error(`Unknown LLM provider "${type}". Must be one of: ${LLM_PROVIDER_TYPES.join(', ')}`);
+    }
+    config.providers[type] = {
+      type: type as LLMProviderType,
+      baseUrl: ({ openai: env.OPENAI_BASE_URL, anthropic: env.ANTHROPIC_BASE_URL, 'openai-compatible': env.LLM_BASE_URL } as
+        Record<string, string | undefined>)[type],
+      endpoint: type === 'azure' ? env.AZURE_OPENAI_ENDPOINT : undefined,
+      apiVersion: type === 'azure' ? env.AZURE_OPENAI_API_VERSION : undefined,
+      jsonMode: type === 'openai-compatible' ? env.LLM_JSON_MODE !== 'false' : undefined,
+    };
+  };
+  addProvider(defaultType);
+
+  for (const op of LLM_OPERATIONS) {
+    const provider = env[`LLM_${op.toUpperCase()}_PROVIDER`];
+    const model = env[`LLM_${op.toUpperCase()}_MODEL`];
+    if (!provider && !model) continue;
+    if (provider) addProvider(provider);
+    config.operations = { ...config.operations, [op]: { provider: provider || defaultType, model: model || undefined } };
+  }
+  return config;
+}
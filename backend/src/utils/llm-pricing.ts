@@ -0,0 +1,55 @@
+/**
+ * USD per million prompt (input) and completion (output) tokens.
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// List prices; LLM_PRICES_PATH can override or extend them (e.g. with Azure deployment names)
+export const DEFAULT_PRICES: PriceTable = {
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  // The offline mock; give it a price in LLM_PRICES_PATH to exercise dollar caps without a provider
+  'mock': { input: 0, output: 0 },
+};
+
+/**
+ * Prices may be zero, as for local models, but never negative.
+ */
+export function validatePriceTable(prices: PriceTable): void {
+  if (!prices || typeof prices !== 'object' || Array.isArray(prices)) {
+    throw new Error('Price table must be an object keyed by model');
+  }
+  for (const [model, price] of Object.entries(prices)) {
+    if (!price || !(price.input >= 0) || !(price.output >= 0)) {
+      throw new Error(`Price for "${model}" needs non-negative "input" and "output" USD per million tokens`);
+    }
+  }
+}
+
+/**
+ * Price of `model`: an exact entry, else the longest entry it starts with, so
+ * dated snapshots such as `gpt-4o-2024-08-06` use their family's price.
+ * Null when the model is not in the table.
+ */
+export function findModelPrice(prices: PriceTable, model: string): ModelPrice | null {
+  if (prices[model]) return prices[model];
+  const prefix = Object.keys(prices)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : null;
+}
+
+export function calculateCost(price: ModelPrice, promptTokens: number, completionTokens: number): number {
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
@@ -1,16 +1,60 @@
-import { CriterionResult, TestCaseResult } from '../types';
+import { CriterionResult, CriterionSeverity, TestCaseResult } from '../types';
+
+export const CRITERION_SEVERITIES: CriterionSeverity[] = ['critical', 'major', 'minor'];
+
+export const DEFAULT_SEVERITY: CriterionSeverity = 'major';
+
+export const SEVERITY_WEIGHTS: Record<CriterionSeverity, number> = {
+  critical: 3,
+  major: 2,
+  minor: 1,
+};
+
+/**
+ * `ratio` counts passed criteria; `score` credits each criterion with its
+ * rubric score / maxScore, with unscored criteria counting 1 for a pass and 0 for a fail.
+ */
+export type PassRateMode = 'ratio' | 'score';
+
+/**
+ * Explicit weight if set, otherwise the weight of the criterion's severity.
+ */
+export function resolveCriterionWeight(criterion: Pick<CriterionResult, 'severity' | 'weight'>): number {
+  return criterion.weight ?? SEVERITY_WEIGHTS[criterion.severity ?? DEFAULT_SEVERITY];
+}
 
 /**
- * Calculate overall pass rate: passed criteria / total criteria (excluding error cases).
+ * Calculate overall pass rate: weighted passed criteria / weighted total criteria (excluding error cases).
+ * In `score` mode: weighted mean of normalized criterion scores instead.
  * Returns 0 when all test cases are errors (no criteria to evaluate).
  */
-export function calculatePassRate(testCaseResults: TestCaseResult[]): number {
+export function calculatePassRate(testCaseResults: TestCaseResult[], mode: PassRateMode = 'ratio'): number {
   const completedResults = testCaseResults.filter(r => r.status === 'completed');
 
   const allCriteria: CriterionResult[] = completedResults.flatMap(r => r.criterionResults);
 
-  if (allCriteria.length === 0) return 0;
+  let earned = 0;
+  let available = 0;
+  for (const c of allCriteria) {
+    const weight = resolveCriterionWeight(c);
+    if (mode === 'score' && c.score !== undefined && c.maxScore) {
+      earned += weight * (c.score / c.maxScore);
+    } else if (c.passed) {
+      earned += weight;
+    }
+    available += weight;
+  }
 
-  const passed = allCriteria.filter(c => c.passed).length;
-  return passed / allCriteria.length;
+  return available === 0 ? 0 : earned / available;
+}
+
+/**
+ * Count failed critical criteria across completed test cases. Any critical
+ * failure fails the run regardless of its pass rate.
+ */
+export function countCriticalFailures(testCaseResults: TestCaseResult[]): number {
+  return testCaseResults
+    .filter(r => r.status === 'completed')
+    .flatMap(r => r.criterionResults)
+    .filter(c => c.severity === 'critical' && !c.passed).length;
 }
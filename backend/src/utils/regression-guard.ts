@@ -0,0 +1,31 @@
+/**
+ * How one prompt scored on a cycle's measured run.
+ */
+export interface PromptScore {
+  passRate: number;
+  // Outcome of each critical criterion, collapsed across trials
+  criticalOutcomes: Record<string, boolean>;
+}
+
+/**
+ * Why `revised` is worse than `best`, or null when it may replace it: a
+ * revision must not lower the pass rate or fail a critical criterion that
+ * `best` passed. Critical criteria missing from either run are not compared.
+ */
+export function detectRegression(best: PromptScore, revised: PromptScore): string | null {
+  const newlyFailing = Object.entries(revised.criticalOutcomes)
+    .filter(([criterionId, passed]) => !passed && best.criticalOutcomes[criterionId] === true)
+    .map(([criterionId]) => criterionId);
+
+  if (newlyFailing.length > 0) {
+    return `newly failed ${newlyFailing.length} previously passing critical criteria (${newlyFailing.join(', ')})`;
+  }
+  if (revised.passRate < best.passRate) {
+    return `pass rate dropped from ${formatRate(best.passRate)} to ${formatRate(revised.passRate)}`;
+  }
+  return null;
+}
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 1000) / 10}%`;
+}
@@ -0,0 +1,40 @@
+import { CriterionRubric } from '../types';
+
+export function rubricMaxScore(rubric: CriterionRubric): number {
+  return rubric.levels.length - 1;
+}
+
+/**
+ * A rubric needs at least two described levels, and a pass threshold above
+ * the lowest score so that some score can fail.
+ */
+export function validateRubric(rubric: CriterionRubric): void {
+  if (!rubric || !Array.isArray(rubric.levels) || rubric.levels.length < 2) {
+    throw new Error('Rubrics require at least two "levels" (scores 0..N)');
+  }
+  if (rubric.levels.some(level => typeof level !== 'string' || level.trim() === '')) {
+    throw new Error('Each rubric level must have a non-empty description');
+  }
+  const max = rubricMaxScore(rubric);
+  if (!Number.isInteger(rubric.passThreshold) || rubric.passThreshold < 1 || rubric.passThreshold > max) {
+    throw new Error(`Rubric passThreshold must be an integer between 1 and ${max}`);
+  }
+}
+
+/**
+ * Round and clamp a judge's score onto the rubric scale.
+ */
+export function normalizeRubricScore(rubric: CriterionRubric, score: unknown): number {
+  const value = Math.round(Number(score));
+  if (!Number.isFinite(value)) {
+    throw new Error(`Judge returned a non-numeric rubric score: ${JSON.stringify(score)}`);
+  }
+  return Math.min(Math.max(value, 0), rubricMaxScore(rubric));
+}
+
+/**
+ * Render rubric levels as "score: description" lines for the judge prompt.
+ */
+export function formatRubricLevels(rubric: CriterionRubric): string {
+  return rubric.levels.map((description, score) => `${score}: ${description}`).join('\n');
+}
@@ -0,0 +1,55 @@
+export const SIGNIFICANCE_ALPHA = 0.05;
+
+export type ChangeVerdict = 'improved' | 'regressed' | 'no-significant-change';
+
+/**
+ * Paired comparison of two runs over the criteria they share. Only discordant
+ * pairs (criteria that flipped) carry evidence; unchanged criteria do not.
+ */
+export interface PairedSignificance {
+  sharedCriteria: number;
+  // Criteria that went fail → pass and pass → fail
+  improved: number;
+  regressed: number;
+  pValue: number;
+  alpha: number;
+  verdict: ChangeVerdict;
+}
+
+/**
+ * Exact two-sided McNemar p-value: the binomial probability of a split at least
+ * as lopsided as improved/regressed if flips were equally likely either way.
+ */
+export function mcnemarExactPValue(improved: number, regressed: number): number {
+  const n = improved + regressed;
+  if (n === 0) return 1;
+
+  // Accumulate Binomial(n, 0.5) terms in log space so large n does not underflow early
+  const k = Math.min(improved, regressed);
+  let logTerm = -n * Math.LN2;
+  let tail = 0;
+  for (let i = 0; i <= k; i++) {
+    tail += Math.exp(logTerm);
+    logTerm += Math.log(n - i) - Math.log(i + 1);
+  }
+  return Math.min(1, 2 * tail);
+}
+
+/**
+ * McNemar test over paired pass/fail outcomes, with a verdict at `alpha`.
+ */
+export function testPairedOutcomes(
+  pairs: { before: boolean; after: boolean }[],
+  alpha: number = SIGNIFICANCE_ALPHA
+): PairedSignificance {
+  const improved = pairs.filter(p => !p.before && p.after).length;
+  const regressed = pairs.filter(p => p.before && !p.after).length;
+  const pValue = mcnemarExactPValue(improved, regressed);
+
+  let verdict: ChangeVerdict = 'no-significant-change';
+  if (pValue < alpha) {
+    verdict = improved > regressed ? 'improved' : 'regressed';
+  }
+
+  return { sharedCriteria: pairs.length, improved, regressed, pValue, alpha, verdict };
+}
@@ -0,0 +1,46 @@
+import { TestCase, TestSplit } from '../types';
+
+export const TEST_SPLITS: TestSplit[] = ['train', 'holdout'];
+
+export const DEFAULT_SPLIT: TestSplit = 'train';
+
+export function validateSplit(split: unknown): void {
+  if (!TEST_SPLITS.includes(split as TestSplit)) {
+    throw new Error(`split must be one of: ${TEST_SPLITS.join(', ')}`);
+  }
+}
+
+/**
+ * Validate the share of cases to hold out, which must leave cases to train on.
+ */
+export function validateHoldoutFraction(fraction: unknown): void {
+  if (typeof fraction !== 'number' || !(fraction > 0) || !(fraction < 1)) {
+    throw new Error('holdoutFraction must be a number greater than 0 and less than 1');
+  }
+}
+
+/**
+ * Assign each case to a split, holding out `holdoutFraction` of every scenario
+ * type so both splits keep the suite's happy-path/adversarial mix. Cases are
+ * spread evenly through each type in order, so the assignment is deterministic
+ * and always leaves at least one case of each type in training.
+ */
+export function assignSplits(
+  testCases: Pick<TestCase, 'id' | 'scenarioType'>[],
+  holdoutFraction: number
+): Map<string, TestSplit> {
+  const byType = new Map<string, string[]>();
+  for (const tc of testCases) {
+    byType.set(tc.scenarioType, [...(byType.get(tc.scenarioType) ?? []), tc.id]);
+  }
+
+  const splits = new Map<string, TestSplit>();
+  for (const ids of byType.values()) {
+    ids.forEach((id, i) => {
+      // Holds out exactly floor(n * fraction) of the n cases of this type
+      const held = Math.floor((i + 1) * holdoutFraction) > Math.floor(i * holdoutFraction);
+      splits.set(id, held ? 'holdout' : 'train');
+    });
+  }
+  return splits;
+}
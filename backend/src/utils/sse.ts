@@ -0,0 +1,11 @@
+// Comment lines sent this often keep proxies from closing an idle event stream
+export const SSE_HEARTBEAT_MS = 15000;
+
+/**
+ * The id of the last event a client saw, from a Last-Event-ID header or
+ * query parameter; 0 replays every event.
+ */
+export function parseLastEventId(value: unknown): number {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : 0;
+}
@@ -1,5 +1,6 @@
 export type OptimizationStatus = 'generated' | 'accepted' | 'rejected';
 export type CycleStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
 
 const OPTIMIZATION_TRANSITIONS: Record<OptimizationStatus, OptimizationStatus[]> = {
   generated: ['accepted', 'rejected'],
@@ -14,6 +15,14 @@ const CYCLE_TRANSITIONS: Record<CycleStatus, CycleStatus[]> = {
   cancelled: [],
 };
 
+const JOB_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  queued: ['running', 'cancelled'],
+  running: ['completed', 'failed', 'cancelled'],
+  completed: [],
+  failed: [],
+  cancelled: [],
+};
+
 export function transitionOptimizationStatus(current: OptimizationStatus, next: OptimizationStatus): OptimizationStatus {
   const allowed = OPTIMIZATION_TRANSITIONS[current];
   if (!allowed || !allowed.includes(next)) {
@@ -29,3 +38,11 @@ export function transitionCycleStatus(current: CycleStatus, next: CycleStatus):
   }
   return next;
 }
+
+export function transitionJobStatus(current: JobStatus, next: JobStatus): JobStatus {
+  const allowed = JOB_TRANSITIONS[current];
+  if (!allowed || !allowed.includes(next)) {
+    throw new Error(`Invalid job status transition: '${current}' → '${next}'`);
+  }
+  return next;
+}
@@ -0,0 +1,97 @@
+import { CycleStopPolicy, CycleStopReason } from '../types';
+
+const STOP_REASON_DESCRIPTIONS: Record<CycleStopReason, string> = {
+  'threshold-met': 'target pass rate reached with no critical failures',
+  'max-cycles': 'maximum cycles reached',
+  'plateau': 'pass rate stopped improving',
+  'budget-exhausted': 'LLM call or spend budget exhausted',
+  'time-limit': 'time limit reached',
+  'critical-passing': 'every critical criterion passes',
+  'spend-cap': 'LLM spend cap reached',
+  'cancelled': 'cancelled',
+  'paused': 'paused',
+  'interrupted': 'interrupted',
+};
+
+/**
+ * What the stop policy is checked against, as of the latest measured run.
+ */
+export interface CycleStopState {
+  // Best pass rate after each cycle so far, oldest first
+  bestPassRates: number[];
+  llmCalls: number;
+  // USD, excluding calls to unpriced models
+  cost: number;
+  elapsedMs: number;
+  // Critical failures of the best prompt; null before the first run
+  criticalFailures: number | null;
+  // Critical criteria measured in the best prompt's run; with none there is nothing to pass
+  criticalCriteria: number;
+}
+
+/**
+ * Every condition is optional, but a plateau needs both its window and the
+ * improvement it expects, and budgets and time limits must be positive.
+ */
+export function validateStopPolicy(policy: CycleStopPolicy): void {
+  if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+    throw new Error('stopPolicy must be an object');
+  }
+  if (policy.plateau !== undefined) {
+    const plateau = policy.plateau as { window?: unknown; minImprovement?: unknown } | null;
+    if (!plateau || !Number.isInteger(plateau.window) || (plateau.window as number) < 1) {
+      throw new Error('plateau.window must be a positive integer');
+    }
+    const { minImprovement } = plateau;
+    if (typeof minImprovement !== 'number' || !(minImprovement > 0) || !(minImprovement <= 1)) {
+      throw new Error('plateau.minImprovement must be a number greater than 0 and at most 1');
+    }
+  }
+  if (policy.maxLLMCalls !== undefined && (!Number.isInteger(policy.maxLLMCalls) || policy.maxLLMCalls < 1)) {
+    throw new Error('maxLLMCalls must be a positive integer');
+  }
+  if (policy.maxCost !== undefined && !(typeof policy.maxCost === 'number' && policy.maxCost > 0)) {
+    throw new Error('maxCost must be a positive number of USD');
+  }
+  if (policy.maxDurationMs !== undefined && !(typeof policy.maxDurationMs === 'number' && policy.maxDurationMs > 0)) {
+    throw new Error('maxDurationMs must be a positive number');
+  }
+  if (policy.stopWhenCriticalPassing !== undefined && typeof policy.stopWhenCriticalPassing !== 'boolean') {
+    throw new Error('stopWhenCriticalPassing must be a boolean');
+  }
+}
+
+/**
+ * The first policy condition `state` meets, or null to keep cycling. A plateau
+ * needs `window` cycles after the one it is measured from.
+ */
+export function checkStopPolicy(policy: CycleStopPolicy, state: CycleStopState): CycleStopReason | null {
+  if (policy.maxLLMCalls !== undefined && state.llmCalls >= policy.maxLLMCalls) {
+    return 'budget-exhausted';
+  }
+  if (policy.maxCost !== undefined && state.cost >= policy.maxCost) {
+    return 'budget-exhausted';
+  }
+  if (policy.maxDurationMs !== undefined && state.elapsedMs >= policy.maxDurationMs) {
+    return 'time-limit';
+  }
+  if (policy.stopWhenCriticalPassing && state.criticalCriteria > 0 && state.criticalFailures === 0) {
+    return 'critical-passing';
+  }
+  if (policy.plateau) {
+    const { window, minImprovement } = policy.plateau;
+    const rates = state.bestPassRates;
+    if (rates.length > window) {
+      const gain = rates[rates.length - 1] - rates[rates.length - 1 - window];
+      if (gain < minImprovement) return 'plateau';
+    }
+  }
+  return null;
+}
+
+/**
+ * Human-readable explanation of why a cycle stopped.
+ */
+export function describeStopReason(reason: CycleStopReason): string {
+  return STOP_REASON_DESCRIPTIONS[reason];
+}
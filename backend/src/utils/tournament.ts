@@ -0,0 +1,62 @@
+import { OptimizationStrategy } from '../types';
+
+export const MAX_CANDIDATES = 5;
+
+/**
+ * What a candidate's evaluation run is ranked on.
+ */
+export interface CandidateScore {
+  passRate: number;
+  criticalFailures: number;
+}
+
+/**
+ * A tournament runs 1 to MAX_CANDIDATES candidates; each one's temperature and
+ * focus are optional.
+ */
+export function validateOptimizationStrategy(strategy: OptimizationStrategy): void {
+  if (!strategy || !Array.isArray(strategy.candidates) || strategy.candidates.length === 0) {
+    throw new Error('Optimization strategy requires a non-empty "candidates" array');
+  }
+  if (strategy.candidates.length > MAX_CANDIDATES) {
+    throw new Error(`Tournaments are limited to ${MAX_CANDIDATES} candidates`);
+  }
+  if (strategy.sampleSize !== undefined && (!Number.isInteger(strategy.sampleSize) || strategy.sampleSize < 1)) {
+    throw new Error('sampleSize must be a positive integer');
+  }
+
+  for (const candidate of strategy.candidates) {
+    if (!candidate || typeof candidate !== 'object') {
+      throw new Error('Each candidate must be an object');
+    }
+    if (candidate.temperature !== undefined && !(candidate.temperature >= 0 && candidate.temperature <= 2)) {
+      throw new Error('Candidate temperature must be between 0 and 2');
+    }
+    if (candidate.focus !== undefined && (typeof candidate.focus !== 'string' || candidate.focus.trim() === '')) {
+      throw new Error('Candidate focus must be a non-empty string');
+    }
+  }
+}
+
+/**
+ * Negative when `a` ranks above `b`: fewer critical failures first, since any
+ * critical failure fails a run, then the higher pass rate.
+ */
+export function compareCandidateScores(a: CandidateScore, b: CandidateScore): number {
+  if (a.criticalFailures !== b.criticalFailures) return a.criticalFailures - b.criticalFailures;
+  return b.passRate - a.passRate;
+}
+
+/**
+ * Random subset of `size` items, kept in their original order. Returns every
+ * item when `size` is omitted or covers them all.
+ */
+export function sampleItems<T>(items: T[], size?: number): T[] {
+  if (size === undefined || size >= items.length) return items;
+
+  const picked = new Set<number>();
+  while (picked.size < size) {
+    picked.add(Math.floor(Math.random() * items.length));
+  }
+  return items.filter((_, i) => picked.has(i));
+}
@@ -0,0 +1,67 @@
+import { CriterionTrialStats, PassRateInterval, TestCaseResult } from '../types';
+import { calculatePassRate } from './pass-rate';
+
+export const MAX_TRIALS = 10;
+
+// z for a two-sided 95% confidence interval
+const Z_95 = 1.96;
+
+export function validateTrials(trials: unknown): void {
+  if (!Number.isInteger(trials) || (trials as number) < 1 || (trials as number) > MAX_TRIALS) {
+    throw new Error(`trials must be an integer between 1 and ${MAX_TRIALS}`);
+  }
+}
+
+/**
+ * Wilson score interval for a proportion `p` observed over `n` samples.
+ * Returns the full [0, 1] range when there are no samples.
+ */
+export function wilsonInterval(p: number, n: number, z: number = Z_95): PassRateInterval {
+  if (n === 0) return { lower: 0, upper: 1 };
+  const z2 = z * z;
+  const centre = (p + z2 / (2 * n)) / (1 + z2 / n);
+  const margin = (z / (1 + z2 / n)) * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n));
+  return { lower: Math.max(0, centre - margin), upper: Math.min(1, centre + margin) };
+}
+
+/**
+ * 95% interval around the weighted pass rate, treating every criterion verdict
+ * across all trials as one sample.
+ */
+export function calculatePassRateInterval(testCaseResults: TestCaseResult[]): PassRateInterval {
+  const verdicts = testCaseResults
+    .filter(r => r.status === 'completed')
+    .reduce((n, r) => n + r.criterionResults.length, 0);
+  return wilsonInterval(calculatePassRate(testCaseResults), verdicts);
+}
+
+/**
+ * Per-criterion pass probability across the completed trials of each case.
+ * A criterion that both passed and failed is flaky.
+ */
+export function summarizeTrials(testCaseResults: TestCaseResult[]): CriterionTrialStats[] {
+  const stats = new Map<string, CriterionTrialStats>();
+  for (const result of testCaseResults) {
+    if (result.status !== 'completed') continue;
+    for (const cr of result.criterionResults) {
+      const key = `${result.testCaseId}:${cr.criterionId}`;
+      const entry = stats.get(key) ?? {
+        testCaseId: result.testCaseId,
+        criterionId: cr.criterionId,
+        trials: 0,
+        passes: 0,
+        passProbability: 0,
+        flaky: false,
+      };
+      entry.trials++;
+      if (cr.passed) entry.passes++;
+      stats.set(key, entry);
+    }
+  }
+
+  return [...stats.values()].map(entry => ({
+    ...entry,
+    passProbability: entry.passes / entry.trials,
+    flaky: entry.passes > 0 && entry.passes < entry.trials,
+  }));
+}
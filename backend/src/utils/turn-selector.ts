@@ -0,0 +1,80 @@
+import { AgentResponse, TurnSelector } from '../types';
+
+export const TURN_SCOPES: TurnSelector['scope'][] = ['turn', 'range', 'first', 'last', 'by-turn'];
+
+export type TurnMatchMode = 'together' | 'any' | 'all';
+
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1;
+}
+
+/**
+ * The scope must carry the turns it needs: `turn` for turn and by-turn, and
+ * `from` no later than `to` for a range.
+ */
+export function validateTurnSelector(selector: TurnSelector): void {
+  if (!selector || !TURN_SCOPES.includes(selector.scope)) {
+    throw new Error(
+      `Invalid turn selector scope "${(selector as any)?.scope}". Must be one of: ${TURN_SCOPES.join(', ')}`
+    );
+  }
+  if (selector.match !== undefined && selector.match !== 'any' && selector.match !== 'all') {
+    throw new Error('Turn selector match must be "any" or "all"');
+  }
+
+  switch (selector.scope) {
+    case 'turn':
+    case 'by-turn':
+      if (!isPositiveInteger(selector.turn)) {
+        throw new Error(`"${selector.scope}" turn selectors require a positive integer "turn"`);
+      }
+      break;
+    case 'range':
+      if (!isPositiveInteger(selector.from) || !isPositiveInteger(selector.to) || selector.from > selector.to) {
+        throw new Error('"range" turn selectors require positive integers "from" <= "to"');
+      }
+      break;
+  }
+}
+
+/**
+ * Pick the agent turns a selector refers to. Returns an empty array when the
+ * conversation never reached them.
+ */
+export function selectTurns(agentResponses: AgentResponse[], selector: TurnSelector): AgentResponse[] {
+  switch (selector.scope) {
+    case 'turn':
+      return agentResponses.filter(r => r.turn === selector.turn);
+    case 'range':
+      return agentResponses.filter(r => r.turn >= selector.from && r.turn <= selector.to);
+    case 'first':
+      return agentResponses.slice(0, 1);
+    case 'last':
+      return agentResponses.slice(-1);
+    case 'by-turn':
+      return agentResponses.filter(r => r.turn <= selector.turn);
+  }
+}
+
+export function getTurnMatchMode(selector: TurnSelector): TurnMatchMode {
+  if (selector.match) return selector.match;
+  return selector.scope === 'by-turn' ? 'any' : 'together';
+}
+
+/**
+ * Human-readable label for a selector, e.g. "turn 3" or "turns 1-3".
+ */
+export function describeTurnSelector(selector: TurnSelector): string {
+  switch (selector.scope) {
+    case 'turn':
+      return `turn ${selector.turn}`;
+    case 'range':
+      return `turns ${selector.from}-${selector.to}`;
+    case 'first':
+      return 'the first turn';
+    case 'last':
+      return 'the last turn';
+    case 'by-turn':
+      return `turns 1-${selector.turn}`;
+  }
+}
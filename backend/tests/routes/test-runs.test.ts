@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { AppDatabase } from '../../src/database';
+import { createTestRunsRouter } from '../../src/routes/test-runs';
+import { MockLLMService } from '../../src/services/llm-service-factory';
+import { LLMSimulatorTransport } from '../../src/services/agent-transport';
+import { JobQueueService } from '../../src/services/job-queue';
+import { TestRunnerService } from '../../src/services/test-runner';
+
+// Parse an SSE body into its events, keeping each event's id
+function parseEvents(body: string): { id?: number; type: string }[] {
+  return body.split('\n\n').filter(block => block.includes('data: ')).map(block => {
+    const id = /^id: (\d+)$/m.exec(block)?.[1];
+    const data = JSON.parse(/^data: (.*)$/m.exec(block)![1]);
+    return id ? { ...data, id: Number(id) } : data;
+  });
+}
+
+describe('GET /api/test-runs/:id/events', () => {
+  let app: express.Express;
+  let database: AppDatabase;
+  let testRunId: string;
+
+  beforeEach(async () => {
+    database = new AppDatabase(':memory:');
+    database.db.prepare(`INSERT INTO Agent (id, name, highlevelAgentId, currentPrompt, originalPrompt) VALUES ('a1', 'Agent', 'hl-1', 'p', 'p')`).run();
+    database.db.prepare(`INSERT INTO PromptAnalysis (id, agentId, goals, conversationFlows, expectedBehaviors, rawPrompt) VALUES ('an1', 'a1', '[]', '[]', '[]', 'p')`).run();
+    database.db.prepare(`INSERT INTO TestSuite (id, agentId, analysisId) VALUES ('s1', 'a1', 'an1')`).run();
+    database.db.prepare(`INSERT INTO TestCase (id, testSuiteId, scenarioDescription, scenarioType, userInputSequence) VALUES ('tc1', 's1', 'Greeting', 'happy-path', ?)`)
+      .run(JSON.stringify([{ turn: 1, utterance: 'Hi' }, { turn: 2, utterance: 'Bye' }]));
+    database.db.prepare(`INSERT INTO SuccessCriterion (id, testCaseId, description, category, evaluationPrompt) VALUES ('sc1', 'tc1', 'Greets', 'behavioral', 'Does the agent greet the caller?')`).run();
+
+    const llm = new MockLLMService();
+    const transport = new LLMSimulatorTransport(llm);
+    testRunId = (await new TestRunnerService(database, llm, transport).runSuite('a1', 's1')).id;
+
+    app = express();
+    app.use('/api/test-runs', createTestRunsRouter(database, llm, transport, new JobQueueService(database)));
+  });
+
+  it('replays every stored event of a finished run', async () => {
+    const res = await request(app).get(`/api/test-runs/${testRunId}/events`);
+    expect(res.status).toBe(200);
+    const events = parseEvents(res.text);
+    expect(events.map(e => e.type)).toEqual([
+      'case_started', 'turn_completed', 'turn_completed', 'criterion_evaluated', 'case_completed', 'finished',
+    ]);
+    expect(events.every(e => typeof e.id === 'number')).toBe(true);
+  });
+
+  it('resumes after Last-Event-ID and answers 204 once nothing is left', async () => {
+    const all = parseEvents((await request(app).get(`/api/test-runs/${testRunId}/events`)).text);
+
+    const rest = await request(app).get(`/api/test-runs/${testRunId}/events`).set('Last-Event-ID', String(all[3].id));
+    expect(parseEvents(rest.text).map(e => e.id)).toEqual(all.slice(4).map(e => e.id));
+
+    const fromQuery = await request(app).get(`/api/test-runs/${testRunId}/events?lastEventId=${all[4].id}`);
+    expect(parseEvents(fromQuery.text).map(e => e.type)).toEqual(['finished']);
+
+    const done = await request(app).get(`/api/test-runs/${testRunId}/events`).set('Last-Event-ID', String(all[5].id));
+    expect(done.status).toBe(204);
+  });
+
+  it('summarizes a run cut off before its final event', async () => {
+    database.db.prepare(`DELETE FROM TestRunEvent WHERE testRunId = ? AND data LIKE '%"finished"%'`).run(testRunId);
+    database.db.prepare(`UPDATE TestRun SET status = 'error' WHERE id = ?`).run(testRunId);
+
+    const events = parseEvents((await request(app).get(`/api/test-runs/${testRunId}/events`)).text);
+    expect(events[events.length - 1]).toMatchObject({ type: 'error', completedCases: 1, message: 'Test run is not running' });
+    expect(events[events.length - 1].id).toBeUndefined();
+  });
+
+  it('answers 404 for an unknown run', async () => {
+    expect((await request(app).get('/api/test-runs/nope/events')).status).toBe(404);
+  });
+});
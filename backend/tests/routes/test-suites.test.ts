@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { AppDatabase } from '../../src/database';
+import { createTestSuitesRouter } from '../../src/routes/test-suites';
+import { MockLLMService } from '../../src/services/llm-service-factory';
+import { JobQueueService } from '../../src/services/job-queue';
+
+const persona = {
+  goal: 'Book a cleaning',
+  knownFacts: ['Name is Sam'],
+  temperament: 'impatient',
+  giveUpCondition: 'Asked the same question twice',
+  maxTurns: 4,
+};
+
+const scriptedCase = {
+  scenarioDescription: 'Caller asks for hours',
+  scenarioType: 'happy-path',
+  userInputSequence: ['When are you open?'],
+};
+
+describe('PUT /api/test-suites/:id', () => {
+  let app: express.Express;
+  let database: AppDatabase;
+
+  beforeEach(() => {
+    database = new AppDatabase(':memory:');
+    database.db.prepare(`INSERT INTO Agent (id, name, highlevelAgentId, currentPrompt, originalPrompt) VALUES ('a1', 'Agent', 'hl-1', 'p', 'p')`).run();
+    database.db.prepare(`INSERT INTO PromptAnalysis (id, agentId, goals, conversationFlows, expectedBehaviors, rawPrompt) VALUES ('an1', 'a1', '[]', '[]', '[]', 'p')`).run();
+    database.db.prepare(`INSERT INTO TestSuite (id, agentId, analysisId) VALUES ('s1', 'a1', 'an1')`).run();
+    database.db.prepare(`INSERT INTO TestCase (id, testSuiteId, scenarioDescription, scenarioType, userInputSequence) VALUES ('tc1', 's1', 'Existing', 'happy-path', '[]')`).run();
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/test-suites', createTestSuitesRouter(database, new MockLLMService(), new JobQueueService(database)));
+  });
+
+  const edit = (...operations: unknown[]) => request(app).put('/api/test-suites/s1').send({ operations });
+
+  it('adds scripted and persona test cases', async () => {
+    const res = await edit(
+      { type: 'addTestCase', data: scriptedCase },
+      { type: 'addTestCase', data: { ...scriptedCase, kind: 'persona', persona } }
+    );
+    expect(res.status).toBe(200);
+    expect(res.body.testCases.map((tc: any) => tc.kind).sort()).toEqual(['persona', 'scripted', 'scripted']);
+  });
+
+  it('rejects a persona test case without a valid persona', async () => {
+    const res = await edit({ type: 'addTestCase', data: { ...scriptedCase, kind: 'persona', persona: { goal: '' } } });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toMatchObject({ code: 'INVALID_TEST_SUITE_EDIT', retryable: false });
+  });
+
+  it('rejects an unknown kind on add and edit', async () => {
+    expect((await edit({ type: 'addTestCase', data: { ...scriptedCase, kind: 'robot' } })).status).toBe(400);
+    expect((await edit({ type: 'editTestCase', testCaseId: 'tc1', data: { kind: 'robot' } })).status).toBe(400);
+  });
+
+  it('requires a persona when an edit turns a case into a persona case', async () => {
+    expect((await edit({ type: 'editTestCase', testCaseId: 'tc1', data: { kind: 'persona' } })).status).toBe(400);
+    const res = await edit({ type: 'editTestCase', testCaseId: 'tc1', data: { kind: 'persona', persona } });
+    expect(res.status).toBe(200);
+    expect(res.body.testCases[0]).toMatchObject({ kind: 'persona', persona });
+  });
+
+  it('applies none of the operations when one is invalid', async () => {
+    const res = await edit(
+      { type: 'addTestCase', data: scriptedCase },
+      { type: 'editTestCase', testCaseId: 'tc1', data: { kind: 'robot' } }
+    );
+    expect(res.status).toBe(400);
+    const count = database.db.prepare('SELECT COUNT(*) AS n FROM TestCase').get() as { n: number };
+    expect(count.n).toBe(1);
+  });
+
+  it('rejects an unknown split on add and edit', async () => {
+    for (const res of [
+      await edit({ type: 'addTestCase', data: { ...scriptedCase, split: 'bogus' } }),
+      await edit({ type: 'editTestCase', testCaseId: 'tc1', data: { split: 'bogus' } }),
+    ]) {
+      expect(res.status).toBe(400);
+      expect(res.body.error).toMatchObject({ code: 'INVALID_TEST_SUITE_EDIT', retryable: false });
+    }
+  });
+
+  it('moves a case between splits', async () => {
+    const res = await edit({ type: 'editTestCase', testCaseId: 'tc1', data: { split: 'holdout' } });
+    expect(res.status).toBe(200);
+    expect(res.body.testCases[0].split).toBe('holdout');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import express from 'express';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  HighLevelProtocol,
+  HighLevelTransport,
+  LLMSimulatorTransport,
+  WebhookTransport,
+} from '../../src/services/agent-transport';
+import { MockLLMService } from '../../src/services/llm-service-factory';
+import { createFakeHighLevelServer } from '../../src/fake-highlevel-server';
+
+function listen(server: Server): Promise<string> {
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+  });
+}
+
+function stop(server: Server): Promise<void> {
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+describe('LLMSimulatorTransport', () => {
+  it('replies to each turn from the LLM simulator', async () => {
+    const session = await new LLMSimulatorTransport(new MockLLMService()).openSession({ agentPrompt: 'You book appointments.' });
+    const reply = await session.sendTurn({ role: 'user', content: 'Hi, I need an appointment' });
+    expect(reply.utterance).toEqual(expect.any(String));
+    expect(reply.utterance.length).toBeGreaterThan(0);
+    await session.close();
+  });
+});
+
+describe('WebhookTransport', () => {
+  let server: Server;
+  let url: string;
+  const received: any[] = [];
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.post('/agent', (req, res) => {
+      received.push(req.body);
+      if (req.body.message.content === 'fail') {
+        res.status(503).send('down');
+        return;
+      }
+      res.json({ reply: `You said ${req.body.message.content}`, toolCalls: [{ name: 'book', arguments: { day: 'Monday' } }] });
+    });
+    app.post('/bad', (_req, res) => {
+      res.json({ text: 'no reply field' });
+    });
+    server = createServer(app);
+    url = await listen(server);
+  });
+
+  afterAll(() => stop(server));
+
+  it('posts each turn with the session id and full history', async () => {
+    const session = await new WebhookTransport({ url: `${url}/agent`, headers: { 'X-Key': 'k' } })
+      .openSession({ agentPrompt: 'prompt', highlevelAgentId: 'hl-1' });
+    const first = await session.sendTurn({ role: 'user', content: 'hello' });
+    await session.sendTurn({ role: 'user', content: 'Monday?' });
+
+    expect(first).toEqual({ utterance: 'You said hello', toolCalls: [{ name: 'book', arguments: { day: 'Monday' } }] });
+    expect(received[1].sessionId).toBe(received[0].sessionId);
+    expect(received[1]).toMatchObject({ agentPrompt: 'prompt', highlevelAgentId: 'hl-1' });
+    expect(received[1].history.map((m: any) => m.content)).toEqual(['hello', 'You said hello', 'Monday?']);
+  });
+
+  it('fails on an error status or a reply without "reply"', async () => {
+    const session = await new WebhookTransport({ url: `${url}/agent` }).openSession({ agentPrompt: 'prompt' });
+    await expect(session.sendTurn({ role: 'user', content: 'fail' })).rejects.toThrow('failed (503): down');
+
+    const bad = await new WebhookTransport({ url: `${url}/bad` }).openSession({ agentPrompt: 'prompt' });
+    await expect(bad.sendTurn({ role: 'user', content: 'hello' })).rejects.toThrow('did not include a "reply" string');
+  });
+});
+
+describe('HighLevelTransport against the fake HighLevel server', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createFakeHighLevelServer();
+    baseUrl = await listen(server);
+  });
+
+  afterAll(() => stop(server));
+
+  for (const protocol of ['rest', 'websocket'] as HighLevelProtocol[]) {
+    it(`holds a conversation over ${protocol} and ends the session`, async () => {
+      const transport = new HighLevelTransport({ baseUrl, apiKey: 'dev', protocol });
+      const session = await transport.openSession({ agentPrompt: 'You book appointments.', highlevelAgentId: 'hl-1' });
+
+      const first = await session.sendTurn({ role: 'user', content: 'Hi, I need an appointment' });
+      const second = await session.sendTurn({ role: 'user', content: 'Tuesday works' });
+      expect(first.utterance.length).toBeGreaterThan(0);
+      expect(second.utterance.length).toBeGreaterThan(0);
+      await session.close();
+
+      // The session is gone once closed
+      await expect(session.sendTurn({ role: 'user', content: 'Still there?' })).rejects.toThrow();
+    });
+  }
+
+  it('requires a highlevelAgentId', async () => {
+    const transport = new HighLevelTransport({ baseUrl, apiKey: 'dev' });
+    await expect(transport.openSession({ agentPrompt: 'prompt' })).rejects.toThrow('requires the agent to have a highlevelAgentId');
+  });
+
+  it('reports socket error replies', async () => {
+    const transport = new HighLevelTransport({ baseUrl, apiKey: 'dev', protocol: 'websocket' });
+    const session = await transport.openSession({ agentPrompt: 'prompt', highlevelAgentId: 'hl-1' });
+    await expect(session.sendTurn({ role: 'user', content: undefined as unknown as string }))
+      .rejects.toThrow('HighLevel agent reply failed: Message must include a "text" string');
+    await session.close();
+  });
+});
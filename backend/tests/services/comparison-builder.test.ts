@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AppDatabase } from '../../src/database';
+import { ComparisonBuilderService } from '../../src/services/comparison-builder';
+
+describe('ComparisonBuilderService.compareRuns', () => {
+  let database: AppDatabase;
+  let builder: ComparisonBuilderService;
+
+  function insertRun(id: string, prompt: string, passRate: number, cases: Record<string, { utterances: string[]; outcomes: Record<string, boolean> }>) {
+    database.db.prepare(`INSERT INTO TestRun (id, testSuiteId, agentId, promptSnapshot, overallPassRate, status) VALUES (?, 's1', 'a1', ?, ?, 'completed')`)
+      .run(id, prompt, passRate);
+    for (const [testCaseId, { utterances, outcomes }] of Object.entries(cases)) {
+      const resultId = `${id}-${testCaseId}`;
+      const agentResponses = utterances.map((utterance, i) => ({ turn: i + 1, utterance }));
+      database.db.prepare(`INSERT INTO TestCaseResult (id, testRunId, testCaseId, agentResponses, status) VALUES (?, ?, ?, ?, 'completed')`)
+        .run(resultId, id, testCaseId, JSON.stringify(agentResponses));
+      for (const [criterionId, passed] of Object.entries(outcomes)) {
+        database.db.prepare(`INSERT INTO CriterionResult (id, testCaseResultId, criterionId, passed, explanation) VALUES (?, ?, ?, ?, '')`)
+          .run(`${resultId}-${criterionId}`, resultId, criterionId, passed ? 1 : 0);
+      }
+    }
+  }
+
+  beforeEach(() => {
+    database = new AppDatabase(':memory:');
+    database.db.prepare(`INSERT INTO Agent (id, name, highlevelAgentId, currentPrompt, originalPrompt) VALUES ('a1', 'Agent', 'hl-1', 'p', 'p')`).run();
+    database.db.prepare(`INSERT INTO PromptAnalysis (id, agentId, goals, conversationFlows, expectedBehaviors, rawPrompt) VALUES ('an1', 'a1', '[]', '[]', '[]', 'p')`).run();
+    database.db.prepare(`INSERT INTO TestSuite (id, agentId, analysisId) VALUES ('s1', 'a1', 'an1')`).run();
+    for (const [caseId, description] of [['tc1', 'Books a cleaning'], ['tc2', 'Asks for hours']]) {
+      database.db.prepare(`INSERT INTO TestCase (id, testSuiteId, scenarioDescription, scenarioType, userInputSequence) VALUES (?, 's1', ?, 'happy-path', '[]')`)
+        .run(caseId, description);
+    }
+    for (const [criterionId, caseId] of [['greets', 'tc1'], ['books', 'tc1'], ['confirms', 'tc1'], ['hours', 'tc2']]) {
+      database.db.prepare(`INSERT INTO SuccessCriterion (id, testCaseId, description, category, evaluationPrompt) VALUES (?, ?, ?, 'functional', '')`)
+        .run(criterionId, caseId, `Criterion ${criterionId}`);
+    }
+
+    insertRun('r1', 'You are a receptionist.\nBe brief.', 0.5, {
+      tc1: { utterances: ['Hello.', 'Which day?'], outcomes: { greets: true, books: false, confirms: true } },
+      tc2: { utterances: ['We open at nine.'], outcomes: { hours: true } },
+    });
+    insertRun('r2', 'You are a receptionist.\nAlways confirm bookings.', 0.75, {
+      tc1: { utterances: ['Hello.', 'Booked for Monday.', 'Anything else?'], outcomes: { greets: true, books: true } },
+    });
+    builder = new ComparisonBuilderService(database);
+  });
+
+  it('returns null when either run is missing', () => {
+    expect(builder.compareRuns('r1', 'missing')).toBeNull();
+  });
+
+  it('reports the pass-rate delta and the prompt diff', () => {
+    const comparison = builder.compareRuns('r1', 'r2')!;
+    expect(comparison).toMatchObject({ baseRunId: 'r1', targetRunId: 'r2', basePassRate: 0.5, targetPassRate: 0.75, passRateDelta: 0.25 });
+    expect(comparison.promptDiff.filter(c => c.type !== 'context')).toEqual([
+      { type: 'removed', lineNumber: 2, content: 'Be brief.' },
+      { type: 'added', lineNumber: 2, content: 'Always confirm bookings.' },
+    ]);
+  });
+
+  it('aligns criteria by test case with their transitions', () => {
+    const cases = builder.compareRuns('r1', 'r2')!.cases;
+    const tc1 = cases.find(c => c.testCaseId === 'tc1')!;
+    expect(tc1.scenarioDescription).toBe('Books a cleaning');
+    const transitions = tc1.criteria.map(c => [c.criterionId, c.before, c.after, c.transition]);
+    expect(transitions).toEqual(expect.arrayContaining([
+      ['greets', true, true, 'still-passing'],
+      ['books', false, true, 'fixed'],
+      ['confirms', true, null, 'removed'],
+    ]));
+    expect(transitions).toHaveLength(3);
+    const tc2 = cases.find(c => c.testCaseId === 'tc2')!;
+    expect(tc2.criteria).toEqual([{ criterionId: 'hours', description: 'Criterion hours', before: true, after: null, transition: 'removed' }]);
+  });
+
+  it('aligns transcripts turn by turn', () => {
+    const tc1 = builder.compareRuns('r1', 'r2')!.cases.find(c => c.testCaseId === 'tc1')!;
+    expect(tc1.turns.map(t => [t.turn, t.changed])).toEqual([[1, false], [2, true], [3, true]]);
+    expect(tc1.turns[1].diff).toEqual([
+      { type: 'removed', lineNumber: 1, content: 'Which day?' },
+      { type: 'added', lineNumber: 1, content: 'Booked for Monday.' },
+    ]);
+    expect(tc1.turns[2]).toMatchObject({ base: undefined, target: { turn: 3, utterance: 'Anything else?' } });
+  });
+
+  it('only weighs criteria both runs share, leaving a single flip inconclusive', () => {
+    const comparison = builder.compareRuns('r1', 'r2')!;
+    expect(comparison.improvements).toEqual([]);
+    expect(comparison.inconclusive.map(c => c.criterionId)).toEqual(['books']);
+    expect(comparison.significance.verdict).toBe('no-significant-change');
+  });
+});
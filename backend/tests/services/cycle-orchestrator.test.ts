@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AppDatabase } from '../../src/database';
+import { MockLLMService } from '../../src/services/llm-service-factory';
+import { HookedLLMService } from '../../src/services/hooked-llm-service';
+import { LLMUsageService } from '../../src/services/llm-usage';
+import { LLMBudgetService } from '../../src/services/llm-budget';
+import { LLMSimulatorTransport } from '../../src/services/agent-transport';
+import { CycleOrchestratorService, CycleEvent } from '../../src/services/cycle-orchestrator';
+import { JobQueueService } from '../../src/services/job-queue';
+
+async function waitFor(check: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the cycle');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('CycleOrchestratorService', () => {
+  let database: AppDatabase;
+  let jobQueue: JobQueueService;
+  let orchestrator: CycleOrchestratorService;
+
+  beforeEach(() => {
+    database = new AppDatabase(':memory:');
+    database.db.prepare(`INSERT INTO Agent (id, name, highlevelAgentId, currentPrompt, originalPrompt) VALUES ('a1', 'Agent', 'hl-1', 'Be helpful', 'Be helpful')`).run();
+    database.db.prepare(`INSERT INTO PromptAnalysis (id, agentId, goals, conversationFlows, expectedBehaviors, rawPrompt) VALUES ('an1', 'a1', '[]', '[]', '[]', 'Be helpful')`).run();
+    database.db.prepare(`INSERT INTO TestSuite (id, agentId, analysisId) VALUES ('s1', 'a1', 'an1')`).run();
+    database.db.prepare(`INSERT INTO TestCase (id, testSuiteId, scenarioDescription, scenarioType, userInputSequence) VALUES ('tc1', 's1', 'Greeting', 'happy-path', ?)`)
+      .run(JSON.stringify([{ turn: 1, utterance: 'Hi' }]));
+    database.db.prepare(`INSERT INTO SuccessCriterion (id, testCaseId, description, category, evaluationPrompt) VALUES ('sc1', 'tc1', 'Greets', 'behavioral', 'Does the agent greet the caller?')`).run();
+
+    // Recorded like provider calls, so the stop policy can count them
+    const llm = new HookedLLMService(new MockLLMService(), {
+      recorder: new LLMUsageService(database),
+      guard: new LLMBudgetService(database),
+    });
+    jobQueue = new JobQueueService(database);
+    orchestrator = new CycleOrchestratorService(database, llm, new LLMSimulatorTransport(llm), jobQueue);
+  });
+
+  // The mock judge passes everything, so a threshold above 1 runs every cycle
+  const config = { agentId: 'a1', testSuiteId: 's1', targetThreshold: 1.1, maxCycles: 3 };
+
+  const recordEvents = (cycleId: string) => {
+    const events: CycleEvent[] = [];
+    orchestrator.addEventListener(cycleId, event => events.push(event));
+    return events;
+  };
+  const cycleStarts = (events: CycleEvent[]) => events.filter(e => e.type === 'cycle_start').map(e => e.cycleNumber);
+
+  it('pauses at a checkpoint and resumes where it left off', async () => {
+    const { cycleId } = orchestrator.startCycle(config);
+    const events = recordEvents(cycleId);
+    orchestrator.addEventListener(cycleId, (event: CycleEvent) => {
+      if (event.type === 'test_run_complete' && event.cycleNumber === 1) orchestrator.pauseCycle(cycleId);
+    });
+    jobQueue.start();
+
+    await waitFor(() => orchestrator.getCycleRecord(cycleId).status === 'paused');
+    const paused = orchestrator.getCycleRecord(cycleId);
+    expect(paused).toMatchObject({ cycleCount: 1, stopReason: 'paused' });
+    expect(paused.testRunIds).toHaveLength(1);
+
+    orchestrator.resumeCycle(cycleId);
+    await waitFor(() => orchestrator.getCycleRecord(cycleId).status === 'completed');
+    const finished = orchestrator.getCycleRecord(cycleId);
+    expect(finished).toMatchObject({ cycleCount: 3, stopReason: 'max-cycles' });
+    expect(finished.testRunIds).toHaveLength(3);
+    expect(cycleStarts(events)).toEqual([1, 2, 3]);
+  });
+
+  it('checks the call budget between steps, letting the step under way overshoot it', async () => {
+    const { cycleId } = orchestrator.startCycle({ ...config, stopPolicy: { maxLLMCalls: 1 } });
+    jobQueue.start();
+
+    await waitFor(() => orchestrator.getCycleRecord(cycleId).status === 'completed');
+    const record = orchestrator.getCycleRecord(cycleId);
+    expect(record).toMatchObject({ cycleCount: 1, stopReason: 'budget-exhausted' });
+    // The first test run completes, simulating and judging its case, before the budget is checked
+    expect(new LLMUsageService(database).getTotals({ cycleId }).calls).toBeGreaterThan(1);
+  });
+
+  it('keeps the queued job when a cycle is paused and resumed before it starts', async () => {
+    const { cycleId, jobId } = orchestrator.startCycle(config);
+    const events = recordEvents(cycleId);
+    orchestrator.pauseCycle(cycleId);
+    expect(orchestrator.getCycleRecord(cycleId).status).toBe('paused');
+
+    expect(orchestrator.resumeCycle(cycleId)).toBe(jobId);
+    expect(jobQueue.listJobs({ type: 'cycle', resourceId: cycleId })).toHaveLength(1);
+
+    jobQueue.start();
+    await waitFor(() => jobQueue.getJob(jobId)!.status === 'completed');
+    expect(cycleStarts(events)).toEqual([1, 2, 3]);
+    const finished = events.filter(e => e.type === 'finished').map(e => e.status);
+    expect(finished).toEqual(['paused', 'completed']);
+  });
+
+  it('queues a new job to resume a cycle whose job has finished', async () => {
+    const { cycleId, jobId } = orchestrator.startCycle(config);
+    const events = recordEvents(cycleId);
+    orchestrator.pauseCycle(cycleId);
+    jobQueue.start();
+    await waitFor(() => jobQueue.getJob(jobId)!.status === 'completed');
+    expect(cycleStarts(events)).toEqual([]);
+
+    const resumedJobId = orchestrator.resumeCycle(cycleId);
+    expect(resumedJobId).not.toBe(jobId);
+    await waitFor(() => orchestrator.getCycleRecord(cycleId).status === 'completed');
+    expect(cycleStarts(events)).toEqual([1, 2, 3]);
+  });
+
+  it('ends on a spend cap reached during the baseline run, leaving the prompt unchanged', async () => {
+    const { cycleId } = orchestrator.startCycle({ ...config, budget: { maxTokens: 1 } });
+    jobQueue.start();
+
+    await waitFor(() => orchestrator.getCycleRecord(cycleId).status === 'completed');
+    const record = orchestrator.getCycleRecord(cycleId);
+    expect(record.stopReason).toBe('spend-cap');
+    expect(record.outcome).toMatch(/^Stopped: LLM spend cap reached \(.*\) during the baseline run; prompt unchanged$/);
+    expect(orchestrator.getCycleEvents(cycleId).map(e => e.type)).toEqual(['cycle_start', 'finished']);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AppDatabase } from '../../src/database';
+import { JobQueueService, JobHandler } from '../../src/services/job-queue';
+
+async function waitFor(check: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the job');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+// A handler whose jobs run until released, recording the order they started in
+function gatedHandler() {
+  const started: string[] = [];
+  const releases = new Map<string, () => void>();
+  const handler: JobHandler = {
+    run: (job, context) => new Promise((resolve, reject) => {
+      started.push(job.payload.name);
+      releases.set(job.payload.name, () => resolve({ done: job.payload.name }));
+      context.signal.addEventListener('abort', () => reject(new Error('Stopped')));
+    }),
+  };
+  return { handler, started, release: (name: string) => releases.get(name)?.() };
+}
+
+describe('JobQueueService', () => {
+  let database: AppDatabase;
+
+  beforeEach(() => {
+    database = new AppDatabase(':memory:');
+  });
+
+  it('runs queued jobs in creation order, at most `concurrency` at a time', async () => {
+    const queue = new JobQueueService(database, 2);
+    const gate = gatedHandler();
+    queue.register('analysis', gate.handler);
+    const jobs = ['a', 'b', 'c'].map(name => queue.enqueue('analysis', { name }));
+
+    queue.start();
+    await waitFor(() => gate.started.length === 2);
+    expect(gate.started).toEqual(['a', 'b']);
+    expect(queue.getJob(jobs[2].id)!.status).toBe('queued');
+
+    gate.release('a');
+    await waitFor(() => gate.started.length === 3);
+    expect(queue.getJob(jobs[0].id)).toMatchObject({ status: 'completed', result: { done: 'a' } });
+  });
+
+  it('records the message and code of a failed job', async () => {
+    const queue = new JobQueueService(database);
+    queue.register('analysis', {
+      run: async () => {
+        throw Object.assign(new Error('Over budget'), { code: 'BUDGET_EXCEEDED' });
+      },
+    });
+    const job = queue.enqueue('analysis', {});
+    queue.start();
+
+    await waitFor(() => queue.getJob(job.id)!.status !== 'running' && queue.getJob(job.id)!.status !== 'queued');
+    expect(queue.getJob(job.id)).toMatchObject({ status: 'failed', error: 'Over budget', errorCode: 'BUDGET_EXCEEDED' });
+  });
+
+  it('fails jobs of a type with no handler', () => {
+    const queue = new JobQueueService(database);
+    const job = queue.enqueue('cycle', {});
+    queue.start();
+    expect(queue.getJob(job.id)!.status).toBe('failed');
+  });
+
+  it('cancels a queued job without running it', () => {
+    const queue = new JobQueueService(database);
+    const abandoned: string[] = [];
+    queue.register('analysis', { run: async () => 'ran', abandon: (job, reason) => abandoned.push(`${job.id}:${reason}`) });
+    const job = queue.enqueue('analysis', {});
+
+    expect(queue.hasQueuedJob('analysis', 'r1')).toBe(false);
+    expect(queue.cancel(job.id)!.status).toBe('cancelled');
+    expect(abandoned).toEqual([`${job.id}:cancelled`]);
+
+    queue.start();
+    expect(queue.getJob(job.id)!.result).toBeNull();
+    expect(() => queue.cancel(job.id)).toThrow();
+  });
+
+  it('signals a running job to stop and marks it cancelled', async () => {
+    const queue = new JobQueueService(database);
+    const gate = gatedHandler();
+    queue.register('analysis', gate.handler);
+    const job = queue.enqueue('analysis', { name: 'a' });
+    queue.start();
+    await waitFor(() => gate.started.length === 1);
+
+    queue.cancel(job.id);
+    await waitFor(() => queue.getJob(job.id)!.status === 'cancelled');
+    expect(queue.getJob(job.id)!.error).toBe('Stopped');
+  });
+
+  it('fails jobs a previous process left running and hands them to their handler', () => {
+    const first = new JobQueueService(database);
+    first.register('analysis', gatedHandler().handler);
+    const stale = first.enqueue('analysis', { name: 'a' }, 'r1');
+    const queued = first.enqueue('analysis', { name: 'b' }, 'r2');
+    database.db.prepare(`UPDATE Job SET status = 'running' WHERE id = ?`).run(stale.id);
+
+    const restarted = new JobQueueService(database, 1);
+    const abandoned: string[] = [];
+    const gate = gatedHandler();
+    restarted.register('analysis', { ...gate.handler, abandon: (job, reason) => abandoned.push(`${job.resourceId}:${reason}`) });
+    expect(restarted.hasQueuedJob('analysis', 'r2')).toBe(true);
+    restarted.start();
+
+    expect(restarted.getJob(stale.id)).toMatchObject({ status: 'failed', error: 'Interrupted by a server restart' });
+    expect(abandoned).toEqual(['r1:interrupted']);
+    expect(restarted.getJob(queued.id)!.status).toBe('running');
+    expect(gate.started).toEqual(['b']);
+  });
+
+  it('lists jobs newest first, filtered by type, status and resource', () => {
+    const queue = new JobQueueService(database);
+    queue.enqueue('analysis', {}, 'r1');
+    const cycle = queue.enqueue('cycle', {}, 'c1');
+
+    expect(queue.listJobs().map(job => job.id)[0]).toBe(cycle.id);
+    expect(queue.listJobs({ type: 'cycle' })).toHaveLength(1);
+    expect(queue.listJobs({ status: 'queued', resourceId: 'r1' })).toHaveLength(1);
+    expect(queue.listJobs({ status: 'running' })).toHaveLength(0);
+  });
+});
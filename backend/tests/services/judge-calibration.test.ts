@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AppDatabase } from '../../src/database';
+import { MockLLMService } from '../../src/services/llm-service-factory';
+import { HookedLLMService } from '../../src/services/hooked-llm-service';
+import { LLMSimulatorTransport } from '../../src/services/agent-transport';
+import { LLMUsageService } from '../../src/services/llm-usage';
+import { JudgeCalibrationService } from '../../src/services/judge-calibration';
+import { TestRunnerService } from '../../src/services/test-runner';
+import { DEFAULT_EVALUATION_CONFIG } from '../../src/utils/consensus';
+
+describe('JudgeCalibrationService', () => {
+  let database: AppDatabase;
+  let usage: LLMUsageService;
+  let calibration: JudgeCalibrationService;
+
+  beforeEach(async () => {
+    database = new AppDatabase(':memory:');
+    const llm = new MockLLMService();
+    const runner = new TestRunnerService(database, llm, new LLMSimulatorTransport(llm));
+    for (const agentId of ['a1', 'a2']) {
+      database.db.prepare(`INSERT INTO Agent (id, name, highlevelAgentId, currentPrompt, originalPrompt) VALUES (?, ?, ?, 'p', 'p')`)
+        .run(agentId, agentId, `hl-${agentId}`);
+      database.db.prepare(`INSERT INTO PromptAnalysis (id, agentId, goals, conversationFlows, expectedBehaviors, rawPrompt) VALUES (?, ?, '[]', '[]', '[]', 'p')`)
+        .run(`an-${agentId}`, agentId);
+      database.db.prepare(`INSERT INTO TestSuite (id, agentId, analysisId) VALUES (?, ?, ?)`).run(`s-${agentId}`, agentId, `an-${agentId}`);
+      database.db.prepare(`INSERT INTO TestCase (id, testSuiteId, scenarioDescription, scenarioType, userInputSequence) VALUES (?, ?, 'Greeting', 'happy-path', ?)`)
+        .run(`tc-${agentId}`, `s-${agentId}`, JSON.stringify([{ turn: 1, utterance: 'Hi' }]));
+      database.db.prepare(`INSERT INTO SuccessCriterion (id, testCaseId, description, category, evaluationPrompt) VALUES (?, ?, 'Greets', 'behavioral', 'Does the agent greet the caller?')`)
+        .run(`sc-${agentId}`, `tc-${agentId}`);
+      await runner.runSuite(agentId, `s-${agentId}`);
+    }
+
+    // Only the calibration's own judge calls are recorded
+    usage = new LLMUsageService(database);
+    calibration = new JudgeCalibrationService(database, new HookedLLMService(new MockLLMService(), { recorder: usage }));
+    for (const { id } of database.db.prepare('SELECT id FROM CriterionResult').all() as { id: string }[]) {
+      calibration.setLabel(id, false, 'Too curt');
+    }
+  });
+
+  it('charges each judge call to the agent whose run the sample came from', async () => {
+    const run = await calibration.runCalibration(calibration.getCalibrationSet(), DEFAULT_EVALUATION_CONFIG);
+    expect(run).toMatchObject({ agentId: null, sampleSize: 2 });
+    expect(usage.getTotals({ agentId: 'a1' }).calls).toBe(1);
+    expect(usage.getTotals({ agentId: 'a2' }).calls).toBe(1);
+    expect(usage.getTotals({}).calls).toBe(2);
+  });
+
+  it('measures agreement with the human labels', async () => {
+    const run = await calibration.runCalibration(calibration.getCalibrationSet('a1'), DEFAULT_EVALUATION_CONFIG, 'a1');
+    // The mock judge passes everything the labels fail
+    expect(run.overall).toMatchObject({ total: 1, falsePositives: 1, accuracy: 0 });
+    expect(calibration.listCalibrationRuns('a1').map(r => r.id)).toEqual([run.id]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AppDatabase } from '../../src/database';
+import { LLMBudgetService } from '../../src/services/llm-budget';
+import { LLMUsageService, withLLMAttribution } from '../../src/services/llm-usage';
+import { BudgetExceededError } from '../../src/services/llm-service';
+
+// gpt-4o costs $2.50 and $10 per million prompt and completion tokens
+const call = (promptTokens: number, completionTokens: number, model = 'gpt-4o') => ({
+  operation: 'judging' as const, provider: 'openai', model, promptTokens, completionTokens, latencyMs: 10,
+});
+
+describe('LLMBudgetService', () => {
+  let database: AppDatabase;
+  let usage: LLMUsageService;
+
+  beforeEach(() => {
+    database = new AppDatabase(':memory:');
+    database.db.prepare(`INSERT INTO Agent (id, name, highlevelAgentId, currentPrompt, originalPrompt) VALUES ('a1', 'One', 'hl-1', 'p', 'p')`).run();
+    database.db.prepare(`INSERT INTO Agent (id, name, highlevelAgentId, currentPrompt, originalPrompt) VALUES ('a2', 'Two', 'hl-2', 'p', 'p')`).run();
+    usage = new LLMUsageService(database);
+  });
+
+  it('allows every call without budgets', () => {
+    usage.recordCall(call(1_000_000, 1_000_000));
+    expect(() => new LLMBudgetService(database).checkCall('judging', 'gpt-4o')).not.toThrow();
+  });
+
+  it('refuses calls once the global budget is spent, counting calls recorded after the first check', () => {
+    const guard = new LLMBudgetService(database, { maxCost: 1 });
+    usage.recordCall(call(200_000, 0));
+    expect(() => guard.checkCall('judging', 'gpt-4o')).not.toThrow();
+
+    usage.recordCall(call(200_000, 0));
+    expect(() => guard.checkCall('judging', 'gpt-4o')).toThrow(BudgetExceededError);
+    expect(() => guard.checkCall('judging', 'gpt-4o')).toThrow('LLM global budget exhausted: $1.0000 spent of a $1 cap');
+  });
+
+  it('applies a token cap to calls of unpriced models', () => {
+    const guard = new LLMBudgetService(database, { maxTokens: 100 });
+    usage.recordCall(call(60, 30, 'local-llama'));
+    expect(() => guard.checkCall('judging', 'local-llama')).not.toThrow();
+    usage.recordCall(call(10, 0, 'local-llama'));
+    expect(() => guard.checkCall('judging', 'local-llama')).toThrow('100 tokens used of a 100 token cap');
+  });
+
+  it('refuses unpriced models under a USD cap', () => {
+    const guard = new LLMBudgetService(database, { maxCost: 1 });
+    expect(() => guard.checkCall('judging', 'local-llama')).toThrow('has no price');
+  });
+
+  it("charges an agent's cap with that agent's calls only", async () => {
+    const guard = new LLMBudgetService(database);
+    guard.setAgentBudget('a1', { maxTokens: 50 });
+    await withLLMAttribution({ agentId: 'a1' }, async () => usage.recordCall(call(50, 0)));
+
+    await withLLMAttribution({ agentId: 'a2' }, async () => {
+      expect(() => guard.checkCall('judging', 'gpt-4o')).not.toThrow();
+    });
+    await withLLMAttribution({ agentId: 'a1' }, async () => {
+      expect(() => guard.checkCall('judging', 'gpt-4o')).toThrow(expect.objectContaining({ scope: 'agent' }));
+    });
+    expect(guard.getSpend({ agentId: 'a1' })).toEqual({ cost: 0.000125, tokens: 50 });
+
+    guard.setAgentBudget('a1', null);
+    expect(guard.getAgentBudget('a1')).toBeNull();
+  });
+
+  it("reads a cycle's cap from its config", async () => {
+    database.db.prepare(`
+      INSERT INTO CycleRecord (id, agentId, cycleCount, startingPassRate, endingPassRate, targetThreshold, maxCycles, status, testRunIds, optimizationIds, config)
+      VALUES ('c1', 'a1', 0, 0, 0, 0.9, 3, 'running', '[]', '[]', ?)
+    `).run(JSON.stringify({ budget: { maxTokens: 10 } }));
+    const guard = new LLMBudgetService(database);
+
+    await withLLMAttribution({ agentId: 'a1', cycleId: 'c1' }, async () => {
+      usage.recordCall(call(10, 0));
+      expect(() => guard.checkCall('judging', 'gpt-4o')).toThrow(expect.objectContaining({ scope: 'cycle' }));
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AppDatabase } from '../../src/database';
+import { LLMCacheService, withLLMCacheBypass } from '../../src/services/llm-cache';
+import { LLMUsageService } from '../../src/services/llm-usage';
+import { ChatLLMService, LLMServiceRoute } from '../../src/services/llm-service';
+import { ChatCompletion, ChatProvider, ChatRequest } from '../../src/services/llm-provider';
+import { LLMOperation, SuccessCriterion } from '../../src/types';
+import { LLM_OPERATIONS } from '../../src/utils/llm-config';
+
+class CountingProvider implements ChatProvider {
+  readonly name = 'openai';
+  calls = 0;
+
+  async complete(_request: ChatRequest): Promise<ChatCompletion> {
+    this.calls++;
+    return {
+      content: JSON.stringify({ passed: true, explanation: `verdict ${this.calls}` }),
+      usage: { promptTokens: 100, completionTokens: 20 },
+    };
+  }
+}
+
+const criterion: SuccessCriterion = {
+  id: 'c1', description: 'Greets the caller', category: 'behavioral', evaluationPrompt: 'Did it greet?',
+};
+
+describe('LLM response cache', () => {
+  let database: AppDatabase;
+  let provider: CountingProvider;
+  let usage: LLMUsageService;
+  let cache: LLMCacheService;
+  let llm: ChatLLMService;
+
+  beforeEach(() => {
+    database = new AppDatabase(':memory:');
+    provider = new CountingProvider();
+    usage = new LLMUsageService(database);
+    cache = new LLMCacheService(database, { operations: ['judging'], ttlSeconds: 60 });
+    const route: LLMServiceRoute = { provider, model: 'gpt-4o' };
+    const routes = {} as Record<LLMOperation, LLMServiceRoute>;
+    for (const op of LLM_OPERATIONS) {
+      routes[op] = route;
+    }
+    llm = new ChatLLMService({ routes, recorder: usage, cache, maxRetries: 0 });
+  });
+
+  it('serves a repeated request from cache and records the hit at no cost', async () => {
+    const first = await llm.evaluateCriterion('Hello!', criterion);
+    const second = await llm.evaluateCriterion('Hello!', criterion);
+
+    expect(provider.calls).toBe(1);
+    expect(second).toEqual(first);
+    const totals = usage.getTotals({});
+    expect(totals).toMatchObject({ calls: 2, cachedCalls: 1, promptTokens: 100, completionTokens: 20 });
+    expect(totals.cost).toBeCloseTo(0.00045);
+    expect(cache.getStats()).toMatchObject({ entries: 1, hits: 1, misses: 1, hitRate: 0.5 });
+  });
+
+  it('calls the provider for a different request', async () => {
+    await llm.evaluateCriterion('Hello!', criterion);
+    await llm.evaluateCriterion('Goodbye!', criterion);
+    expect(provider.calls).toBe(2);
+    expect(usage.getTotals({}).cachedCalls).toBe(0);
+  });
+
+  it('goes to the provider on a bypass and replaces the cached response', async () => {
+    await llm.evaluateCriterion('Hello!', criterion);
+    const fresh = await withLLMCacheBypass(() => llm.evaluateCriterion('Hello!', criterion));
+    expect(provider.calls).toBe(2);
+    expect(fresh.explanation).toBe('verdict 2');
+
+    const cached = await llm.evaluateCriterion('Hello!', criterion);
+    expect(provider.calls).toBe(2);
+    expect(cached.explanation).toBe('verdict 2');
+    expect(cache.getStats()).toMatchObject({ entries: 1, hits: 1, misses: 2 });
+  });
+
+  it('leaves operations it was not configured for uncached', async () => {
+    const uncached = new LLMCacheService(database, { operations: ['analysis'], ttlSeconds: 60 });
+    llm = new ChatLLMService({
+      routes: { judging: { provider, model: 'gpt-4o' } } as Record<LLMOperation, LLMServiceRoute>,
+      cache: uncached,
+      maxRetries: 0,
+    });
+    await llm.evaluateCriterion('Hello!', criterion);
+    await llm.evaluateCriterion('Hello!', criterion);
+    expect(provider.calls).toBe(2);
+    expect(uncached.getStats().entries).toBe(0);
+  });
+
+  it('clears entries by operation', async () => {
+    await llm.evaluateCriterion('Hello!', criterion);
+    expect(cache.clear('analysis')).toBe(0);
+    expect(cache.clear('judging')).toBe(1);
+    await llm.evaluateCriterion('Hello!', criterion);
+    expect(provider.calls).toBe(2);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AppDatabase } from '../../src/database';
+import { CassetteMismatchError, recordLLMCassette, replayLLMCassette } from '../../src/services/llm-cassette';
+import { LLMUsageService } from '../../src/services/llm-usage';
+import { ChatLLMService, LLMServiceRoute } from '../../src/services/llm-service';
+import { ChatCompletion, ChatProvider, ChatRequest } from '../../src/services/llm-provider';
+import { LLMOperation, SuccessCriterion } from '../../src/types';
+import { LLM_OPERATIONS } from '../../src/utils/llm-config';
+
+class CountingProvider implements ChatProvider {
+  readonly name = 'openai';
+  calls = 0;
+
+  async complete(_request: ChatRequest): Promise<ChatCompletion> {
+    this.calls++;
+    return {
+      content: JSON.stringify({ passed: this.calls % 2 === 1, explanation: `verdict ${this.calls}` }),
+      usage: { promptTokens: 100, completionTokens: 20 },
+    };
+  }
+}
+
+const criterion: SuccessCriterion = {
+  id: 'c1', description: 'Greets the caller', category: 'behavioral', evaluationPrompt: 'Did it greet?',
+};
+
+describe('LLM cassettes', () => {
+  let dir: string;
+  let path: string;
+  let provider: CountingProvider;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cassette-'));
+    path = join(dir, 'run.jsonl');
+    provider = new CountingProvider();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function record(): Promise<unknown[]> {
+    const routes = {} as Record<LLMOperation, LLMServiceRoute>;
+    for (const op of LLM_OPERATIONS) {
+      routes[op] = { provider, model: 'gpt-4o' };
+    }
+    const llm = new ChatLLMService({ routes: recordLLMCassette(path, routes), maxRetries: 0 });
+    return [await llm.evaluateCriterion('Hello!', criterion), await llm.evaluateCriterion('Hello!', criterion)];
+  }
+
+  it('replays recorded responses in order without calling the provider', async () => {
+    const recorded = await record();
+    expect(provider.calls).toBe(2);
+
+    const llm = new ChatLLMService({ routes: replayLLMCassette(path), maxRetries: 0 });
+    const first = await llm.evaluateCriterion('Hello!', criterion);
+    const second = await llm.evaluateCriterion('Hello!', criterion);
+    expect([first, second]).toEqual(recorded);
+    expect(provider.calls).toBe(2);
+  });
+
+  it('records replayed calls with their recorded tokens at no cost', async () => {
+    await record();
+    const database = new AppDatabase(':memory:');
+    const usage = new LLMUsageService(database);
+    const llm = new ChatLLMService({ routes: replayLLMCassette(path), recorder: usage, maxRetries: 0 });
+    await llm.evaluateCriterion('Hello!', criterion);
+
+    expect(usage.getTotals({})).toMatchObject({
+      calls: 1, replayedCalls: 1, cachedCalls: 0, promptTokens: 100, completionTokens: 20, cost: 0, unpricedCalls: 0,
+    });
+  });
+
+  it('fails a request the cassette does not hold', async () => {
+    await record();
+    const llm = new ChatLLMService({ routes: replayLLMCassette(path), maxRetries: 0 });
+    await expect(llm.evaluateCriterion('Goodbye!', criterion)).rejects.toThrow(CassetteMismatchError);
+  });
+
+  it('fails once the recorded responses to a request run out', async () => {
+    await record();
+    const llm = new ChatLLMService({ routes: replayLLMCassette(path), maxRetries: 0 });
+    await llm.evaluateCriterion('Hello!', criterion);
+    await llm.evaluateCriterion('Hello!', criterion);
+    await expect(llm.evaluateCriterion('Hello!', criterion)).rejects.toThrow('the replay has diverged from the recording');
+  });
+
+  it('refuses to replay a missing cassette', () => {
+    expect(() => replayLLMCassette(join(dir, 'missing.jsonl'))).toThrow('Failed to read LLM cassette');
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { ResultEvaluatorService } from '../../src/services/result-evaluator';
+import { MockLLMService } from '../../src/services/llm-service-factory';
+import { AgentResponse, CriterionResult, JudgeConfig, SuccessCriterion, TurnSelector } from '../../src/types';
+
+// Strict judges fail every response; the others pass it
+class SplitPanelLLMService extends MockLLMService {
+  async evaluateCriterion(_response: string, criterion: SuccessCriterion, judge: JudgeConfig = {}): Promise<CriterionResult> {
+    const passed = judge.variant !== 'strict';
+    return { criterionId: criterion.id, passed, explanation: `${judge.variant ?? 'standard'} says ${passed ? 'yes' : 'no'}` };
+  }
+}
+
+const responses: AgentResponse[] = [
+  { turn: 1, utterance: 'Hello, Bright Smiles Dental.' },
+  { turn: 2, utterance: 'Which day suits you?' },
+  { turn: 3, utterance: 'Booked for Monday at nine. Goodbye!' },
+];
+
+function mentions(value: string, turnSelector?: TurnSelector): SuccessCriterion {
+  return {
+    id: 'c1', description: `Mentions ${value}`, category: 'functional', evaluationPrompt: '',
+    assertion: { type: 'contains', value }, turnSelector,
+  };
+}
+
+describe('ResultEvaluatorService turn selectors', () => {
+  const evaluator = new ResultEvaluatorService(new MockLLMService());
+
+  it('judges the whole conversation without a selector', async () => {
+    expect(await evaluator.evaluateCriterion(responses, mentions('monday'))).toMatchObject({ passed: true });
+  });
+
+  it('only looks at the selected turn and records it', async () => {
+    expect(await evaluator.evaluateCriterion(responses, mentions('monday', { scope: 'turn', turn: 2 })))
+      .toMatchObject({ passed: false, turn: 2 });
+    expect(await evaluator.evaluateCriterion(responses, mentions('monday', { scope: 'last' })))
+      .toMatchObject({ passed: true, turn: 3 });
+  });
+
+  it('fails when the conversation never reached the selected turns', async () => {
+    expect(await evaluator.evaluateCriterion(responses, mentions('monday', { scope: 'turn', turn: 5 })))
+      .toMatchObject({ passed: false, explanation: 'The conversation never reached turn 5.' });
+  });
+
+  it('passes "any" matching on the first passing turn', async () => {
+    expect(await evaluator.evaluateCriterion(responses, mentions('day', { scope: 'by-turn', turn: 3 })))
+      .toMatchObject({ passed: true, turn: 2 });
+    const missed = await evaluator.evaluateCriterion(responses, mentions('friday', { scope: 'range', from: 1, to: 3, match: 'any' }));
+    expect(missed).toMatchObject({ passed: false });
+    expect(missed.explanation).toMatch(/^No agent turn in turns 1-3 met the criterion\./);
+  });
+
+  it('fails "all" matching on the first failing turn', async () => {
+    const criterion: SuccessCriterion = {
+      ...mentions(''),
+      assertion: { type: 'max-words', limit: 4 },
+      turnSelector: { scope: 'range', from: 1, to: 3, match: 'all' },
+    };
+    expect(await evaluator.evaluateCriterion(responses, criterion)).toMatchObject({ passed: false, turn: 3 });
+    criterion.turnSelector = { scope: 'range', from: 1, to: 2, match: 'all' };
+    expect(await evaluator.evaluateCriterion(responses, criterion))
+      .toMatchObject({ passed: true, explanation: 'Every agent turn in turns 1-2 met the criterion.' });
+  });
+});
+
+describe('ResultEvaluatorService judge panels', () => {
+  const criterion: SuccessCriterion = {
+    id: 'c1', description: 'Is polite', category: 'behavioral', evaluationPrompt: 'Was the agent polite?',
+  };
+
+  it('returns a single judge verdict without votes', async () => {
+    const evaluator = new ResultEvaluatorService(new SplitPanelLLMService(), { judges: [{ variant: 'strict' }], resolution: 'majority' });
+    const result = await evaluator.evaluateCriterion(responses, criterion);
+    expect(result).toMatchObject({ passed: false, explanation: 'strict says no' });
+    expect(result.judgeVotes).toBeUndefined();
+  });
+
+  it('resolves a majority and explains it with an agreeing judge', async () => {
+    const evaluator = new ResultEvaluatorService(new SplitPanelLLMService(), {
+      judges: [{ variant: 'strict' }, {}, { variant: 'evidence' }],
+      resolution: 'majority',
+    });
+    const result = await evaluator.evaluateCriterion(responses, criterion);
+    expect(result).toMatchObject({ passed: true, explanation: 'standard says yes', agreement: 2 / 3 });
+    expect(result.judgeVotes!.map(v => [v.judge, v.passed])).toEqual([
+      ['default/strict', false], ['default/standard', true], ['default/evidence', true],
+    ]);
+  });
+
+  it('fails a unanimous panel on one dissenting judge', async () => {
+    const evaluator = new ResultEvaluatorService(new SplitPanelLLMService(), {
+      judges: [{}, { variant: 'strict' }],
+      resolution: 'unanimous',
+    });
+    expect(await evaluator.evaluateCriterion(responses, criterion))
+      .toMatchObject({ passed: false, explanation: 'strict says no', agreement: 0.5 });
+  });
+
+  it('leaves deterministic assertions to the local check', async () => {
+    const evaluator = new ResultEvaluatorService(new SplitPanelLLMService(), { judges: [{ variant: 'strict' }, {}], resolution: 'unanimous' });
+    const result = await evaluator.evaluateCriterion(responses, mentions('monday'));
+    expect(result).toMatchObject({ passed: true });
+    expect(result.judgeVotes).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { countWords, evaluateAssertion, isLLMJudged, validateAssertion } from '../../src/utils/assertions';
+import { AgentResponse, CriterionAssertion, SuccessCriterion } from '../../src/types';
+
+const responses: AgentResponse[] = [
+  { turn: 1, utterance: 'Thanks for calling Bright Smiles Dental, how can I help?' },
+  {
+    turn: 2,
+    utterance: 'I can book you in on Monday.',
+    toolCalls: [{ name: 'book_appointment', arguments: { day: 'Monday', slots: [{ time: '09:00' }] } }],
+  },
+  { turn: 3, utterance: 'You are all set. Goodbye!' },
+];
+
+function criterion(assertion: CriterionAssertion): SuccessCriterion {
+  return { id: 'c1', description: 'Check', category: 'functional', evaluationPrompt: '', assertion };
+}
+
+function evaluate(assertion: CriterionAssertion) {
+  return evaluateAssertion(responses, criterion(assertion));
+}
+
+describe('validateAssertion', () => {
+  it('accepts well-formed assertions', () => {
+    expect(() => validateAssertion({ type: 'regex', pattern: '^Thanks', flags: 'i' })).not.toThrow();
+    expect(() => validateAssertion({ type: 'max-words', limit: 20, withinTurns: 2 })).not.toThrow();
+    expect(() => validateAssertion({ type: 'json-path', path: '$.arguments.day', equals: 'Monday' })).not.toThrow();
+  });
+
+  it('rejects unknown types and missing fields', () => {
+    expect(() => validateAssertion({ type: 'sounds-nice' } as any)).toThrow('Invalid assertion type "sounds-nice"');
+    expect(() => validateAssertion({ type: 'regex', pattern: '' })).toThrow('require a "pattern"');
+    expect(() => validateAssertion({ type: 'contains', value: '' })).toThrow('require a non-empty "value"');
+    expect(() => validateAssertion({ type: 'max-chars', limit: 0 })).toThrow('positive integer "limit"');
+    expect(() => validateAssertion({ type: 'json-path', path: '' })).toThrow('require a "path"');
+    expect(() => validateAssertion({ type: 'contains', value: 'x', withinTurns: 1.5 })).toThrow('withinTurns');
+  });
+
+  it('rejects patterns and paths that would fail at run time', () => {
+    expect(() => validateAssertion({ type: 'regex', pattern: '(' })).toThrow();
+    expect(() => validateAssertion({ type: 'json-path', path: 'arguments.day' })).toThrow('must start with "$"');
+  });
+});
+
+describe('evaluateAssertion', () => {
+  it('passes a regex or contains check on any matching turn', () => {
+    expect(evaluate({ type: 'regex', pattern: 'good\\w+', flags: 'gi' }))
+      .toMatchObject({ criterionId: 'c1', passed: true, explanation: 'Turn 3 matches /good\\w+/' });
+    expect(evaluate({ type: 'contains', value: 'MONDAY' })).toMatchObject({ passed: true });
+    expect(evaluate({ type: 'contains', value: 'MONDAY', caseSensitive: true }))
+      .toMatchObject({ passed: false, explanation: 'No agent turn contains "MONDAY"' });
+  });
+
+  it('fails not-contains and length limits on the first offending turn', () => {
+    expect(evaluate({ type: 'not-contains', value: 'goodbye' }))
+      .toMatchObject({ passed: false, explanation: 'Turn 3 contains forbidden text "goodbye"' });
+    expect(evaluate({ type: 'max-words', limit: 7 }))
+      .toMatchObject({ passed: false, explanation: 'Turn 1 has 10 words (limit 7)' });
+    expect(evaluate({ type: 'max-chars', limit: 100 }))
+      .toMatchObject({ passed: true, explanation: 'Every agent turn is within 100 characters' });
+  });
+
+  it('only checks the first withinTurns turns', () => {
+    expect(evaluate({ type: 'contains', value: 'goodbye', withinTurns: 2 }))
+      .toMatchObject({ passed: false, explanation: 'No agent turn within the first 2 turn(s) contains "goodbye"' });
+    expect(evaluate({ type: 'not-contains', value: 'goodbye', withinTurns: 2 })).toMatchObject({ passed: true });
+  });
+
+  it('matches json paths against tool calls', () => {
+    expect(evaluate({ type: 'json-path', path: '$.arguments.day', equals: 'Monday' }))
+      .toMatchObject({ passed: true, explanation: 'Turn 2 tool call "book_appointment" has $.arguments.day equal to "Monday"' });
+    expect(evaluate({ type: 'json-path', path: '$.arguments.slots[*]', equals: { time: '09:00' } })).toMatchObject({ passed: true });
+    expect(evaluate({ type: 'json-path', path: '$.arguments.day', equals: 'Tuesday' }))
+      .toMatchObject({ passed: false, explanation: 'No tool call has $.arguments.day equal to "Tuesday"' });
+    expect(evaluate({ type: 'json-path', path: '$.arguments.customer' })).toMatchObject({ passed: false });
+  });
+
+  it('refuses criteria left to the LLM judge', () => {
+    expect(() => evaluate({ type: 'llm-judge' })).toThrow('has no deterministic assertion');
+  });
+});
+
+describe('isLLMJudged', () => {
+  it('is true without an assertion or for llm-judge', () => {
+    expect(isLLMJudged({})).toBe(true);
+    expect(isLLMJudged({ assertion: { type: 'llm-judge' } })).toBe(true);
+    expect(isLLMJudged({ assertion: { type: 'contains', value: 'x' } })).toBe(false);
+  });
+});
+
+describe('countWords', () => {
+  it('counts whitespace-separated words', () => {
+    expect(countWords('  one two\nthree  ')).toBe(3);
+    expect(countWords('   ')).toBe(0);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { computeAgreementMetrics, LabelledVerdict } from '../../src/utils/calibration';
+
+function verdicts(counts: { tp: number; fp: number; tn: number; fn: number }): LabelledVerdict[] {
+  return [
+    ...Array.from({ length: counts.tp }, () => ({ human: true, judge: true })),
+    ...Array.from({ length: counts.fp }, () => ({ human: false, judge: true })),
+    ...Array.from({ length: counts.tn }, () => ({ human: false, judge: false })),
+    ...Array.from({ length: counts.fn }, () => ({ human: true, judge: false })),
+  ];
+}
+
+describe('computeAgreementMetrics', () => {
+  it('computes confusion counts, precision, recall and kappa', () => {
+    const metrics = computeAgreementMetrics(verdicts({ tp: 3, fp: 1, tn: 4, fn: 2 }));
+    expect(metrics).toMatchObject({ total: 10, truePositives: 3, falsePositives: 1, trueNegatives: 4, falseNegatives: 2 });
+    expect(metrics.accuracy).toBeCloseTo(0.7);
+    expect(metrics.precision).toBeCloseTo(0.75);
+    expect(metrics.recall).toBeCloseTo(0.6);
+    // Chance agreement is (4 * 5 + 6 * 5) / 100 = 0.5
+    expect(metrics.kappa).toBeCloseTo(0.4);
+  });
+
+  it('gives kappa 1 for perfect agreement with both labels present', () => {
+    expect(computeAgreementMetrics(verdicts({ tp: 2, fp: 0, tn: 3, fn: 0 })).kappa).toBeCloseTo(1);
+  });
+
+  it('gives negative kappa when the judge disagrees more than chance', () => {
+    expect(computeAgreementMetrics(verdicts({ tp: 0, fp: 3, tn: 0, fn: 3 })).kappa).toBeLessThan(0);
+  });
+
+  it('leaves every ratio null without samples', () => {
+    expect(computeAgreementMetrics([])).toMatchObject({
+      total: 0, accuracy: null, precision: null, recall: null, kappa: null,
+    });
+  });
+
+  it('leaves kappa null when both raters use a single label', () => {
+    const metrics = computeAgreementMetrics(verdicts({ tp: 4, fp: 0, tn: 0, fn: 0 }));
+    expect(metrics.accuracy).toBe(1);
+    expect(metrics.kappa).toBeNull();
+  });
+
+  it('leaves precision null when the judge never passes', () => {
+    const metrics = computeAgreementMetrics(verdicts({ tp: 0, fp: 0, tn: 2, fn: 2 }));
+    expect(metrics.precision).toBeNull();
+    expect(metrics.recall).toBe(0);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { describeJudge, isLowAgreement, resolveVotes, validateEvaluationConfig, MAX_JUDGES } from '../../src/utils/consensus';
+import { JudgeVote } from '../../src/types';
+
+function votes(...verdicts: (boolean | [boolean, number])[]): JudgeVote[] {
+  return verdicts.map((v, i) => {
+    const [passed, score] = Array.isArray(v) ? v : [v, undefined];
+    return { judge: `j${i}`, passed, explanation: '', score };
+  });
+}
+
+describe('resolveVotes', () => {
+  it('passes on a strict majority and fails ties', () => {
+    expect(resolveVotes(votes(true, true, false), 'majority')).toEqual({ passed: true, agreement: 2 / 3, score: undefined });
+    expect(resolveVotes(votes(true, false), 'majority')).toMatchObject({ passed: false, agreement: 0.5 });
+  });
+
+  it('needs every judge to pass when unanimous', () => {
+    expect(resolveVotes(votes(true, true, false), 'unanimous')).toMatchObject({ passed: false, agreement: 1 / 3 });
+    expect(resolveVotes(votes(true, true), 'unanimous')).toMatchObject({ passed: true, agreement: 1 });
+  });
+
+  it('takes the lower median score for a majority and the minimum when unanimous', () => {
+    const scored = votes([true, 3], [false, 1], [true, 2], [true, 4]);
+    expect(resolveVotes(scored, 'majority').score).toBe(2);
+    expect(resolveVotes(scored, 'unanimous').score).toBe(1);
+  });
+});
+
+describe('validateEvaluationConfig', () => {
+  it('accepts a panel of overrides', () => {
+    expect(() => validateEvaluationConfig({
+      judges: [{}, { model: 'gpt-4o', temperature: 0.7 }, { variant: 'strict' }],
+      resolution: 'majority',
+    })).not.toThrow();
+  });
+
+  it('rejects empty or oversized panels and unknown resolutions', () => {
+    expect(() => validateEvaluationConfig({ judges: [], resolution: 'majority' })).toThrow('non-empty "judges"');
+    expect(() => validateEvaluationConfig({ judges: Array(MAX_JUDGES + 1).fill({}), resolution: 'majority' }))
+      .toThrow(`limited to ${MAX_JUDGES} judges`);
+    expect(() => validateEvaluationConfig({ judges: [{}], resolution: 'plurality' as any })).toThrow('Invalid resolution "plurality"');
+  });
+
+  it('rejects bad judge overrides', () => {
+    expect(() => validateEvaluationConfig({ judges: [{ model: ' ' }], resolution: 'majority' })).toThrow('non-empty string');
+    expect(() => validateEvaluationConfig({ judges: [{ temperature: 3 }], resolution: 'majority' })).toThrow('between 0 and 2');
+    expect(() => validateEvaluationConfig({ judges: [{ variant: 'lenient' as any }], resolution: 'majority' }))
+      .toThrow('Invalid judge variant "lenient"');
+  });
+});
+
+describe('describeJudge', () => {
+  it('labels a judge by model, temperature and variant', () => {
+    expect(describeJudge({})).toBe('default/standard');
+    expect(describeJudge({ model: 'gpt-4o', temperature: 0.7, variant: 'strict' })).toBe('gpt-4o@0.7/strict');
+  });
+});
+
+describe('isLowAgreement', () => {
+  it('flags verdicts fewer than three in four judges agreed on', () => {
+    expect(isLowAgreement(2 / 3)).toBe(true);
+    expect(isLowAgreement(0.75)).toBe(false);
+    expect(isLowAgreement(undefined)).toBe(false);
+  });
+});
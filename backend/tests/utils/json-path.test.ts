@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { deepEqual, parseJsonPath, queryJsonPath } from '../../src/utils/json-path';
+
+describe('parseJsonPath', () => {
+  it('parses dotted keys, quoted keys, indexes and wildcards', () => {
+    expect(parseJsonPath('$')).toEqual([]);
+    expect(parseJsonPath("$.arguments['start time'][0].*")).toEqual(['arguments', 'start time', 0, '*']);
+    expect(parseJsonPath('$.items[*].name')).toEqual(['items', '*', 'name']);
+  });
+
+  it('rejects paths without a root or with unsupported syntax', () => {
+    expect(() => parseJsonPath('arguments.date')).toThrow('must start with "$"');
+    expect(() => parseJsonPath('$.items[?(@.a)]')).toThrow('Invalid JSON path "$.items[?(@.a)]" at position 7');
+  });
+});
+
+describe('queryJsonPath', () => {
+  const call = {
+    name: 'book_appointment',
+    arguments: { date: '2024-05-01', slots: [{ time: '09:00' }, { time: '10:00' }], 'contact-id': 'c1' },
+  };
+
+  it('returns every match', () => {
+    expect(queryJsonPath(call, '$.arguments.date')).toEqual(['2024-05-01']);
+    expect(queryJsonPath(call, '$.arguments.slots[1].time')).toEqual(['10:00']);
+    expect(queryJsonPath(call, '$.arguments.slots[*].time')).toEqual(['09:00', '10:00']);
+    expect(queryJsonPath(call, "$.arguments['contact-id']")).toEqual(['c1']);
+  });
+
+  it('returns nothing for missing keys, out-of-range indexes and scalars', () => {
+    expect(queryJsonPath(call, '$.arguments.missing')).toEqual([]);
+    expect(queryJsonPath(call, '$.arguments.slots[5]')).toEqual([]);
+    expect(queryJsonPath(call, '$.name.length')).toEqual([]);
+  });
+
+  it('does not match inherited properties', () => {
+    expect(queryJsonPath(call, '$.arguments.toString')).toEqual([]);
+  });
+});
+
+describe('deepEqual', () => {
+  it('compares nested values structurally', () => {
+    expect(deepEqual({ a: [1, { b: 'x' }] }, { a: [1, { b: 'x' }] })).toBe(true);
+    expect(deepEqual({ a: [1, { b: 'x' }] }, { a: [1, { b: 'y' }] })).toBe(false);
+    expect(deepEqual([1, 2], { 0: 1, 1: 2 })).toBe(false);
+    expect(deepEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+    expect(deepEqual(null, {})).toBe(false);
+  });
+});
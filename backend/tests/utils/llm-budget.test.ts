@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { findExhaustedLimit, llmBudgetFromEnv, validateLLMBudget } from '../../src/utils/llm-budget';
+import { LLMBudget } from '../../src/types';
+
+describe('validateLLMBudget', () => {
+  it('accepts a USD cap, a token cap or both', () => {
+    expect(() => validateLLMBudget({ maxCost: 2.5 })).not.toThrow();
+    expect(() => validateLLMBudget({ maxTokens: 1000 })).not.toThrow();
+    expect(() => validateLLMBudget({ maxCost: 1, maxTokens: 1000 })).not.toThrow();
+  });
+
+  it.each([
+    ['an empty budget', {}],
+    ['a zero USD cap', { maxCost: 0 }],
+    ['a fractional token cap', { maxTokens: 10.5 }],
+    ['a non-object', 5],
+  ])('rejects %s', (_label, budget) => {
+    expect(() => validateLLMBudget(budget as unknown as LLMBudget)).toThrow();
+  });
+});
+
+describe('findExhaustedLimit', () => {
+  it('describes the first cap reached', () => {
+    expect(findExhaustedLimit({ maxCost: 1, maxTokens: 100 }, { cost: 0.5, tokens: 50 })).toBeNull();
+    expect(findExhaustedLimit({ maxCost: 1, maxTokens: 100 }, { cost: 1, tokens: 50 })).toBe('$1.0000 spent of a $1 cap');
+    expect(findExhaustedLimit({ maxTokens: 100 }, { cost: 5, tokens: 100 })).toBe('100 tokens used of a 100 token cap');
+  });
+});
+
+describe('llmBudgetFromEnv', () => {
+  it('reads the global budget from the environment', () => {
+    expect(llmBudgetFromEnv({})).toBeNull();
+    expect(llmBudgetFromEnv({ LLM_BUDGET_USD: '20', LLM_BUDGET_TOKENS: '5000' })).toEqual({ maxCost: 20, maxTokens: 5000 });
+  });
+
+  it('rejects invalid values', () => {
+    expect(() => llmBudgetFromEnv({ LLM_BUDGET_USD: 'lots' })).toThrow();
+  });
+});
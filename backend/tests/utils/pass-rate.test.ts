@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePassRate, countCriticalFailures, resolveCriterionWeight } from '../../src/utils/pass-rate';
+import { CriterionResult, TestCaseResult } from '../../src/types';
+
+function caseResult(criterionResults: Partial<CriterionResult>[], status: 'completed' | 'error' = 'completed'): TestCaseResult {
+  return {
+    testCaseId: 'tc1',
+    agentResponses: [],
+    criterionResults: criterionResults.map((c, i) => ({ criterionId: `c${i}`, passed: false, explanation: '', ...c })),
+    status,
+  };
+}
+
+describe('calculatePassRate', () => {
+  it('is the share of passed criteria in completed cases', () => {
+    const results = [
+      caseResult([{ passed: true }, { passed: false }]),
+      caseResult([{ passed: true }, { passed: true }]),
+      caseResult([{ passed: false }], 'error'),
+    ];
+    expect(calculatePassRate(results)).toBe(0.75);
+  });
+
+  it('is 0 without criteria to count', () => {
+    expect(calculatePassRate([])).toBe(0);
+    expect(calculatePassRate([caseResult([{ passed: true }], 'error')])).toBe(0);
+  });
+
+  it('credits rubric scores in score mode', () => {
+    const results = [caseResult([
+      { passed: true, score: 2, maxScore: 4 },
+      { passed: false, score: 1, maxScore: 4 },
+      { passed: true },
+    ])];
+    expect(calculatePassRate(results)).toBeCloseTo(2 / 3);
+    expect(calculatePassRate(results, 'score')).toBeCloseTo((0.5 + 0.25 + 1) / 3);
+  });
+
+  it('weights criteria by severity', () => {
+    // critical 3, major 2, minor 1
+    const results = [caseResult([
+      { passed: true, severity: 'critical' },
+      { passed: false, severity: 'major' },
+      { passed: false, severity: 'minor' },
+    ])];
+    expect(calculatePassRate(results)).toBe(0.5);
+  });
+
+  it('lets an explicit weight override the severity', () => {
+    const results = [caseResult([
+      { passed: true, severity: 'minor', weight: 5 },
+      { passed: false, severity: 'critical' },
+    ])];
+    expect(calculatePassRate(results)).toBe(5 / 8);
+    expect(calculatePassRate(results, 'score')).toBe(5 / 8);
+  });
+
+  it('weights rubric scores in score mode', () => {
+    const results = [caseResult([
+      { passed: true, score: 1, maxScore: 2, severity: 'critical' },
+      { passed: true, severity: 'minor' },
+    ])];
+    expect(calculatePassRate(results, 'score')).toBe((3 * 0.5 + 1) / 4);
+  });
+});
+
+describe('resolveCriterionWeight', () => {
+  it('defaults to the weight of a major criterion', () => {
+    expect(resolveCriterionWeight({})).toBe(2);
+    expect(resolveCriterionWeight({ severity: 'critical' })).toBe(3);
+    expect(resolveCriterionWeight({ severity: 'critical', weight: 0.5 })).toBe(0.5);
+  });
+});
+
+describe('countCriticalFailures', () => {
+  it('counts failed critical criteria in completed cases', () => {
+    const results = [
+      caseResult([{ passed: false, severity: 'critical' }, { passed: true, severity: 'critical' }, { passed: false }]),
+      caseResult([{ passed: false, severity: 'critical' }]),
+      caseResult([{ passed: false, severity: 'critical' }], 'error'),
+    ];
+    expect(countCriticalFailures(results)).toBe(2);
+  });
+});
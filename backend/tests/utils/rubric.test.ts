@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { formatRubricLevels, normalizeRubricScore, rubricMaxScore, validateRubric } from '../../src/utils/rubric';
+import { CriterionRubric } from '../../src/types';
+
+const rubric: CriterionRubric = {
+  levels: ['Rude or dismissive', 'Neutral', 'Polite', 'Warm and personal'],
+  passThreshold: 2,
+};
+
+describe('validateRubric', () => {
+  it('accepts a rubric whose threshold some score can miss', () => {
+    expect(() => validateRubric(rubric)).not.toThrow();
+    expect(() => validateRubric({ levels: ['No', 'Yes'], passThreshold: 1 })).not.toThrow();
+  });
+
+  it('requires two described levels', () => {
+    expect(() => validateRubric({ levels: ['Only'], passThreshold: 1 })).toThrow('at least two "levels"');
+    expect(() => validateRubric({ levels: ['Bad', ' '], passThreshold: 1 })).toThrow('non-empty description');
+  });
+
+  it('requires a threshold between 1 and the top score', () => {
+    expect(() => validateRubric({ ...rubric, passThreshold: 0 })).toThrow('between 1 and 3');
+    expect(() => validateRubric({ ...rubric, passThreshold: 4 })).toThrow('between 1 and 3');
+    expect(() => validateRubric({ ...rubric, passThreshold: 1.5 })).toThrow('between 1 and 3');
+  });
+});
+
+describe('normalizeRubricScore', () => {
+  it('rounds and clamps onto the 0..N scale', () => {
+    expect(rubricMaxScore(rubric)).toBe(3);
+    expect(normalizeRubricScore(rubric, 2.4)).toBe(2);
+    expect(normalizeRubricScore(rubric, '2.6')).toBe(3);
+    expect(normalizeRubricScore(rubric, 7)).toBe(3);
+    expect(normalizeRubricScore(rubric, -1)).toBe(0);
+  });
+
+  it('rejects scores that are not numbers', () => {
+    expect(() => normalizeRubricScore(rubric, 'great')).toThrow('non-numeric rubric score: "great"');
+  });
+});
+
+describe('formatRubricLevels', () => {
+  it('numbers each level by its score', () => {
+    expect(formatRubricLevels(rubric)).toBe('0: Rude or dismissive\n1: Neutral\n2: Polite\n3: Warm and personal');
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { mcnemarExactPValue, testPairedOutcomes } from '../../src/utils/significance';
+
+describe('mcnemarExactPValue', () => {
+  it('is 1 when no criterion flipped', () => {
+    expect(mcnemarExactPValue(0, 0)).toBe(1);
+  });
+
+  it('matches the exact binomial tail', () => {
+    // 2 * P(X <= 0), X ~ Binomial(5, 0.5)
+    expect(mcnemarExactPValue(5, 0)).toBeCloseTo(2 / 32, 12);
+    // 2 * P(X <= 2), X ~ Binomial(12, 0.5) = 2 * (1 + 12 + 66) / 4096
+    expect(mcnemarExactPValue(10, 2)).toBeCloseTo(158 / 4096, 12);
+  });
+
+  it('caps the p-value at 1 for balanced splits', () => {
+    expect(mcnemarExactPValue(1, 1)).toBe(1);
+    expect(mcnemarExactPValue(3000, 3000)).toBe(1);
+  });
+
+  it('stays finite and positive for large lopsided samples', () => {
+    const p = mcnemarExactPValue(600, 400);
+    expect(p).toBeGreaterThan(0);
+    expect(p).toBeLessThan(1e-6);
+  });
+
+  it('is symmetric and within [0, 1]', () => {
+    fc.assert(fc.property(fc.nat(200), fc.nat(200), (improved, regressed) => {
+      const p = mcnemarExactPValue(improved, regressed);
+      expect(p).toBeGreaterThanOrEqual(0);
+      expect(p).toBeLessThanOrEqual(1);
+      expect(mcnemarExactPValue(regressed, improved)).toBeCloseTo(p, 12);
+    }));
+  });
+});
+
+describe('testPairedOutcomes', () => {
+  const pairs = (improved: number, regressed: number, unchanged: number) => [
+    ...Array.from({ length: improved }, () => ({ before: false, after: true })),
+    ...Array.from({ length: regressed }, () => ({ before: true, after: false })),
+    ...Array.from({ length: unchanged }, () => ({ before: true, after: true })),
+  ];
+
+  it('counts only discordant pairs as evidence', () => {
+    const result = testPairedOutcomes(pairs(2, 1, 20));
+    expect(result).toMatchObject({ sharedCriteria: 23, improved: 2, regressed: 1, verdict: 'no-significant-change' });
+  });
+
+  it('reports a significant improvement or regression', () => {
+    expect(testPairedOutcomes(pairs(6, 0, 4)).verdict).toBe('improved');
+    expect(testPairedOutcomes(pairs(0, 6, 4)).verdict).toBe('regressed');
+  });
+
+  it('respects a custom alpha', () => {
+    // p = 0.0625 for a 5-0 split
+    expect(testPairedOutcomes(pairs(5, 0, 0)).verdict).toBe('no-significant-change');
+    expect(testPairedOutcomes(pairs(5, 0, 0), 0.1).verdict).toBe('improved');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { checkStopPolicy, validateStopPolicy, describeStopReason, CycleStopState } from '../../src/utils/stop-policy';
+import { CycleStopPolicy } from '../../src/types';
+
+const state = (overrides: Partial<CycleStopState> = {}): CycleStopState => ({
+  bestPassRates: [],
+  llmCalls: 0,
+  cost: 0,
+  elapsedMs: 0,
+  criticalFailures: null,
+  criticalCriteria: 0,
+  ...overrides,
+});
+
+describe('validateStopPolicy', () => {
+  it('accepts an empty policy and a full one', () => {
+    expect(() => validateStopPolicy({})).not.toThrow();
+    expect(() => validateStopPolicy({
+      plateau: { window: 2, minImprovement: 0.05 },
+      maxLLMCalls: 100,
+      maxCost: 2.5,
+      maxDurationMs: 60_000,
+      stopWhenCriticalPassing: true,
+    })).not.toThrow();
+  });
+
+  it.each([
+    ['a non-object policy', []],
+    ['a plateau without a window', { plateau: { minImprovement: 0.1 } }],
+    ['a zero plateau window', { plateau: { window: 0, minImprovement: 0.1 } }],
+    ['a plateau improvement above 1', { plateau: { window: 2, minImprovement: 1.5 } }],
+    ['a fractional call budget', { maxLLMCalls: 1.5 }],
+    ['a zero spend budget', { maxCost: 0 }],
+    ['a negative time limit', { maxDurationMs: -1 }],
+    ['a non-boolean critical flag', { stopWhenCriticalPassing: 'yes' }],
+  ])('rejects %s', (_label, policy) => {
+    expect(() => validateStopPolicy(policy as unknown as CycleStopPolicy)).toThrow();
+  });
+});
+
+describe('checkStopPolicy', () => {
+  it('keeps cycling with an empty policy', () => {
+    expect(checkStopPolicy({}, state({ llmCalls: 1e6, elapsedMs: 1e9, criticalFailures: 0, criticalCriteria: 3 }))).toBeNull();
+  });
+
+  it('stops once the call or spend budget is used', () => {
+    expect(checkStopPolicy({ maxLLMCalls: 50 }, state({ llmCalls: 49 }))).toBeNull();
+    expect(checkStopPolicy({ maxLLMCalls: 50 }, state({ llmCalls: 50 }))).toBe('budget-exhausted');
+    expect(checkStopPolicy({ maxCost: 1 }, state({ cost: 0.99 }))).toBeNull();
+    expect(checkStopPolicy({ maxCost: 1 }, state({ cost: 1.2 }))).toBe('budget-exhausted');
+  });
+
+  it('stops at the time limit', () => {
+    expect(checkStopPolicy({ maxDurationMs: 1000 }, state({ elapsedMs: 1000 }))).toBe('time-limit');
+  });
+
+  it('stops when every critical criterion passes', () => {
+    const policy = { stopWhenCriticalPassing: true };
+    expect(checkStopPolicy(policy, state({ criticalFailures: 0, criticalCriteria: 2 }))).toBe('critical-passing');
+    expect(checkStopPolicy(policy, state({ criticalFailures: 1, criticalCriteria: 2 }))).toBeNull();
+  });
+
+  it('does not stop on passing critical criteria before the first run or without any', () => {
+    const policy = { stopWhenCriticalPassing: true };
+    expect(checkStopPolicy(policy, state({ criticalFailures: null }))).toBeNull();
+    expect(checkStopPolicy(policy, state({ criticalFailures: 0, criticalCriteria: 0 }))).toBeNull();
+  });
+
+  it('detects a plateau only after `window` cycles past the baseline', () => {
+    const policy = { plateau: { window: 2, minImprovement: 0.05 } };
+    expect(checkStopPolicy(policy, state({ bestPassRates: [0.5, 0.51] }))).toBeNull();
+    expect(checkStopPolicy(policy, state({ bestPassRates: [0.5, 0.51, 0.52] }))).toBe('plateau');
+    expect(checkStopPolicy(policy, state({ bestPassRates: [0.5, 0.51, 0.6] }))).toBeNull();
+    // Only the last `window` cycles count
+    expect(checkStopPolicy(policy, state({ bestPassRates: [0.2, 0.5, 0.52, 0.53] }))).toBe('plateau');
+  });
+
+  it('reports budgets before time limits and plateaus', () => {
+    const policy = { maxLLMCalls: 10, maxDurationMs: 10, plateau: { window: 1, minImprovement: 0.1 } };
+    expect(checkStopPolicy(policy, state({ llmCalls: 10, elapsedMs: 10, bestPassRates: [0.5, 0.5] }))).toBe('budget-exhausted');
+  });
+});
+
+describe('describeStopReason', () => {
+  it('explains each reason', () => {
+    expect(describeStopReason('critical-passing')).toBe('every critical criterion passes');
+    expect(describeStopReason('budget-exhausted')).toMatch(/budget/);
+  });
+});
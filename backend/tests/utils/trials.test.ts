@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { calculatePassRateInterval, summarizeTrials, validateTrials, wilsonInterval, MAX_TRIALS } from '../../src/utils/trials';
+import { TestCaseResult } from '../../src/types';
+
+function caseResult(testCaseId: string, trial: number, outcomes: Record<string, boolean>, status: 'completed' | 'error' = 'completed'): TestCaseResult {
+  return {
+    testCaseId,
+    trial,
+    agentResponses: [],
+    criterionResults: Object.entries(outcomes).map(([criterionId, passed]) => ({ criterionId, passed, explanation: '' })),
+    status,
+  };
+}
+
+describe('wilsonInterval', () => {
+  it('spans [0, 1] without samples', () => {
+    expect(wilsonInterval(0, 0)).toEqual({ lower: 0, upper: 1 });
+  });
+
+  it('matches the 95% Wilson score interval', () => {
+    const interval = wilsonInterval(0.5, 100);
+    expect(interval.lower).toBeCloseTo(0.4038, 4);
+    expect(interval.upper).toBeCloseTo(0.5962, 4);
+  });
+
+  it('stays inside [0, 1] at the extremes', () => {
+    expect(wilsonInterval(1, 10).upper).toBe(1);
+    expect(wilsonInterval(1, 10).lower).toBeCloseTo(0.7225, 4);
+    expect(wilsonInterval(0, 10).lower).toBe(0);
+  });
+
+  it('contains the observed rate and narrows with more samples', () => {
+    fc.assert(fc.property(fc.double({ min: 0, max: 1, noNaN: true }), fc.integer({ min: 1, max: 1000 }), (p, n) => {
+      const { lower, upper } = wilsonInterval(p, n);
+      expect(lower).toBeGreaterThanOrEqual(0);
+      expect(upper).toBeLessThanOrEqual(1);
+      expect(lower).toBeLessThanOrEqual(p + 1e-9);
+      expect(upper).toBeGreaterThanOrEqual(p - 1e-9);
+      const wider = wilsonInterval(p, n * 4);
+      expect(wider.upper - wider.lower).toBeLessThanOrEqual(upper - lower + 1e-9);
+    }));
+  });
+});
+
+describe('calculatePassRateInterval', () => {
+  it('counts every verdict of completed cases as a sample', () => {
+    const results = [
+      caseResult('a', 1, { c1: true, c2: false }),
+      caseResult('a', 2, { c1: true, c2: true }),
+      caseResult('b', 1, { c1: false }, 'error'),
+    ];
+    // 3 of 4 equally weighted verdicts passed; the errored case is ignored
+    expect(calculatePassRateInterval(results)).toEqual(wilsonInterval(0.75, 4));
+  });
+});
+
+describe('summarizeTrials', () => {
+  it('flags criteria that both passed and failed across trials', () => {
+    const stats = summarizeTrials([
+      caseResult('a', 1, { steady: true, flaky: true, failing: false }),
+      caseResult('a', 2, { steady: true, flaky: false, failing: false }),
+      caseResult('a', 3, { steady: true, flaky: true, failing: false }),
+    ]);
+    const byId = Object.fromEntries(stats.map(s => [s.criterionId, s]));
+    expect(byId.steady).toMatchObject({ trials: 3, passes: 3, passProbability: 1, flaky: false });
+    expect(byId.flaky.passProbability).toBeCloseTo(2 / 3);
+    expect(byId.flaky.flaky).toBe(true);
+    expect(byId.failing).toMatchObject({ passes: 0, passProbability: 0, flaky: false });
+  });
+
+  it('keeps the same criterion of different cases apart and skips errored trials', () => {
+    const stats = summarizeTrials([
+      caseResult('a', 1, { c: true }),
+      caseResult('b', 1, { c: false }),
+      caseResult('a', 2, { c: false }, 'error'),
+    ]);
+    expect(stats).toHaveLength(2);
+    expect(stats.every(s => s.trials === 1 && !s.flaky)).toBe(true);
+  });
+});
+
+describe('validateTrials', () => {
+  it('accepts whole numbers from 1 to MAX_TRIALS', () => {
+    expect(() => validateTrials(1)).not.toThrow();
+    expect(() => validateTrials(MAX_TRIALS)).not.toThrow();
+  });
+
+  it('rejects anything else', () => {
+    for (const trials of [0, MAX_TRIALS + 1, 1.5, '2', undefined]) {
+      expect(() => validateTrials(trials)).toThrow();
+    }
+  });
+});
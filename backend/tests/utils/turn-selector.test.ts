@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { describeTurnSelector, getTurnMatchMode, selectTurns, validateTurnSelector } from '../../src/utils/turn-selector';
+import { AgentResponse, TurnSelector } from '../../src/types';
+
+const responses: AgentResponse[] = [1, 2, 3, 4].map(turn => ({ turn, utterance: `reply ${turn}` }));
+
+function turnsOf(selector: TurnSelector): number[] {
+  return selectTurns(responses, selector).map(r => r.turn);
+}
+
+describe('selectTurns', () => {
+  it('picks the turns each scope refers to', () => {
+    expect(turnsOf({ scope: 'turn', turn: 2 })).toEqual([2]);
+    expect(turnsOf({ scope: 'range', from: 2, to: 3 })).toEqual([2, 3]);
+    expect(turnsOf({ scope: 'first' })).toEqual([1]);
+    expect(turnsOf({ scope: 'last' })).toEqual([4]);
+    expect(turnsOf({ scope: 'by-turn', turn: 3 })).toEqual([1, 2, 3]);
+  });
+
+  it('returns nothing for turns the conversation never reached', () => {
+    expect(turnsOf({ scope: 'turn', turn: 9 })).toEqual([]);
+    expect(turnsOf({ scope: 'range', from: 5, to: 6 })).toEqual([]);
+    expect(selectTurns([], { scope: 'last' })).toEqual([]);
+  });
+});
+
+describe('validateTurnSelector', () => {
+  it('accepts complete selectors', () => {
+    expect(() => validateTurnSelector({ scope: 'turn', turn: 1 })).not.toThrow();
+    expect(() => validateTurnSelector({ scope: 'range', from: 2, to: 2, match: 'all' })).not.toThrow();
+    expect(() => validateTurnSelector({ scope: 'last' })).not.toThrow();
+  });
+
+  it('rejects unknown scopes, bad turns and inverted ranges', () => {
+    expect(() => validateTurnSelector({ scope: 'middle' } as any)).toThrow('Invalid turn selector scope "middle"');
+    expect(() => validateTurnSelector({ scope: 'turn', turn: 0 })).toThrow('require a positive integer "turn"');
+    expect(() => validateTurnSelector({ scope: 'by-turn' } as any)).toThrow('"by-turn" turn selectors');
+    expect(() => validateTurnSelector({ scope: 'range', from: 3, to: 2 })).toThrow('"from" <= "to"');
+    expect(() => validateTurnSelector({ scope: 'first', match: 'most' } as any)).toThrow('"any" or "all"');
+  });
+});
+
+describe('getTurnMatchMode', () => {
+  it('judges selected turns together unless told otherwise, except by-turn', () => {
+    expect(getTurnMatchMode({ scope: 'range', from: 1, to: 2 })).toBe('together');
+    expect(getTurnMatchMode({ scope: 'range', from: 1, to: 2, match: 'all' })).toBe('all');
+    expect(getTurnMatchMode({ scope: 'by-turn', turn: 3 })).toBe('any');
+  });
+});
+
+describe('describeTurnSelector', () => {
+  it('labels each scope', () => {
+    expect(describeTurnSelector({ scope: 'turn', turn: 3 })).toBe('turn 3');
+    expect(describeTurnSelector({ scope: 'range', from: 1, to: 3 })).toBe('turns 1-3');
+    expect(describeTurnSelector({ scope: 'by-turn', turn: 2 })).toBe('turns 1-2');
+    expect(describeTurnSelector({ scope: 'last' })).toBe('the last turn');
+  });
+});
@@ -8,6 +8,8 @@ import PromptDiffView from './components/PromptDiffView';
 import ResultsDashboard from './components/ResultsDashboard';
 import BeforeAfterView from './components/BeforeAfterView';
 import CycleControlPanel from './components/CycleControlPanel';
+import CalibrationPanel from './components/CalibrationPanel';
+import RunComparisonView from './components/RunComparisonView';
 
 const TABS = [
   { id: 'analyze', label: 'Analyze' },
@@ -146,6 +148,8 @@ export default function App() {
               <>
                 <ResultsDashboard agentId={state.selectedAgentId} testRunId={state.testRunId} />
                 <BeforeAfterView agentId={state.selectedAgentId} />
+                <RunComparisonView agentId={state.selectedAgentId} />
+                <CalibrationPanel agentId={state.selectedAgentId} />
               </>
             ) : (
               <div className="card">
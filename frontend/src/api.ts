@@ -54,17 +54,60 @@ export interface UserInput {
   context?: string;
 }
 
+export type CriterionAssertion = (
+  | { type: 'llm-judge' }
+  | { type: 'regex'; pattern: string; flags?: string }
+  | { type: 'contains'; value: string; caseSensitive?: boolean }
+  | { type: 'not-contains'; value: string; caseSensitive?: boolean }
+  | { type: 'max-words'; limit: number }
+  | { type: 'max-chars'; limit: number }
+  | { type: 'json-path'; path: string; equals?: unknown }
+) & { withinTurns?: number };
+
+export type TurnSelector = (
+  | { scope: 'turn'; turn: number }
+  | { scope: 'range'; from: number; to: number }
+  | { scope: 'first' }
+  | { scope: 'last' }
+  | { scope: 'by-turn'; turn: number }
+) & { match?: 'any' | 'all' };
+
+export interface CriterionRubric {
+  levels: string[];
+  passThreshold: number;
+}
+
+export type CriterionSeverity = 'critical' | 'major' | 'minor';
+
 export interface SuccessCriterion {
   id: string;
   description: string;
   category: 'behavioral' | 'functional' | 'compliance';
   evaluationPrompt: string;
+  assertion?: CriterionAssertion;
+  turnSelector?: TurnSelector;
+  rubric?: CriterionRubric;
+  severity?: CriterionSeverity;
+  weight?: number;
+}
+
+export interface CallerPersona {
+  goal: string;
+  knownFacts: string[];
+  temperament: string;
+  giveUpCondition: string;
+  maxTurns: number;
 }
 
+export type TestSplit = 'train' | 'holdout';
+
 export interface TestCase {
   id: string;
   scenarioDescription: string;
   scenarioType: 'happy-path' | 'adversarial';
+  split?: TestSplit;
+  kind?: 'scripted' | 'persona';
+  persona?: CallerPersona;
   userInputSequence: UserInput[];
   successCriteria: SuccessCriterion[];
 }
@@ -77,23 +120,72 @@ export interface TestSuite {
 }
 
 // --- Test Run types ---
+export interface ToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
 export interface AgentResponse {
   turn: number;
   utterance: string;
+  userUtterance?: string;
+  toolCalls?: ToolCall[];
+}
+
+export type CallerOutcome = 'goal-reached' | 'gave-up' | 'max-turns';
+
+export interface JudgeConfig {
+  model?: string;
+  temperature?: number;
+  variant?: 'standard' | 'strict' | 'evidence';
+}
+
+export interface EvaluationConfig {
+  judges: JudgeConfig[];
+  resolution: 'majority' | 'unanimous';
+}
+
+export interface JudgeVote {
+  judge: string;
+  passed: boolean;
+  explanation: string;
+  score?: number;
 }
 
 export interface CriterionResult {
+  // Present on results loaded from a stored run
+  id?: string;
   criterionId: string;
   passed: boolean;
   explanation: string;
+  turn?: number;
+  score?: number;
+  maxScore?: number;
+  severity?: CriterionSeverity;
+  weight?: number;
+  judgeVotes?: JudgeVote[];
+  agreement?: number;
+  humanLabel?: boolean;
+  humanLabelNote?: string;
 }
 
 export interface TestCaseResult {
   testCaseId: string;
+  trial?: number;
   agentResponses: AgentResponse[];
   criterionResults: CriterionResult[];
   status: 'completed' | 'error';
   errorMessage?: string;
+  callerOutcome?: CallerOutcome;
+}
+
+export interface CriterionTrialStats {
+  testCaseId: string;
+  criterionId: string;
+  trials: number;
+  passes: number;
+  passProbability: number;
+  flaky: boolean;
 }
 
 export interface TestRun {
@@ -102,10 +194,94 @@ export interface TestRun {
   agentId: string;
   promptSnapshot: string;
   overallPassRate: number;
+  overallScore?: number | null;
+  criticalFailures?: number;
+  trials?: number;
+  passRateLower?: number | null;
+  passRateUpper?: number | null;
+  flakyCriteria?: number;
+  criterionStats?: CriterionTrialStats[];
   status: string;
   results: TestCaseResult[];
   startedAt: string;
   completedAt?: string;
+  usage?: LLMUsageTotals;
+}
+
+export type LLMOperation = 'analysis' | 'generation' | 'judging' | 'optimization' | 'simulation';
+
+export interface LLMUsageBreakdown {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  // USD, excluding calls to models missing from the price table
+  cost: number;
+}
+
+export interface LLMUsageTotals extends LLMUsageBreakdown {
+  failedCalls: number;
+  // Included in calls, at no cost
+  cachedCalls: number;
+  replayedCalls: number;
+  unpricedCalls: number;
+  latencyMs: number;
+  byOperation: Partial<Record<LLMOperation, LLMUsageBreakdown>>;
+}
+
+// Each trial of a case counts as one case
+export interface TestRunTotals {
+  completedCases: number;
+  totalCases: number;
+  passedCriteria: number;
+  evaluatedCriteria: number;
+  // Weighted pass rate of the completed cases
+  passRate: number;
+}
+
+export interface TestRunEvent extends TestRunTotals {
+  // Absent on the summary sent for a run that is no longer executing
+  id?: number;
+  type: 'case_started' | 'turn_completed' | 'criterion_evaluated' | 'case_completed' | 'finished' | 'error';
+  testCaseId?: string;
+  trial?: number;
+  agentResponse?: AgentResponse;
+  criterionResult?: CriterionResult;
+  result?: TestCaseResult;
+  status?: 'completed' | 'error';
+  message?: string;
+}
+
+// --- Calibration types ---
+export interface AgreementMetrics {
+  total: number;
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+  accuracy: number | null;
+  precision: number | null;
+  recall: number | null;
+  kappa: number | null;
+}
+
+export interface CalibrationVerdict {
+  criterionResultId: string;
+  criterionId: string;
+  category: 'behavioral' | 'functional' | 'compliance';
+  humanLabel: boolean;
+  judgePassed: boolean;
+  explanation: string;
+}
+
+export interface CalibrationRun {
+  id: string;
+  agentId: string | null;
+  evaluationConfig: EvaluationConfig;
+  sampleSize: number;
+  overall: AgreementMetrics;
+  byCategory: Partial<Record<CalibrationVerdict['category'], AgreementMetrics>>;
+  verdicts: CalibrationVerdict[];
+  createdAt: string;
 }
 
 // --- Optimization types ---
@@ -114,6 +290,42 @@ export interface PromptChange {
   rationale: string;
 }
 
+export interface OptimizationCandidateConfig {
+  temperature?: number;
+  focus?: string;
+}
+
+export interface OptimizationStrategy {
+  candidates: OptimizationCandidateConfig[];
+  sampleSize?: number;
+}
+
+// Hard cap on LLM spend; calls past it are refused with BUDGET_EXCEEDED
+export interface LLMBudget {
+  maxCost?: number;
+  maxTokens?: number;
+}
+
+export interface CycleStopPolicy {
+  plateau?: { window: number; minImprovement: number };
+  maxLLMCalls?: number;
+  maxCost?: number;
+  maxDurationMs?: number;
+  stopWhenCriticalPassing?: boolean;
+}
+
+export type CycleStopReason =
+  | 'threshold-met'
+  | 'max-cycles'
+  | 'plateau'
+  | 'budget-exhausted'
+  | 'time-limit'
+  | 'critical-passing'
+  | 'spend-cap'
+  | 'cancelled'
+  | 'paused'
+  | 'interrupted';
+
 export interface OptimizationRecord {
   id: string;
   testRunId: string;
@@ -123,6 +335,14 @@ export interface OptimizationRecord {
   changes: PromptChange[];
   targetedFailures: string[];
   status: 'generated' | 'accepted' | 'rejected';
+  // Tournament fields: siblings share the tournamentId
+  tournamentId?: string;
+  candidate?: OptimizationCandidateConfig;
+  score?: number;
+  evaluationRunId?: string;
+  criticalFailures?: number;
+  // Every candidate, best first, on the winner returned by a tournament
+  candidates?: OptimizationRecord[];
 }
 
 // --- Cycle types ---
@@ -137,20 +357,161 @@ export interface CycleRecord {
   status: 'running' | 'paused' | 'completed' | 'cancelled';
   testRunIds: string[];
   optimizationIds: string[];
+  // Runs over the holdout split, one per cycle, when the suite has one
+  holdoutRunIds: string[];
+  passRateCurve: CyclePassRatePoint[];
+  // Revisions reverted because they scored worse than the best prompt
+  rollbacks: CycleRollback[];
+  bestTestRunId: string | null;
+  // Which prompt the agent was left on, and why
+  outcome: string | null;
+  stopReason: CycleStopReason | null;
+  // null for cycles started before configs were stored; those cannot be resumed
+  config?: { stopPolicy?: CycleStopPolicy; budget?: LLMBudget } | null;
+  usage?: LLMUsageTotals;
+}
+
+// Ids increase monotonically per server; a reconnecting stream resumes after the last one seen
+export interface CycleEvent {
+  id: number;
+  type: 'cycle_start' | 'cycle_complete' | 'test_run_complete' | 'optimization_complete' | 'rollback' | 'finished' | 'error';
+  cycleNumber?: number;
+  passRate?: number;
+  trainPassRate?: number;
+  holdoutPassRate?: number | null;
+  passRateInterval?: { lower: number; upper: number };
+  criticalFailures?: number;
+  flakyCriteria?: number;
+  status?: string;
+  stopReason?: CycleStopReason;
+  message?: string;
+}
+
+export interface CycleRollback {
+  cycleNumber: number;
+  optimizationId: string;
+  reason: string;
+}
+
+export interface CyclePassRatePoint {
+  cycleNumber: number;
+  trainPassRate: number;
+  holdoutPassRate: number | null;
 }
 
 // --- Comparison types ---
+export interface CriterionChange {
+  criterionId: string;
+  description: string;
+  previousPassed: boolean;
+  currentPassed: boolean;
+  previousScore?: number;
+  currentScore?: number;
+  maxScore?: number;
+}
+
+export interface PairedSignificance {
+  sharedCriteria: number;
+  improved: number;
+  regressed: number;
+  pValue: number;
+  alpha: number;
+  verdict: 'improved' | 'regressed' | 'no-significant-change';
+}
+
+export interface TestRunMetric {
+  testRunId: string;
+  passRate: number;
+  score: number | null;
+  criticalFailures: number;
+  completedAt: string;
+}
+
 export interface ComparisonData {
   agentId: string;
   originalPrompt: string;
   currentPrompt: string;
-  originalMetrics: { passRate: number; criterionResults: CriterionResult[] };
-  currentMetrics: { passRate: number; criterionResults: CriterionResult[] };
-  improvements: string[];
-  regressions: string[];
-  runs: TestRun[];
+  // Only changes backed by a significant difference between the first and latest run
+  improvements: CriterionChange[];
+  regressions: CriterionChange[];
+  inconclusive: CriterionChange[];
+  significance: PairedSignificance | null;
+  testRunMetrics: TestRunMetric[];
+}
+
+export interface DiffChange {
+  type: 'added' | 'removed' | 'context';
+  lineNumber: number;
+  content: string;
+}
+
+export type CriterionTransition = 'fixed' | 'broke' | 'still-passing' | 'still-failing' | 'added' | 'removed';
+
+export interface CriterionAlignment {
+  criterionId: string;
+  description: string;
+  before: boolean | null;
+  after: boolean | null;
+  transition: CriterionTransition;
 }
 
+export interface TurnComparison {
+  turn: number;
+  base?: AgentResponse;
+  target?: AgentResponse;
+  changed: boolean;
+  diff: DiffChange[];
+}
+
+export interface CaseComparison {
+  testCaseId: string;
+  scenarioDescription: string;
+  criteria: CriterionAlignment[];
+  turns: TurnComparison[];
+}
+
+export interface RunComparison {
+  baseRunId: string;
+  targetRunId: string;
+  basePassRate: number;
+  targetPassRate: number;
+  passRateDelta: number;
+  improvements: CriterionChange[];
+  regressions: CriterionChange[];
+  inconclusive: CriterionChange[];
+  significance: PairedSignificance;
+  promptDiff: DiffChange[];
+  cases: CaseComparison[];
+}
+
+// --- Job types ---
+export type JobType = 'analysis' | 'test-suite' | 'test-run' | 'cycle';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobProgress {
+  completed: number;
+  total: number;
+  message?: string;
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  // Analysis, test suite, test run or cycle the job produces or drives, once known
+  resourceId: string | null;
+  progress: JobProgress;
+  result: unknown;
+  error: string | null;
+  // e.g. BUDGET_EXCEEDED when a spend cap refused the job's LLM calls
+  errorCode: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+const JOB_POLL_INTERVAL_MS = 1000;
+
 // --- API functions ---
 
 export async function fetchAgents(): Promise<Agent[]> {
@@ -168,18 +529,41 @@ export async function updateAgentPrompt(agentId: string, prompt: string): Promis
   });
 }
 
+export async function fetchJob(id: string): Promise<Job> {
+  return request<Job>(`/jobs/${id}`);
+}
+
+export async function cancelJob(id: string): Promise<Job> {
+  return request<Job>(`/jobs/${id}/cancel`, { method: 'POST' });
+}
+
+// Poll a job until it finishes; rejects with the job's error when it fails or is cancelled
+export async function waitForJob(id: string, onProgress?: (job: Job) => void): Promise<Job> {
+  for (;;) {
+    const job = await fetchJob(id);
+    onProgress?.(job);
+    if (job.status === 'completed') return job;
+    if (job.status === 'failed' || job.status === 'cancelled') {
+      throw new Error(job.error || `Job ${job.status}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+}
+
 export async function triggerAnalysis(agentId: string): Promise<PromptAnalysis> {
-  return request<PromptAnalysis>('/analysis', {
+  const job = await request<Job>('/analysis', {
     method: 'POST',
     body: JSON.stringify({ agentId }),
   });
+  return (await waitForJob(job.id)).result as PromptAnalysis;
 }
 
 export async function createTestSuite(agentId: string, analysisId: string): Promise<TestSuite> {
-  return request<TestSuite>('/test-suites', {
+  const job = await request<Job>('/test-suites', {
     method: 'POST',
     body: JSON.stringify({ agentId, analysisId }),
   });
+  return (await waitForJob(job.id)).result as TestSuite;
 }
 
 export async function fetchTestSuite(id: string): Promise<TestSuite> {
@@ -193,27 +577,73 @@ export async function updateTestSuite(id: string, testCases: TestCase[]): Promis
   });
 }
 
-export async function startTestRun(testSuiteId: string, agentId: string): Promise<TestRun> {
-  return request<TestRun>('/test-runs', {
+export async function splitTestSuite(id: string, holdoutFraction: number): Promise<TestSuite> {
+  return request<TestSuite>(`/test-suites/${id}/split`, {
+    method: 'POST',
+    body: JSON.stringify({ holdoutFraction }),
+  });
+}
+
+export async function startTestRun(
+  testSuiteId: string,
+  agentId: string,
+  evaluation?: EvaluationConfig,
+  trials?: number,
+  // Judge afresh instead of reusing cached LLM responses
+  bypassCache?: boolean,
+  onProgress?: (job: Job) => void
+): Promise<TestRun> {
+  const job = await request<Job>('/test-runs', {
     method: 'POST',
-    body: JSON.stringify({ testSuiteId, agentId }),
+    body: JSON.stringify({ testSuiteId, agentId, evaluation, trials, bypassCache }),
   });
+  const finished = await waitForJob(job.id, onProgress);
+  return fetchTestRun(finished.resourceId as string);
 }
 
 export async function fetchTestRun(id: string): Promise<TestRun> {
   return request<TestRun>(`/test-runs/${id}`);
 }
 
+// Replays the run's events from the start, then follows it live; EventSource resends
+// Last-Event-ID when it reconnects, so only events it missed are sent again.
+export function subscribeTestRunEvents(
+  testRunId: string,
+  onEvent: (event: TestRunEvent) => void
+): () => void {
+  const es = new EventSource(`${BASE}/test-runs/${testRunId}/events`);
+  let lastId = 0;
+  es.onmessage = (e) => {
+    try {
+      const event: TestRunEvent = JSON.parse(e.data);
+      if (event.id !== undefined) {
+        if (event.id <= lastId) return;
+        lastId = event.id;
+      }
+      onEvent(event);
+      // The server ends the stream after these; stop EventSource from reconnecting
+      if (event.type === 'finished' || event.type === 'error') es.close();
+    } catch {
+      // ignore parse errors
+    }
+  };
+  return () => es.close();
+}
+
 export async function retryTestCase(testRunId: string, caseId: string): Promise<TestCaseResult> {
   return request<TestCaseResult>(`/test-runs/${testRunId}/retry/${caseId}`, {
     method: 'POST',
   });
 }
 
-export async function generateOptimization(testRunId: string, agentId: string): Promise<OptimizationRecord> {
+export async function generateOptimization(
+  testRunId: string,
+  agentId: string,
+  strategy?: OptimizationStrategy
+): Promise<OptimizationRecord> {
   return request<OptimizationRecord>('/optimize', {
     method: 'POST',
-    body: JSON.stringify({ testRunId, agentId }),
+    body: JSON.stringify({ testRunId, agentId, strategy }),
   });
 }
 
@@ -223,15 +653,29 @@ export async function applyOptimization(optimizationId: string): Promise<Optimiz
   });
 }
 
+// POST /cycles and /cycles/:id/resume answer 202 with the queued job, not the full record
+export interface CycleStarted {
+  id: string;
+  status: 'running';
+  jobId: string;
+}
+
 export async function startCycle(
   agentId: string,
   testSuiteId: string,
   targetThreshold: number,
-  maxCycles: number
-): Promise<CycleRecord> {
-  return request<CycleRecord>('/cycles', {
+  maxCycles: number,
+  evaluation?: EvaluationConfig,
+  trials?: number,
+  optimization?: OptimizationStrategy,
+  stopPolicy?: CycleStopPolicy,
+  budget?: LLMBudget
+): Promise<CycleStarted> {
+  return request<CycleStarted>('/cycles', {
     method: 'POST',
-    body: JSON.stringify({ agentId, testSuiteId, targetThreshold, maxCycles }),
+    body: JSON.stringify({
+      agentId, testSuiteId, targetThreshold, maxCycles, evaluation, trials, optimization, stopPolicy, budget,
+    }),
   });
 }
 
@@ -239,18 +683,32 @@ export async function fetchCycle(id: string): Promise<CycleRecord> {
   return request<CycleRecord>(`/cycles/${id}`);
 }
 
-export async function cancelCycle(id: string): Promise<CycleRecord> {
-  return request<CycleRecord>(`/cycles/${id}/cancel`, { method: 'POST' });
+export async function cancelCycle(id: string): Promise<Pick<CycleRecord, 'id' | 'status'>> {
+  return request<Pick<CycleRecord, 'id' | 'status'>>(`/cycles/${id}/cancel`, { method: 'POST' });
+}
+
+export async function pauseCycle(id: string): Promise<Pick<CycleRecord, 'id' | 'status'>> {
+  return request<Pick<CycleRecord, 'id' | 'status'>>(`/cycles/${id}/pause`, { method: 'POST' });
 }
 
+export async function resumeCycle(id: string): Promise<CycleStarted> {
+  return request<CycleStarted>(`/cycles/${id}/resume`, { method: 'POST' });
+}
+
+// Replays the cycle's events from the start, then follows it live. EventSource resends
+// Last-Event-ID when it reconnects, and the server answers 204 once a finished cycle has no more.
 export function subscribeCycleEvents(
   cycleId: string,
-  onEvent: (event: { type: string; data: unknown }) => void
+  onEvent: (event: CycleEvent) => void
 ): () => void {
   const es = new EventSource(`${BASE}/cycles/${cycleId}/events`);
+  let lastId = 0;
   es.onmessage = (e) => {
     try {
-      onEvent(JSON.parse(e.data));
+      const event: CycleEvent = JSON.parse(e.data);
+      if (event.id <= lastId) return;
+      lastId = event.id;
+      onEvent(event);
     } catch {
       // ignore parse errors
     }
@@ -261,3 +719,29 @@ export function subscribeCycleEvents(
 export async function fetchComparison(agentId: string): Promise<ComparisonData> {
   return request<ComparisonData>(`/agents/${agentId}/comparison`);
 }
+
+export async function fetchRunComparison(baseRunId: string, targetRunId: string): Promise<RunComparison> {
+  return request<RunComparison>(`/test-runs/${baseRunId}/compare/${targetRunId}`);
+}
+
+export async function labelCriterionResult(criterionResultId: string, passed: boolean, note?: string): Promise<void> {
+  await request(`/calibration/labels/${criterionResultId}`, {
+    method: 'PUT',
+    body: JSON.stringify({ passed, note }),
+  });
+}
+
+export async function clearCriterionLabel(criterionResultId: string): Promise<void> {
+  await request(`/calibration/labels/${criterionResultId}`, { method: 'DELETE' });
+}
+
+export async function startCalibrationRun(agentId: string, evaluation?: EvaluationConfig): Promise<CalibrationRun> {
+  return request<CalibrationRun>('/calibration/runs', {
+    method: 'POST',
+    body: JSON.stringify({ agentId, evaluation }),
+  });
+}
+
+export async function fetchCalibrationRuns(agentId: string): Promise<CalibrationRun[]> {
+  return request<CalibrationRun[]>(`/calibration/runs?agentId=${agentId}`);
+}
@@ -1,5 +1,12 @@
 import { useState, useEffect } from 'react';
-import { fetchComparison, type ComparisonData } from '../api';
+import { fetchComparison, type ComparisonData, type CriterionChange } from '../api';
+
+function describeChange(change: CriterionChange): string {
+  const outcome = change.previousPassed === change.currentPassed
+    ? `score ${change.previousScore} → ${change.currentScore}/${change.maxScore}`
+    : `${change.previousPassed ? 'pass' : 'fail'} → ${change.currentPassed ? 'pass' : 'fail'}`;
+  return `${change.description} (${outcome})`;
+}
 
 interface Props {
   agentId: string;
@@ -41,9 +48,11 @@ export default function BeforeAfterView({ agentId }: Props) {
     );
   }
 
-  const origRate = Math.round(data.originalMetrics.passRate * 100);
-  const currRate = Math.round(data.currentMetrics.passRate * 100);
+  const metrics = data.testRunMetrics;
+  const origRate = Math.round((metrics[0]?.passRate ?? 0) * 100);
+  const currRate = Math.round((metrics[metrics.length - 1]?.passRate ?? 0) * 100);
   const diff = currRate - origRate;
+  const significance = data.significance;
 
   return (
     <div className="card">
@@ -64,6 +73,18 @@ export default function BeforeAfterView({ agentId }: Props) {
           </div>
           <div className="label">Change</div>
         </div>
+        {significance && (
+          <div className="metric-card">
+            <div className="value">
+              <span className={`badge badge-${significance.verdict === 'improved' ? 'pass' : significance.verdict === 'regressed' ? 'fail' : 'running'}`}>
+                {significance.verdict === 'no-significant-change' ? 'not significant' : significance.verdict}
+              </span>
+            </div>
+            <div className="label">
+              p = {significance.pValue.toFixed(3)} over {significance.sharedCriteria} shared criteria
+            </div>
+          </div>
+        )}
       </div>
 
       <div className="diff-container">
@@ -82,7 +103,7 @@ export default function BeforeAfterView({ agentId }: Props) {
           <h3 className="improvement">Improvements</h3>
           <ul>
             {data.improvements.map((item, i) => (
-              <li key={i} className="improvement">{item}</li>
+              <li key={i} className="improvement">{describeChange(item)}</li>
             ))}
           </ul>
         </div>
@@ -93,7 +114,21 @@ export default function BeforeAfterView({ agentId }: Props) {
           <h3 className="regression">Regressions</h3>
           <ul>
             {data.regressions.map((item, i) => (
-              <li key={i} className="regression">{item}</li>
+              <li key={i} className="regression">{describeChange(item)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {data.inconclusive.length > 0 && (
+        <div style={{ marginTop: 12 }}>
+          <h3>Inconclusive Changes</h3>
+          <p style={{ fontSize: '0.85rem', color: '#6b7280' }}>
+            These criteria changed, but the difference between runs is not statistically significant.
+          </p>
+          <ul>
+            {data.inconclusive.map((item, i) => (
+              <li key={i}>{describeChange(item)}</li>
             ))}
           </ul>
         </div>
@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  startCalibrationRun,
+  fetchCalibrationRuns,
+  type CalibrationRun,
+  type AgreementMetrics,
+} from '../api';
+
+interface Props {
+  agentId: string;
+}
+
+function formatRatio(value: number | null): string {
+  return value === null ? '—' : value.toFixed(2);
+}
+
+export default function CalibrationPanel({ agentId }: Props) {
+  const [runs, setRuns] = useState<CalibrationRun[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCalibrationRuns(agentId)
+      .then((data) => { if (!cancelled) setRuns(data); })
+      .catch((err) => { if (!cancelled) setError(err.message); });
+    return () => { cancelled = true; };
+  }, [agentId]);
+
+  const runCalibration = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const run = await startCalibrationRun(agentId);
+      setRuns((prev) => [run, ...prev]);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Calibration run failed');
+    } finally {
+      setLoading(false);
+    }
+  }, [agentId]);
+
+  const latest = runs[0];
+  const rows: [string, AgreementMetrics][] = latest
+    ? [['overall', latest.overall], ...Object.entries(latest.byCategory) as [string, AgreementMetrics][]]
+    : [];
+
+  return (
+    <div className="card">
+      <h2>Judge Calibration</h2>
+      <p style={{ fontSize: '0.85rem', color: '#6b7280' }}>
+        Re-judges every criterion result labelled by QA (Test tab) and reports how often the judge agrees.
+      </p>
+
+      {error && (
+        <div className="error-msg">
+          <span>{error}</span>
+          <button className="btn btn-sm btn-secondary" onClick={() => setError(null)}>Dismiss</button>
+        </div>
+      )}
+
+      <div className="actions" style={{ marginBottom: 12 }}>
+        <button className="btn btn-primary" onClick={runCalibration} disabled={loading}>
+          {loading ? 'Calibrating…' : 'Run Calibration'}
+        </button>
+      </div>
+
+      {latest && (
+        <>
+          <div style={{ fontSize: '0.85rem', marginBottom: 8 }}>
+            {latest.sampleSize} labelled verdict(s), {new Date(latest.createdAt).toLocaleString()}
+          </div>
+          <table className="metrics-table">
+            <thead>
+              <tr>
+                <th>Category</th>
+                <th>Samples</th>
+                <th>Precision</th>
+                <th>Recall</th>
+                <th>Kappa</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(([category, m]) => (
+                <tr key={category}>
+                  <td>{category}</td>
+                  <td>{m.total}</td>
+                  <td>{formatRatio(m.precision)}</td>
+                  <td>{formatRatio(m.recall)}</td>
+                  <td>{formatRatio(m.kappa)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
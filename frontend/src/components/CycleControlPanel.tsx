@@ -3,9 +3,16 @@ import {
   startCycle,
   fetchCycle,
   cancelCycle,
+  pauseCycle,
+  resumeCycle,
   subscribeCycleEvents,
   type CycleRecord,
+  type CycleEvent,
+  type CyclePassRatePoint,
 } from '../api';
+import { buildCandidateStrategy, MAX_CANDIDATES } from '../utils/tournament';
+import { buildStopPolicy, describeStopReason, type StopPolicyInputs } from '../utils/stop-policy';
+import { formatCost, formatTokens, describeUsage, buildBudget } from '../utils/usage';
 
 interface Props {
   agentId: string;
@@ -14,9 +21,11 @@ interface Props {
   onCycle: (id: string | null) => void;
 }
 
-interface CycleEvent {
-  type: string;
-  data: unknown;
+function isOverfitting(curve: CyclePassRatePoint[]): boolean {
+  const first = curve[0];
+  const last = curve[curve.length - 1];
+  if (!first || !last || first.holdoutPassRate === null || last.holdoutPassRate === null) return false;
+  return last.trainPassRate > first.trainPassRate && last.holdoutPassRate < first.holdoutPassRate;
 }
 
 export default function CycleControlPanel({ agentId, testSuiteId, cycleId, onCycle }: Props) {
@@ -25,6 +34,18 @@ export default function CycleControlPanel({ agentId, testSuiteId, cycleId, onCyc
   const [error, setError] = useState<string | null>(null);
   const [threshold, setThreshold] = useState(0.9);
   const [maxCycles, setMaxCycles] = useState(5);
+  const [trials, setTrials] = useState(1);
+  const [candidates, setCandidates] = useState(1);
+  const [stopInputs, setStopInputs] = useState<StopPolicyInputs>({
+    plateauWindow: 0,
+    minImprovement: 0.02,
+    maxLLMCalls: 0,
+    maxSpend: 0,
+    maxMinutes: 0,
+    stopWhenCriticalPassing: false,
+  });
+  const [maxCost, setMaxCost] = useState(0);
+  const [maxTokens, setMaxTokens] = useState(0);
   const [events, setEvents] = useState<CycleEvent[]>([]);
 
   // Load existing cycle
@@ -37,11 +58,11 @@ export default function CycleControlPanel({ agentId, testSuiteId, cycleId, onCyc
     return () => { cancelled = true; };
   }, [cycleId]);
 
-  // Subscribe to SSE events when cycle is running
+  // Subscribe to SSE events when cycle is running; the stream replays earlier events first
   useEffect(() => {
     if (!cycle || cycle.status !== 'running') return;
     const unsub = subscribeCycleEvents(cycle.id, (event) => {
-      setEvents((prev) => [...prev, event]);
+      setEvents((prev) => (prev.some((e) => e.id === event.id) ? prev : [...prev, event].sort((a, b) => a.id - b.id)));
       // Refresh cycle data on progress events
       fetchCycle(cycle.id)
         .then(setCycle)
@@ -55,26 +76,52 @@ export default function CycleControlPanel({ agentId, testSuiteId, cycleId, onCyc
     setError(null);
     setEvents([]);
     try {
-      const result = await startCycle(agentId, testSuiteId, threshold, maxCycles);
-      setCycle(result);
+      const optimization = candidates > 1 ? buildCandidateStrategy(candidates) : undefined;
+      const result = await startCycle(
+        agentId, testSuiteId, threshold, maxCycles, undefined, trials, optimization, buildStopPolicy(stopInputs),
+        buildBudget(maxCost, maxTokens)
+      );
+      setCycle(await fetchCycle(result.id));
       onCycle(result.id);
     } catch (err: unknown) {
       setError(err instanceof Error ? err.message : 'Failed to start cycle');
     } finally {
       setLoading(false);
     }
-  }, [agentId, testSuiteId, threshold, maxCycles, onCycle]);
+  }, [agentId, testSuiteId, threshold, maxCycles, trials, candidates, stopInputs, maxCost, maxTokens, onCycle]);
+
+  const updateStop = (patch: Partial<StopPolicyInputs>) => setStopInputs((prev) => ({ ...prev, ...patch }));
 
   const cancel = useCallback(async () => {
     if (!cycle) return;
     try {
-      const updated = await cancelCycle(cycle.id);
-      setCycle(updated);
+      await cancelCycle(cycle.id);
+      setCycle(await fetchCycle(cycle.id));
     } catch (err: unknown) {
       setError(err instanceof Error ? err.message : 'Failed to cancel');
     }
   }, [cycle]);
 
+  const pause = useCallback(async () => {
+    if (!cycle) return;
+    try {
+      await pauseCycle(cycle.id);
+      setCycle(await fetchCycle(cycle.id));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to pause');
+    }
+  }, [cycle]);
+
+  const resume = useCallback(async () => {
+    if (!cycle) return;
+    try {
+      await resumeCycle(cycle.id);
+      setCycle(await fetchCycle(cycle.id));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to resume');
+    }
+  }, [cycle]);
+
   return (
     <div className="card">
       <h2>Auto-Optimization Cycle</h2>
@@ -112,6 +159,123 @@ export default function CycleControlPanel({ agentId, testSuiteId, cycleId, onCyc
                 onChange={(e) => setMaxCycles(Number(e.target.value))}
               />
             </div>
+            <div className="form-group" style={{ flex: 1 }}>
+              <label htmlFor="cycleTrials">Trials per Case</label>
+              <input
+                id="cycleTrials"
+                type="number"
+                min={1}
+                max={10}
+                value={trials}
+                onChange={(e) => setTrials(Number(e.target.value))}
+              />
+            </div>
+            <div className="form-group" style={{ flex: 1 }}>
+              <label htmlFor="cycleCandidates">Candidates per Cycle</label>
+              <input
+                id="cycleCandidates"
+                type="number"
+                min={1}
+                max={MAX_CANDIDATES}
+                value={candidates}
+                onChange={(e) => setCandidates(Number(e.target.value))}
+              />
+            </div>
+          </div>
+          <h3>Stop Early</h3>
+          <div style={{ display: 'flex', gap: 16, marginBottom: 12 }}>
+            <div className="form-group" style={{ flex: 1 }}>
+              <label htmlFor="plateauWindow">Plateau Window (0 = off)</label>
+              <input
+                id="plateauWindow"
+                type="number"
+                min={0}
+                max={10}
+                value={stopInputs.plateauWindow}
+                onChange={(e) => updateStop({ plateauWindow: Number(e.target.value) })}
+              />
+            </div>
+            <div className="form-group" style={{ flex: 1 }}>
+              <label htmlFor="minImprovement">Min Improvement</label>
+              <input
+                id="minImprovement"
+                type="number"
+                min={0.01}
+                max={1}
+                step={0.01}
+                value={stopInputs.minImprovement}
+                disabled={stopInputs.plateauWindow === 0}
+                onChange={(e) => updateStop({ minImprovement: Number(e.target.value) })}
+              />
+            </div>
+            <div className="form-group" style={{ flex: 1 }}>
+              <label htmlFor="maxLLMCalls">Max LLM Calls (0 = no limit)</label>
+              <input
+                id="maxLLMCalls"
+                title="Checked between steps, so the step under way can overshoot it"
+                type="number"
+                min={0}
+                value={stopInputs.maxLLMCalls}
+                onChange={(e) => updateStop({ maxLLMCalls: Number(e.target.value) })}
+              />
+            </div>
+            <div className="form-group" style={{ flex: 1 }}>
+              <label htmlFor="maxSpend">Spend Budget, USD (0 = no limit)</label>
+              <input
+                id="maxSpend"
+                title="Checked between steps, so the step under way can overshoot it"
+                type="number"
+                min={0}
+                step={0.01}
+                value={stopInputs.maxSpend}
+                onChange={(e) => updateStop({ maxSpend: Number(e.target.value) })}
+              />
+            </div>
+            <div className="form-group" style={{ flex: 1 }}>
+              <label htmlFor="maxMinutes">Time Limit, min (0 = none)</label>
+              <input
+                id="maxMinutes"
+                type="number"
+                min={0}
+                value={stopInputs.maxMinutes}
+                onChange={(e) => updateStop({ maxMinutes: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+          <div className="form-group">
+            <label>
+              <input
+                type="checkbox"
+                checked={stopInputs.stopWhenCriticalPassing}
+                onChange={(e) => updateStop({ stopWhenCriticalPassing: e.target.checked })}
+              />{' '}
+              Stop once every critical criterion passes
+            </label>
+          </div>
+          <h3>Spend Cap</h3>
+          <div style={{ display: 'flex', gap: 16, marginBottom: 12 }}>
+            <div className="form-group" style={{ flex: 1 }}>
+              <label htmlFor="maxCost">Max Cost, USD (0 = no cap)</label>
+              <input
+                id="maxCost"
+                type="number"
+                min={0}
+                step={0.5}
+                value={maxCost}
+                onChange={(e) => setMaxCost(Number(e.target.value))}
+              />
+            </div>
+            <div className="form-group" style={{ flex: 1 }}>
+              <label htmlFor="maxTokens">Max Tokens (0 = no cap)</label>
+              <input
+                id="maxTokens"
+                type="number"
+                min={0}
+                step={1000}
+                value={maxTokens}
+                onChange={(e) => setMaxTokens(Number(e.target.value))}
+              />
+            </div>
           </div>
           <button className="btn btn-primary" onClick={start} disabled={loading}>
             Start Auto-Cycle
@@ -140,8 +304,16 @@ export default function CycleControlPanel({ agentId, testSuiteId, cycleId, onCyc
               <div className="value">
                 <span className={`badge badge-${cycle.status}`}>{cycle.status}</span>
               </div>
-              <div className="label">Status</div>
+              <div className="label">
+                {cycle.stopReason ? describeStopReason(cycle.stopReason) : 'Status'}
+              </div>
             </div>
+            {cycle.usage && cycle.usage.calls > 0 && (
+              <div className="metric-card" title={describeUsage(cycle.usage)}>
+                <div className="value">{formatCost(cycle.usage.cost)}</div>
+                <div className="label">LLM Cost ({formatTokens(cycle.usage.promptTokens + cycle.usage.completionTokens)} tokens)</div>
+              </div>
+            )}
           </div>
 
           <div className="progress-bar">
@@ -154,12 +326,52 @@ export default function CycleControlPanel({ agentId, testSuiteId, cycleId, onCyc
             {cycle.cycleCount} / {cycle.maxCycles} cycles — Target: {Math.round(cycle.targetThreshold * 100)}%
           </div>
 
+          {cycle.passRateCurve?.length > 0 && (
+            <div style={{ marginBottom: 12 }}>
+              <h3>Pass Rate by Cycle</h3>
+              <table className="metrics-table">
+                <thead>
+                  <tr>
+                    <th>Cycle</th>
+                    <th>Train</th>
+                    <th>Holdout</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {cycle.passRateCurve.map((point) => (
+                    <tr key={point.cycleNumber}>
+                      <td>{point.cycleNumber}</td>
+                      <td>{Math.round(point.trainPassRate * 100)}%</td>
+                      <td>{point.holdoutPassRate === null ? '—' : `${Math.round(point.holdoutPassRate * 100)}%`}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {isOverfitting(cycle.passRateCurve) && (
+                <p className="regression" style={{ fontSize: '0.85rem', marginTop: 6 }}>
+                  Training pass rate rose while holdout fell — the prompt may be overfitting the training cases.
+                </p>
+              )}
+            </div>
+          )}
+
           {cycle.status === 'running' && (
             <div className="actions">
+              <button className="btn btn-secondary" onClick={pause}>Pause</button>
               <button className="btn btn-danger" onClick={cancel}>Cancel</button>
             </div>
           )}
 
+          {cycle.status === 'paused' && (
+            <div>
+              {cycle.outcome && <p style={{ fontSize: '0.85rem', marginBottom: 8 }}>{cycle.outcome}.</p>}
+              <div className="actions">
+                <button className="btn btn-primary" onClick={resume} disabled={cycle.config === null}>Resume</button>
+                <button className="btn btn-danger" onClick={cancel}>Cancel</button>
+              </div>
+            </div>
+          )}
+
           {(cycle.status === 'completed' || cycle.status === 'cancelled') && (
             <div>
               <h3>Summary</h3>
@@ -168,6 +380,16 @@ export default function CycleControlPanel({ agentId, testSuiteId, cycleId, onCyc
                 {Math.round(cycle.endingPassRate * 100)}% after {cycle.cycleCount} cycle
                 {cycle.cycleCount !== 1 ? 's' : ''}.
               </p>
+              {cycle.outcome && <p style={{ fontSize: '0.85rem', marginTop: 4 }}>{cycle.outcome}.</p>}
+              {cycle.rollbacks?.length > 0 && (
+                <ul style={{ fontSize: '0.85rem', marginTop: 4 }}>
+                  {cycle.rollbacks.map((rb) => (
+                    <li key={rb.optimizationId} className="regression">
+                      Cycle {rb.cycleNumber}: reverted — {rb.reason}
+                    </li>
+                  ))}
+                </ul>
+              )}
               <div className="actions">
                 <button className="btn btn-primary" onClick={() => { setCycle(null); onCycle(null); setEvents([]); }}>
                   Start New Cycle
@@ -180,10 +402,14 @@ export default function CycleControlPanel({ agentId, testSuiteId, cycleId, onCyc
             <div style={{ marginTop: 12 }}>
               <h3>Events</h3>
               <ul className="trend-list">
-                {events.slice(-10).map((ev, i) => (
-                  <li key={i}>
+                {events.slice(-10).map((ev) => (
+                  <li key={ev.id}>
                     <span className="badge badge-running">{ev.type}</span>
-                    <span style={{ fontSize: '0.8rem' }}>{JSON.stringify(ev.data)}</span>
+                    <span style={{ fontSize: '0.8rem' }}>
+                      {ev.cycleNumber !== undefined && `Cycle ${ev.cycleNumber} `}
+                      {ev.passRate !== undefined && `${Math.round(ev.passRate * 100)}% `}
+                      {ev.message}
+                    </span>
                   </li>
                 ))}
               </ul>
@@ -4,6 +4,7 @@ import {
   applyOptimization,
   type OptimizationRecord,
 } from '../api';
+import { buildCandidateStrategy, describeCandidate, MAX_CANDIDATES } from '../utils/tournament';
 
 interface Props {
   testRunId: string;
@@ -18,12 +19,14 @@ export default function PromptDiffView({ testRunId, agentId, optimizationId: _op
   const [error, setError] = useState<string | null>(null);
   const [editing, setEditing] = useState(false);
   const [editedPrompt, setEditedPrompt] = useState('');
+  const [candidateCount, setCandidateCount] = useState(1);
 
   const optimize = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      const result = await generateOptimization(testRunId, agentId);
+      const strategy = candidateCount > 1 ? buildCandidateStrategy(candidateCount) : undefined;
+      const result = await generateOptimization(testRunId, agentId, strategy);
       setRecord(result);
       onOptimization(result.id);
     } catch (err: unknown) {
@@ -31,7 +34,7 @@ export default function PromptDiffView({ testRunId, agentId, optimizationId: _op
     } finally {
       setLoading(false);
     }
-  }, [testRunId, agentId, onOptimization]);
+  }, [testRunId, agentId, candidateCount, onOptimization]);
 
   const accept = useCallback(async () => {
     if (!record) return;
@@ -74,12 +77,28 @@ export default function PromptDiffView({ testRunId, agentId, optimizationId: _op
       )}
 
       {!record && !loading && (
-        <button className="btn btn-primary" onClick={optimize}>
-          Generate Optimized Prompt
-        </button>
+        <div className="actions" style={{ alignItems: 'center' }}>
+          <button className="btn btn-primary" onClick={optimize}>
+            Generate Optimized Prompt
+          </button>
+          <label htmlFor="candidateCount" style={{ fontSize: '0.85rem' }}>Candidates</label>
+          <input
+            id="candidateCount"
+            type="number"
+            min={1}
+            max={MAX_CANDIDATES}
+            value={candidateCount}
+            onChange={(e) => setCandidateCount(Number(e.target.value))}
+            style={{ width: 60 }}
+          />
+        </div>
       )}
 
-      {loading && <div className="loading">Optimizing prompt…</div>}
+      {loading && (
+        <div className="loading">
+          {candidateCount > 1 ? `Generating and scoring ${candidateCount} candidates…` : 'Optimizing prompt…'}
+        </div>
+      )}
 
       {record && (
         <div>
@@ -102,6 +121,32 @@ export default function PromptDiffView({ testRunId, agentId, optimizationId: _op
             </div>
           )}
 
+          {record.candidates && record.candidates.length > 1 && (
+            <div style={{ marginBottom: 12 }}>
+              <h3>Tournament</h3>
+              <table className="metrics-table">
+                <thead>
+                  <tr>
+                    <th>Candidate</th>
+                    <th>Pass Rate</th>
+                    <th>Critical Failures</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {record.candidates.map((c) => (
+                    <tr key={c.id}>
+                      <td>{describeCandidate(c.candidate)}</td>
+                      <td>{c.score !== undefined ? `${Math.round(c.score * 100)}%` : '—'}</td>
+                      <td>{c.criticalFailures ?? '—'}</td>
+                      <td>{c.id === record.id ? 'winner' : c.status}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
           <div className="diff-container">
             <div className="diff-pane">
               <h4>Original</h4>
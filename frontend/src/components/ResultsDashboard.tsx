@@ -1,5 +1,8 @@
 import { useState, useEffect } from 'react';
 import { fetchTestRun, fetchComparison, type TestRun, type ComparisonData } from '../api';
+import { isLowAgreement, describeVotes } from '../utils/consensus';
+import { findTrialStats, formatPassRateInterval } from '../utils/trials';
+import { formatCost, formatTokens, describeUsage } from '../utils/usage';
 
 interface Props {
   agentId: string;
@@ -55,8 +58,23 @@ export default function ResultsDashboard({ agentId, testRunId }: Props) {
           <div className="metrics-row">
             <div className="metric-card">
               <div className="value">{Math.round(run.overallPassRate * 100)}%</div>
-              <div className="label">Overall Pass Rate</div>
+              <div className="label">
+                Overall Pass Rate
+                {formatPassRateInterval(run) && <> ({formatPassRateInterval(run)})</>}
+              </div>
             </div>
+            {run.overallScore != null && (
+              <div className="metric-card">
+                <div className="value">{Math.round(run.overallScore * 100)}%</div>
+                <div className="label">Overall Score</div>
+              </div>
+            )}
+            {!!run.criticalFailures && (
+              <div className="metric-card">
+                <div className="value"><span className="badge badge-critical">FAILING</span></div>
+                <div className="label">{run.criticalFailures} critical failure(s)</div>
+              </div>
+            )}
             <div className="metric-card">
               <div className="value">{run.results.length}</div>
               <div className="label">Test Cases</div>
@@ -67,17 +85,51 @@ export default function ResultsDashboard({ agentId, testRunId }: Props) {
               </div>
               <div className="label">Total Criteria</div>
             </div>
+            {!!run.flakyCriteria && (
+              <div className="metric-card">
+                <div className="value">{run.flakyCriteria}</div>
+                <div className="label">Flaky Criteria ({run.trials} trials)</div>
+              </div>
+            )}
+            {run.results.some((r) => r.criterionResults.some((cr) => cr.judgeVotes)) && (
+              <div className="metric-card">
+                <div className="value">
+                  {run.results.flatMap((r) => r.criterionResults).filter(isLowAgreement).length}
+                </div>
+                <div className="label">Low-Agreement Verdicts</div>
+              </div>
+            )}
+            {run.usage && run.usage.calls > 0 && (
+              <div className="metric-card" title={describeUsage(run.usage)}>
+                <div className="value">{formatCost(run.usage.cost)}</div>
+                <div className="label">LLM Cost ({formatTokens(run.usage.promptTokens + run.usage.completionTokens)} tokens)</div>
+              </div>
+            )}
           </div>
 
           <h3>Per-Criterion Breakdown</h3>
           <ul className="item-list">
             {run.results.flatMap((r) =>
               r.criterionResults.map((cr) => (
-                <li key={`${r.testCaseId}-${cr.criterionId}`}>
+                <li key={`${r.testCaseId}-${r.trial ?? 1}-${cr.criterionId}`}>
                   <span className={`badge badge-${cr.passed ? 'pass' : 'fail'}`}>
                     {cr.passed ? 'PASS' : 'FAIL'}
                   </span>
                   <span style={{ flex: 1, marginLeft: 8 }}>
+                    {cr.severity === 'critical' && <span className="badge badge-critical">critical</span>}{' '}
+                    {cr.turn !== undefined && <span className="badge badge-turn">turn {cr.turn}</span>}{' '}
+                    {findTrialStats(run, r.testCaseId, cr.criterionId)?.flaky && (
+                      <span className="badge badge-flaky">
+                        flaky {findTrialStats(run, r.testCaseId, cr.criterionId)?.passes}/
+                        {findTrialStats(run, r.testCaseId, cr.criterionId)?.trials}
+                      </span>
+                    )}{' '}
+                    {isLowAgreement(cr) && (
+                      <span className="badge badge-split" title={describeVotes(cr)}>
+                        judges split {Math.round((cr.agreement ?? 0) * 100)}%
+                      </span>
+                    )}{' '}
+                    {cr.score !== undefined && <span className="badge badge-score">{cr.score}/{cr.maxScore}</span>}{' '}
                     {cr.criterionId.slice(0, 8)}
                     {!cr.passed && <span style={{ color: '#991b1b', fontSize: '0.8rem' }}> — {cr.explanation}</span>}
                   </span>
@@ -88,14 +140,14 @@ export default function ResultsDashboard({ agentId, testRunId }: Props) {
         </>
       )}
 
-      {comparison && comparison.runs.length > 1 && (
+      {comparison && comparison.testRunMetrics.length > 1 && (
         <div style={{ marginTop: 16 }}>
           <h3>Trend Across Runs</h3>
           <ul className="trend-list">
-            {comparison.runs.map((r, i) => (
-              <li key={r.id}>
+            {comparison.testRunMetrics.map((r, i) => (
+              <li key={r.testRunId}>
                 <span>Run {i + 1}</span>
-                <span>{Math.round(r.overallPassRate * 100)}%</span>
+                <span>{Math.round(r.passRate * 100)}%</span>
                 <span style={{ fontSize: '0.8rem', color: '#6b7280' }}>
                   {r.completedAt ? new Date(r.completedAt).toLocaleDateString() : '—'}
                 </span>
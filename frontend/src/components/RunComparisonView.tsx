@@ -0,0 +1,180 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  fetchComparison,
+  fetchRunComparison,
+  type RunComparison,
+  type TestRunMetric,
+  type CriterionTransition,
+  type DiffChange,
+  type AgentResponse,
+} from '../api';
+
+interface Props {
+  agentId: string;
+}
+
+const TRANSITION_BADGE: Record<CriterionTransition, string> = {
+  'fixed': 'pass',
+  'broke': 'fail',
+  'still-passing': 'completed',
+  'still-failing': 'error',
+  'added': 'running',
+  'removed': 'cancelled',
+};
+
+function describeRun(metric: TestRunMetric, index: number): string {
+  return `#${index + 1} · ${Math.round(metric.passRate * 100)}% · ${new Date(metric.completedAt).toLocaleString()}`;
+}
+
+function DiffLines({ changes }: { changes: DiffChange[] }) {
+  return (
+    <div className="diff-pane">
+      {changes.map((ch, i) => (
+        <div key={i} className={`diff-line diff-${ch.type}`}>
+          {ch.type === 'added' ? '+ ' : ch.type === 'removed' ? '- ' : '  '}{ch.content}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TurnPane({ response }: { response?: AgentResponse }) {
+  if (!response) return <div className="diff-pane"><em>No turn</em></div>;
+  return (
+    <div className="diff-pane">
+      {response.userUtterance && <div><strong>User:</strong> {response.userUtterance}</div>}
+      <div><strong>Agent:</strong> {response.utterance}</div>
+    </div>
+  );
+}
+
+export default function RunComparisonView({ agentId }: Props) {
+  const [runs, setRuns] = useState<TestRunMetric[]>([]);
+  const [baseRunId, setBaseRunId] = useState('');
+  const [targetRunId, setTargetRunId] = useState('');
+  const [data, setData] = useState<RunComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setData(null);
+    fetchComparison(agentId)
+      .then((d) => {
+        if (cancelled) return;
+        const metrics = d.testRunMetrics;
+        setRuns(metrics);
+        setBaseRunId(metrics[0]?.testRunId ?? '');
+        setTargetRunId(metrics[metrics.length - 1]?.testRunId ?? '');
+      })
+      .catch((err) => { if (!cancelled) setError(err.message); });
+    return () => { cancelled = true; };
+  }, [agentId]);
+
+  const compare = useCallback(async () => {
+    if (!baseRunId || !targetRunId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setData(await fetchRunComparison(baseRunId, targetRunId));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Comparison failed');
+    } finally {
+      setLoading(false);
+    }
+  }, [baseRunId, targetRunId]);
+
+  if (runs.length < 2) {
+    return (
+      <div className="card">
+        <h2>Run Comparison</h2>
+        {error ? <div className="error-msg"><span>{error}</span></div> : <p>At least two completed runs are needed.</p>}
+      </div>
+    );
+  }
+
+  const delta = data ? Math.round(data.passRateDelta * 100) : 0;
+
+  return (
+    <div className="card">
+      <h2>Run Comparison</h2>
+
+      {error && (
+        <div className="error-msg">
+          <span>{error}</span>
+          <button className="btn btn-sm btn-secondary" onClick={compare}>Retry</button>
+        </div>
+      )}
+
+      <div className="diff-container">
+        <div className="form-group">
+          <label htmlFor="compare-base">Base run</label>
+          <select id="compare-base" value={baseRunId} onChange={(e) => setBaseRunId(e.target.value)}>
+            {runs.map((r, i) => <option key={r.testRunId} value={r.testRunId}>{describeRun(r, i)}</option>)}
+          </select>
+        </div>
+        <div className="form-group">
+          <label htmlFor="compare-target">Target run</label>
+          <select id="compare-target" value={targetRunId} onChange={(e) => setTargetRunId(e.target.value)}>
+            {runs.map((r, i) => <option key={r.testRunId} value={r.testRunId}>{describeRun(r, i)}</option>)}
+          </select>
+        </div>
+      </div>
+      <button className="btn btn-primary" onClick={compare} disabled={loading || baseRunId === targetRunId}>
+        {loading ? 'Comparing…' : 'Compare'}
+      </button>
+
+      {data && (
+        <div style={{ marginTop: 16 }}>
+          <div className="metrics-row">
+            <div className="metric-card">
+              <div className="value">{Math.round(data.basePassRate * 100)}%</div>
+              <div className="label">Base Pass Rate</div>
+            </div>
+            <div className="metric-card">
+              <div className="value">{Math.round(data.targetPassRate * 100)}%</div>
+              <div className="label">Target Pass Rate</div>
+            </div>
+            <div className="metric-card">
+              <div className={`value ${delta > 0 ? 'improvement' : delta < 0 ? 'regression' : ''}`}>
+                {delta > 0 ? '+' : ''}{delta}%
+              </div>
+              <div className="label">
+                {data.significance.verdict === 'no-significant-change' ? 'not significant' : data.significance.verdict}
+                {' '}(p = {data.significance.pValue.toFixed(3)})
+              </div>
+            </div>
+          </div>
+
+          <h3>Prompt Diff</h3>
+          {data.promptDiff.length > 0 ? <DiffLines changes={data.promptDiff} /> : <p>Both runs used the same prompt.</p>}
+
+          {data.cases.map((c) => (
+            <div key={c.testCaseId} style={{ marginTop: 16 }}>
+              <h3>{c.scenarioDescription || c.testCaseId}</h3>
+              <ul className="item-list">
+                {c.criteria.map((cr) => (
+                  <li key={cr.criterionId}>
+                    <span>{cr.description}</span>
+                    <span className={`badge badge-${TRANSITION_BADGE[cr.transition]}`}>{cr.transition}</span>
+                  </li>
+                ))}
+              </ul>
+              {c.turns.map((t) => (
+                <div key={t.turn} style={{ marginTop: 8 }}>
+                  <div style={{ fontSize: '0.8rem', color: '#6b7280', marginBottom: 4 }}>
+                    Turn {t.turn}{t.changed ? ' · changed' : ''}
+                  </div>
+                  <div className="diff-container">
+                    <TurnPane response={t.base} />
+                    <TurnPane response={t.target} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
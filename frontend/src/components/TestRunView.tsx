@@ -1,11 +1,20 @@
-import { useState, useCallback } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import {
   startTestRun,
   fetchTestRun,
+  cancelJob,
+  subscribeTestRunEvents,
   retryTestCase,
+  labelCriterionResult,
+  clearCriterionLabel,
   type TestRun,
+  type Job,
   type TestCaseResult,
+  type CriterionResult,
 } from '../api';
+import { isLowAgreement, describeVotes } from '../utils/consensus';
+import { findTrialStats, formatPassRateInterval } from '../utils/trials';
+import { applyTestRunEvent, EMPTY_LIVE_RUN, type LiveTestRun } from '../utils/test-run-events';
 
 interface Props {
   testSuiteId: string;
@@ -18,20 +27,42 @@ export default function TestRunView({ testSuiteId, agentId, testRunId, onTestRun
   const [run, setRun] = useState<TestRun | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [trials, setTrials] = useState(1);
+  const [bypassCache, setBypassCache] = useState(false);
+  const [job, setJob] = useState<Job | null>(null);
+  const [live, setLive] = useState<LiveTestRun>(EMPTY_LIVE_RUN);
+
+  // Stream cases into view once the queued job has created its run
+  const liveRunId = loading ? job?.resourceId ?? null : null;
+  useEffect(() => {
+    if (!liveRunId) return;
+    return subscribeTestRunEvents(liveRunId, (event) => setLive((prev) => applyTestRunEvent(prev, event)));
+  }, [liveRunId]);
 
   const executeRun = useCallback(async () => {
     setLoading(true);
     setError(null);
+    setLive(EMPTY_LIVE_RUN);
     try {
-      const result = await startTestRun(testSuiteId, agentId);
+      const result = await startTestRun(testSuiteId, agentId, undefined, trials, bypassCache, setJob);
       setRun(result);
       onTestRun(result.id);
     } catch (err: unknown) {
       setError(err instanceof Error ? err.message : 'Test run failed');
     } finally {
       setLoading(false);
+      setJob(null);
     }
-  }, [testSuiteId, agentId, onTestRun]);
+  }, [testSuiteId, agentId, trials, bypassCache, onTestRun]);
+
+  const cancelRun = useCallback(async () => {
+    if (!job) return;
+    try {
+      await cancelJob(job.id);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel');
+    }
+  }, [job]);
 
   const loadRun = useCallback(async () => {
     if (!testRunId) return;
@@ -64,6 +95,29 @@ export default function TestRunView({ testSuiteId, agentId, testRunId, onTestRun
     }
   }, [run]);
 
+  // Record a QA reviewer's verdict (null clears it) as gold data for judge calibration
+  const handleLabel = useCallback(async (cr: CriterionResult, label: boolean | null) => {
+    if (!cr.id) return;
+    try {
+      if (label === null) await clearCriterionLabel(cr.id);
+      else await labelCriterionResult(cr.id, label);
+      setRun((prev) => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          results: prev.results.map((r: TestCaseResult) => ({
+            ...r,
+            criterionResults: r.criterionResults.map((c) =>
+              c.id === cr.id ? { ...c, humanLabel: label ?? undefined } : c
+            ),
+          })),
+        };
+      });
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Labelling failed');
+    }
+  }, []);
+
   return (
     <div className="card">
       <h2>Test Run</h2>
@@ -75,7 +129,21 @@ export default function TestRunView({ testSuiteId, agentId, testRunId, onTestRun
         </div>
       )}
 
-      <div className="actions" style={{ marginBottom: 12 }}>
+      <div className="actions" style={{ marginBottom: 12, alignItems: 'center' }}>
+        <label htmlFor="trials" style={{ fontSize: '0.85rem' }}>Trials</label>
+        <input
+          id="trials"
+          type="number"
+          min={1}
+          max={10}
+          value={trials}
+          onChange={(e) => setTrials(Number(e.target.value))}
+          style={{ width: 60 }}
+        />
+        <label style={{ fontSize: '0.85rem' }} title="Re-judge every transcript instead of reusing cached verdicts">
+          <input type="checkbox" checked={bypassCache} onChange={(e) => setBypassCache(e.target.checked)} />{' '}
+          Fresh judgements
+        </label>
         <button className="btn btn-primary" onClick={executeRun} disabled={loading}>
           {run ? 'Run Again' : 'Start Test Run'}
         </button>
@@ -86,18 +154,77 @@ export default function TestRunView({ testSuiteId, agentId, testRunId, onTestRun
         )}
       </div>
 
-      {loading && <div className="loading">Running tests…</div>}
+      {loading && (
+        <div className="loading">
+          {job?.status === 'queued' && 'Waiting for a free worker…'}
+          {job?.status === 'running' && !live.totals && `Running tests… ${job.progress.completed} / ${job.progress.total} cases`}
+          {job?.status === 'running' && live.totals && (
+            `Running tests… ${live.totals.completedCases} / ${live.totals.totalCases} cases, ` +
+            `${live.totals.passedCriteria} / ${live.totals.evaluatedCriteria} criteria passed ` +
+            `(${Math.round(live.totals.passRate * 100)}% so far)`
+          )}
+          {!job && 'Starting test run…'}
+          {job && (
+            <button className="btn btn-sm btn-secondary" onClick={cancelRun} style={{ marginLeft: 8 }}>
+              Cancel
+            </button>
+          )}
+        </div>
+      )}
+
+      {loading && live.cases.length > 0 && (
+        <ul className="item-list">
+          {live.cases.map((c) => (
+            <li key={`${c.testCaseId}-${c.trial ?? 1}`}>
+              <span className={`badge badge-${c.status === 'completed' ? 'completed' : c.status === 'error' ? 'error' : 'running'}`}>
+                {c.status}
+              </span>
+              <span style={{ flex: 1, marginLeft: 8 }}>
+                Case: {c.testCaseId.slice(0, 8)}
+                {c.trial && c.trial > 1 && <> (trial {c.trial})</>}
+                {' · '}{c.agentResponses.length} turn(s){' '}
+                {c.criterionResults.map((cr) => (
+                  <span key={cr.criterionId} className={`badge badge-${cr.passed ? 'pass' : 'fail'}`} title={cr.explanation}>
+                    {cr.passed ? 'PASS' : 'FAIL'}
+                  </span>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
 
       {run && (
         <div>
           <div className="metrics-row">
             <div className="metric-card">
               <div className="value">{Math.round(run.overallPassRate * 100)}%</div>
-              <div className="label">Pass Rate</div>
+              <div className="label">
+                Pass Rate
+                {formatPassRateInterval(run) && <> ({formatPassRateInterval(run)})</>}
+              </div>
             </div>
+            {run.overallScore != null && (
+              <div className="metric-card">
+                <div className="value">{Math.round(run.overallScore * 100)}%</div>
+                <div className="label">Score</div>
+              </div>
+            )}
+            {!!run.criticalFailures && (
+              <div className="metric-card">
+                <div className="value"><span className="badge badge-critical">FAILING</span></div>
+                <div className="label">{run.criticalFailures} critical failure(s)</div>
+              </div>
+            )}
+            {!!run.flakyCriteria && (
+              <div className="metric-card">
+                <div className="value">{run.flakyCriteria}</div>
+                <div className="label">Flaky Criteria ({run.trials} trials)</div>
+              </div>
+            )}
             <div className="metric-card">
               <div className="value">{run.results.length}</div>
-              <div className="label">Test Cases</div>
+              <div className="label">{run.trials && run.trials > 1 ? 'Case Trials' : 'Test Cases'}</div>
             </div>
             <div className="metric-card">
               <div className="value">
@@ -110,12 +237,18 @@ export default function TestRunView({ testSuiteId, agentId, testRunId, onTestRun
           </div>
 
           {run.results.map((result: TestCaseResult) => (
-            <div key={result.testCaseId} style={{ marginBottom: 16, paddingBottom: 12, borderBottom: '1px solid #e2e4e9' }}>
+            <div key={`${result.testCaseId}-${result.trial ?? 1}`} style={{ marginBottom: 16, paddingBottom: 12, borderBottom: '1px solid #e2e4e9' }}>
               <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 6 }}>
                 <span className={`badge badge-${result.status === 'error' ? 'error' : 'completed'}`}>
                   {result.status}
                 </span>
                 <strong>Case: {result.testCaseId.slice(0, 8)}</strong>
+                {run.trials && run.trials > 1 && <span className="badge badge-turn">trial {result.trial}</span>}
+                {result.callerOutcome && (
+                  <span className={`badge badge-${result.callerOutcome === 'goal-reached' ? 'pass' : 'fail'}`}>
+                    caller: {result.callerOutcome}
+                  </span>
+                )}
                 {result.status === 'error' && (
                   <button className="btn btn-sm btn-secondary" onClick={() => handleRetry(result.testCaseId)}>
                     Retry
@@ -134,6 +267,9 @@ export default function TestRunView({ testSuiteId, agentId, testRunId, onTestRun
                   <strong style={{ fontSize: '0.85rem' }}>Agent Responses:</strong>
                   {result.agentResponses.map((resp, i) => (
                     <div key={i} style={{ marginLeft: 12, fontSize: '0.85rem', color: '#374151' }}>
+                      {resp.userUtterance && (
+                        <div style={{ color: '#6b7280' }}>Caller: {resp.userUtterance}</div>
+                      )}
                       Turn {resp.turn}: {resp.utterance}
                     </div>
                   ))}
@@ -149,6 +285,17 @@ export default function TestRunView({ testSuiteId, agentId, testRunId, onTestRun
                         {cr.passed ? 'PASS' : 'FAIL'}
                       </span>
                       <span style={{ flex: 1, marginLeft: 8 }}>
+                        {cr.severity === 'critical' && <span className="badge badge-critical">critical</span>}{' '}
+                        {cr.turn !== undefined && <span className="badge badge-turn">turn {cr.turn}</span>}{' '}
+                        {findTrialStats(run, result.testCaseId, cr.criterionId)?.flaky && (
+                          <span className="badge badge-flaky">flaky</span>
+                        )}{' '}
+                        {isLowAgreement(cr) && (
+                          <span className="badge badge-split" title={describeVotes(cr)}>
+                            judges split {Math.round((cr.agreement ?? 0) * 100)}%
+                          </span>
+                        )}{' '}
+                        {cr.score !== undefined && <span className="badge badge-score">{cr.score}/{cr.maxScore}</span>}{' '}
                         {cr.criterionId.slice(0, 8)}
                         {!cr.passed && cr.explanation && (
                           <div style={{ fontSize: '0.8rem', color: '#991b1b', marginTop: 2 }}>
@@ -156,6 +303,24 @@ export default function TestRunView({ testSuiteId, agentId, testRunId, onTestRun
                           </div>
                         )}
                       </span>
+                      {cr.id && (
+                        <span className="actions" style={{ marginTop: 0 }}>
+                          {cr.humanLabel !== undefined && (
+                            <span className={`badge badge-${cr.humanLabel === cr.passed ? 'pass' : 'fail'}`}>
+                              QA: {cr.humanLabel ? 'pass' : 'fail'}
+                            </span>
+                          )}
+                          {cr.humanLabel !== true && (
+                            <button className="btn btn-sm btn-secondary" onClick={() => handleLabel(cr, true)}>QA pass</button>
+                          )}
+                          {cr.humanLabel !== false && (
+                            <button className="btn btn-sm btn-secondary" onClick={() => handleLabel(cr, false)}>QA fail</button>
+                          )}
+                          {cr.humanLabel !== undefined && (
+                            <button className="btn btn-sm btn-secondary" onClick={() => handleLabel(cr, null)}>Clear</button>
+                          )}
+                        </span>
+                      )}
                     </li>
                   ))}
                 </ul>
@@ -3,10 +3,12 @@ import {
   createTestSuite,
   fetchTestSuite,
   updateTestSuite,
+  splitTestSuite,
   type TestSuite,
   type TestCase,
   type SuccessCriterion,
 } from '../api';
+import { describeTurnSelector } from '../utils/turn-selector';
 
 interface Props {
   agentId: string;
@@ -23,6 +25,7 @@ export default function TestSuiteEditor({ agentId, analysisId, testSuiteId, onSu
   const [editDesc, setEditDesc] = useState('');
   const [editingCriterion, setEditingCriterion] = useState<string | null>(null);
   const [editCritDesc, setEditCritDesc] = useState('');
+  const [holdoutFraction, setHoldoutFraction] = useState(0.3);
 
   useEffect(() => {
     if (!testSuiteId) return;
@@ -59,6 +62,15 @@ export default function TestSuiteEditor({ agentId, analysisId, testSuiteId, onSu
     }
   }, [suite]);
 
+  const partition = useCallback(async () => {
+    if (!suite) return;
+    try {
+      setSuite(await splitTestSuite(suite.id, holdoutFraction));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to split');
+    }
+  }, [suite, holdoutFraction]);
+
   const removeCase = useCallback((caseId: string) => {
     if (!suite) return;
     saveSuite(suite.testCases.filter((tc) => tc.id !== caseId));
@@ -96,6 +108,8 @@ export default function TestSuiteEditor({ agentId, analysisId, testSuiteId, onSu
     setEditingCriterion(null);
   }, [suite, editCritDesc, saveSuite]);
 
+  const holdoutCount = suite?.testCases.filter((tc) => tc.split === 'holdout').length ?? 0;
+
   return (
     <div className="card">
       <h2>Test Suite</h2>
@@ -113,6 +127,7 @@ export default function TestSuiteEditor({ agentId, analysisId, testSuiteId, onSu
         <div>
           <p style={{ marginBottom: 12 }}>
             {suite.testCases.length} test case{suite.testCases.length !== 1 ? 's' : ''}
+            {holdoutCount > 0 && ` (${holdoutCount} held out from optimization)`}
           </p>
           {suite.testCases.map((tc) => (
             <div key={tc.id} style={{ marginBottom: 16, paddingBottom: 12, borderBottom: '1px solid #e2e4e9' }}>
@@ -120,6 +135,8 @@ export default function TestSuiteEditor({ agentId, analysisId, testSuiteId, onSu
                 <span className={`badge badge-${tc.scenarioType === 'happy-path' ? 'happy' : 'adversarial'}`}>
                   {tc.scenarioType}
                 </span>
+                {tc.kind === 'persona' && <span className="badge badge-persona">persona</span>}
+                {tc.split === 'holdout' && <span className="badge badge-holdout">holdout</span>}
                 {editingCase === tc.id ? (
                   <div className="inline-edit" style={{ flex: 1 }}>
                     <textarea value={editDesc} onChange={(e) => setEditDesc(e.target.value)} rows={2} />
@@ -134,6 +151,18 @@ export default function TestSuiteEditor({ agentId, analysisId, testSuiteId, onSu
                   </>
                 )}
               </div>
+              {tc.kind === 'persona' && tc.persona && (
+                <div style={{ marginLeft: 16, marginBottom: 6, fontSize: '0.85rem', color: '#374151' }}>
+                  <div><strong>Goal:</strong> {tc.persona.goal}</div>
+                  {tc.persona.knownFacts.length > 0 && (
+                    <div><strong>Knows:</strong> {tc.persona.knownFacts.join('; ')}</div>
+                  )}
+                  <div><strong>Temperament:</strong> {tc.persona.temperament}</div>
+                  <div>
+                    <strong>Gives up:</strong> {tc.persona.giveUpCondition} (max {tc.persona.maxTurns} turns)
+                  </div>
+                </div>
+              )}
               <div style={{ marginLeft: 16 }}>
                 <strong style={{ fontSize: '0.85rem' }}>Criteria:</strong>
                 <ul className="item-list">
@@ -149,6 +178,35 @@ export default function TestSuiteEditor({ agentId, analysisId, testSuiteId, onSu
                         <>
                           <span style={{ flex: 1 }}>
                             <span className={`badge badge-${crit.category}`}>{crit.category}</span>{' '}
+                            {crit.severity && crit.severity !== 'major' && (
+                              <>
+                                <span className={`badge badge-${crit.severity}`}>{crit.severity}</span>{' '}
+                              </>
+                            )}
+                            {crit.weight !== undefined && crit.weight !== null && (
+                              <>
+                                <span className="badge badge-score">×{crit.weight}</span>{' '}
+                              </>
+                            )}
+                            {crit.assertion && crit.assertion.type !== 'llm-judge' && (
+                              <>
+                                <span className="badge badge-assertion" title={JSON.stringify(crit.assertion)}>
+                                  {crit.assertion.type}
+                                </span>{' '}
+                              </>
+                            )}
+                            {crit.rubric && (
+                              <>
+                                <span className="badge badge-score" title={crit.rubric.levels.map((level, score) => `${score}: ${level}`).join('\n')}>
+                                  rubric 0-{crit.rubric.levels.length - 1}, pass ≥{crit.rubric.passThreshold}
+                                </span>{' '}
+                              </>
+                            )}
+                            {crit.turnSelector && (
+                              <>
+                                <span className="badge badge-turn">{describeTurnSelector(crit.turnSelector)}</span>{' '}
+                              </>
+                            )}
                             {crit.description}
                           </span>
                           <button className="btn btn-sm btn-secondary" onClick={() => { setEditingCriterion(crit.id); setEditCritDesc(crit.description); }}>Edit</button>
@@ -161,8 +219,20 @@ export default function TestSuiteEditor({ agentId, analysisId, testSuiteId, onSu
               </div>
             </div>
           ))}
-          <div className="actions">
+          <div className="actions" style={{ alignItems: 'center' }}>
             <button className="btn btn-secondary" onClick={generate}>Regenerate</button>
+            <label htmlFor="holdoutFraction" style={{ fontSize: '0.85rem' }}>Hold out</label>
+            <input
+              id="holdoutFraction"
+              type="number"
+              min={0.05}
+              max={0.95}
+              step={0.05}
+              value={holdoutFraction}
+              onChange={(e) => setHoldoutFraction(Number(e.target.value))}
+              style={{ width: 70 }}
+            />
+            <button className="btn btn-secondary" onClick={partition}>Split Train/Holdout</button>
           </div>
         </div>
       )}
@@ -0,0 +1,15 @@
+// Judge panel helpers, mirroring backend/src/utils/consensus.ts
+
+import { type CriterionResult } from '../api';
+
+export const LOW_AGREEMENT_THRESHOLD = 0.75;
+
+export function isLowAgreement(result: CriterionResult): boolean {
+  return result.agreement !== undefined && result.agreement !== null && result.agreement < LOW_AGREEMENT_THRESHOLD;
+}
+
+export function describeVotes(result: CriterionResult): string {
+  return (result.judgeVotes ?? [])
+    .map((v) => `${v.judge}: ${v.passed ? 'pass' : 'fail'}${v.score !== undefined ? ` (${v.score})` : ''}`)
+    .join('\n');
+}
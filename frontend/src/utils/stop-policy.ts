@@ -0,0 +1,44 @@
+// Early-stop policy helpers for the auto-optimization cycle panel
+
+import { type CycleStopPolicy, type CycleStopReason } from '../api';
+
+export interface StopPolicyInputs {
+  // 0 disables plateau detection
+  plateauWindow: number;
+  minImprovement: number;
+  // 0 means no limit
+  maxLLMCalls: number;
+  // USD
+  maxSpend: number;
+  maxMinutes: number;
+  stopWhenCriticalPassing: boolean;
+}
+
+const STOP_REASON_LABELS: Record<CycleStopReason, string> = {
+  'threshold-met': 'Target reached',
+  'max-cycles': 'Max cycles reached',
+  'plateau': 'Plateaued',
+  'budget-exhausted': 'Budget exhausted',
+  'time-limit': 'Time limit',
+  'critical-passing': 'Critical criteria passing',
+  'spend-cap': 'Spend cap reached',
+  'cancelled': 'Cancelled',
+  'paused': 'Paused',
+  'interrupted': 'Interrupted',
+};
+
+export function buildStopPolicy(inputs: StopPolicyInputs): CycleStopPolicy | undefined {
+  const policy: CycleStopPolicy = {};
+  if (inputs.plateauWindow > 0) {
+    policy.plateau = { window: inputs.plateauWindow, minImprovement: inputs.minImprovement };
+  }
+  if (inputs.maxLLMCalls > 0) policy.maxLLMCalls = inputs.maxLLMCalls;
+  if (inputs.maxSpend > 0) policy.maxCost = inputs.maxSpend;
+  if (inputs.maxMinutes > 0) policy.maxDurationMs = inputs.maxMinutes * 60_000;
+  if (inputs.stopWhenCriticalPassing) policy.stopWhenCriticalPassing = true;
+  return Object.keys(policy).length > 0 ? policy : undefined;
+}
+
+export function describeStopReason(reason: CycleStopReason): string {
+  return STOP_REASON_LABELS[reason];
+}
@@ -0,0 +1,55 @@
+// Folds streamed test run events into the cases shown while a run executes
+
+import { type TestCaseResult, type TestRunEvent, type TestRunTotals } from '../api';
+
+export interface LiveCaseResult extends Omit<TestCaseResult, 'status'> {
+  status: TestCaseResult['status'] | 'running';
+}
+
+export interface LiveTestRun {
+  totals: TestRunTotals | null;
+  cases: LiveCaseResult[];
+}
+
+export const EMPTY_LIVE_RUN: LiveTestRun = { totals: null, cases: [] };
+
+export function applyTestRunEvent(live: LiveTestRun, event: TestRunEvent): LiveTestRun {
+  const { completedCases, totalCases, passedCriteria, evaluatedCriteria, passRate } = event;
+  const totals = { completedCases, totalCases, passedCriteria, evaluatedCriteria, passRate };
+  const trial = event.trial ?? 1;
+  const isEventCase = (c: LiveCaseResult) => c.testCaseId === event.testCaseId && (c.trial ?? 1) === trial;
+  const update = (fn: (c: LiveCaseResult) => LiveCaseResult) =>
+    live.cases.map((c) => (isEventCase(c) ? fn(c) : c));
+
+  switch (event.type) {
+    case 'case_started':
+      if (!event.testCaseId || live.cases.some(isEventCase)) return { ...live, totals };
+      return {
+        totals,
+        cases: [
+          ...live.cases,
+          { testCaseId: event.testCaseId, trial, agentResponses: [], criterionResults: [], status: 'running' },
+        ],
+      };
+    case 'turn_completed': {
+      const response = event.agentResponse;
+      if (!response) return { ...live, totals };
+      return { totals, cases: update((c) => ({ ...c, agentResponses: [...c.agentResponses, response] })) };
+    }
+    case 'criterion_evaluated': {
+      const criterion = event.criterionResult;
+      if (!criterion) return { ...live, totals };
+      return { totals, cases: update((c) => ({ ...c, criterionResults: [...c.criterionResults, criterion] })) };
+    }
+    case 'case_completed': {
+      const result = event.result;
+      if (!result) return { ...live, totals };
+      // Add a case whose start the view never saw, as it stands
+      return live.cases.some(isEventCase)
+        ? { totals, cases: update(() => result) }
+        : { totals, cases: [...live.cases, result] };
+    }
+    default:
+      return { ...live, totals };
+  }
+}
@@ -0,0 +1,23 @@
+// Prompt tournament helpers for the optimization views
+
+import { type OptimizationCandidateConfig, type OptimizationStrategy } from '../api';
+
+// One temperature per candidate, spread from conservative to exploratory
+const CANDIDATE_TEMPERATURES = [0.2, 0.5, 0.8, 1.0, 1.2];
+
+export const MAX_CANDIDATES = CANDIDATE_TEMPERATURES.length;
+
+export function buildCandidateStrategy(count: number, sampleSize?: number): OptimizationStrategy {
+  return {
+    candidates: CANDIDATE_TEMPERATURES.slice(0, count).map((temperature) => ({ temperature })),
+    sampleSize,
+  };
+}
+
+export function describeCandidate(candidate: OptimizationCandidateConfig | undefined): string {
+  if (!candidate) return 'default';
+  const parts = [];
+  if (candidate.temperature !== undefined) parts.push(`temp ${candidate.temperature}`);
+  if (candidate.focus) parts.push(candidate.focus);
+  return parts.length > 0 ? parts.join(', ') : 'default';
+}
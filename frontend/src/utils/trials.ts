@@ -0,0 +1,12 @@
+// Repeated-trial helpers for test run views
+
+import { type CriterionTrialStats, type TestRun } from '../api';
+
+export function findTrialStats(run: TestRun, testCaseId: string, criterionId: string): CriterionTrialStats | undefined {
+  return run.criterionStats?.find((s) => s.testCaseId === testCaseId && s.criterionId === criterionId);
+}
+
+export function formatPassRateInterval(run: TestRun): string | null {
+  if (run.passRateLower == null || run.passRateUpper == null) return null;
+  return `95% CI ${Math.round(run.passRateLower * 100)}–${Math.round(run.passRateUpper * 100)}%`;
+}
@@ -0,0 +1,25 @@
+// Labels for criterion turn selectors
+
+import { type TurnSelector } from '../api';
+
+export function describeTurnSelector(selector: TurnSelector): string {
+  let label: string;
+  switch (selector.scope) {
+    case 'turn':
+      label = `turn ${selector.turn}`;
+      break;
+    case 'range':
+      label = `turns ${selector.from}-${selector.to}`;
+      break;
+    case 'first':
+      label = 'first turn';
+      break;
+    case 'last':
+      label = 'last turn';
+      break;
+    case 'by-turn':
+      label = `by turn ${selector.turn}`;
+      break;
+  }
+  return selector.match ? `${label} (${selector.match})` : label;
+}
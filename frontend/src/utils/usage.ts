@@ -0,0 +1,31 @@
+// Formatting for LLM token and cost totals, and spend caps
+
+import { type LLMBudget, type LLMUsageTotals } from '../api';
+
+export function formatCost(usd: number): string {
+  return usd < 0.01 && usd > 0 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+export function describeUsage(usage: LLMUsageTotals): string {
+  const parts = [
+    `${usage.calls} calls`,
+    `${formatTokens(usage.promptTokens)} in / ${formatTokens(usage.completionTokens)} out`,
+  ];
+  if (usage.failedCalls > 0) parts.push(`${usage.failedCalls} failed`);
+  if (usage.cachedCalls > 0) parts.push(`${usage.cachedCalls} cached`);
+  if (usage.replayedCalls > 0) parts.push(`${usage.replayedCalls} replayed`);
+  if (usage.unpricedCalls > 0) parts.push(`${usage.unpricedCalls} unpriced`);
+  return parts.join(' · ');
+}
+
+// 0 means no cap
+export function buildBudget(maxCost: number, maxTokens: number): LLMBudget | undefined {
+  const budget: LLMBudget = {};
+  if (maxCost > 0) budget.maxCost = maxCost;
+  if (maxTokens > 0) budget.maxTokens = Math.round(maxTokens);
+  return Object.keys(budget).length > 0 ? budget : undefined;
+}